@@ -2,10 +2,47 @@
 
 import { Suspense, useState, useEffect, useRef } from "react";
 import dynamic from "next/dynamic";
-import { Loader2, AlertTriangle, RotateCcw } from "lucide-react";
-import type { LegParams } from "@/lib/types";
-import { useStoredParams } from "@/hooks/useStoredParams";
+import {
+  Loader2,
+  AlertTriangle,
+  RotateCcw,
+  Crosshair,
+  Scan,
+  Route,
+  ArrowUpFromLine,
+  Weight,
+  Film,
+} from "lucide-react";
+import type { CameraPose, LegPair, LegParams } from "@/lib/types";
+import type { SetParamsOptions } from "@/lib/paramStore";
+import { constrainToProfile } from "@/lib/joints";
+import { solveLegIK, type KneeDirection } from "@/lib/inverseKinematics";
+import { groundContactShift, placeOnGround } from "@/lib/groundContact";
+import { WALK_CYCLES } from "@/lib/gait";
+import { createGait } from "@/lib/gaitEngine";
+import { activityProfile } from "@/lib/activities";
+import { applyPose, blendPoses, poseFromParams, type Pose } from "@/lib/posePresets";
+import type { TracePoint } from "@/lib/motionRecorder";
+import type { Vec3 } from "@/lib/kinematics";
+import { buildShareUrl, decodeShareHash } from "@/lib/shareLink";
+import type { SavedDesign } from "@/lib/designLibrary";
+import { DEFAULT_TIMELINE } from "@/lib/timeline";
+import {
+  useBilateral,
+  useGltfUrl,
+  useGroundContact,
+  useJointProfile,
+  useLegParams,
+  usePreferences,
+  useRecovery,
+  useRightLegParams,
+  useStored,
+  useSubject,
+} from "@/context/StoredParamsContext";
+import { useParamHistory } from "@/hooks/useParamHistory";
 import DataModal from "@/components/data-modal";
+import { TrajectoryPanel } from "@/components/trajectory-panel";
+import { TimelinePanel } from "@/components/timeline-panel";
 import { defaultParams } from "@/lib/defaultParams";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 // Componentes importados (asume que existen)
@@ -65,36 +102,78 @@ function ErrorFallback({ onReset }: { onReset: () => void }) {
   );
 }
 
+// helpers de la restauración al terminar la marcha
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t);
+// Duración de la transición hacia una pose
+const POSE_TRANSITION_MS = 500;
+
 export default function Home() {
 
-  const stored = useStoredParams(defaultParams);
+  // Store único (restaura la sesión y se sincroniza entre pestañas)
+  const { store, recorder } = useStored();
+  const params = useLegParams();
+  const rightParams = useRightLegParams();
+  const bilateral = useBilateral();
+  const jointProfile = useJointProfile();
+  const groundContact = useGroundContact();
+  const subject = useSubject();
+  const { activity, activitySettings } = usePreferences();
+  const gltfUrl = useGltfUrl();
+  const { setParams, setSideParams, setLegs, setGltfUrl } = store;
+  const recovery = useRecovery();
+  // El historial guarda ambas piernas: deshacer restaura también la derecha
+  const history = useParamHistory<LegPair>();
+  const legs: LegPair = { left: params, right: rightParams };
 
-  const [params, setParams] = useState<LegParams>(defaultParams);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [gltfUrl, setGltfUrl] = useState("");
   const [gltfError, setGltfError] = useState<string | null>(null);
   const [hasError, setHasError] = useState(false);
   const errorCountRef = useRef(0);
   const [showModal, setShowModal] = useState(false);
+  const [recoveryDismissed, setRecoveryDismissed] = useState(false);
+  const [sharedCamera, setSharedCamera] = useState<CameraPose | null>(null);
+  // Modo IK: arrastrar el tobillo resuelve cadera y rodilla
+  const [ikEnabled, setIkEnabled] = useState(false);
+  const [kneeDirection, setKneeDirection] = useState<KneeDirection>(1);
+  const [ikReachable, setIkReachable] = useState(true);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  // Trayectorias grabadas en la última marcha
+  const [showTrails, setShowTrails] = useState(false);
+  const [tracePoints, setTracePoints] = useState<TracePoint[]>(["ankle", "toe"]);
+  const [showGrf, setShowGrf] = useState(false);
+  const [showCom, setShowCom] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const cameraRef = useRef<CameraPose | null>(null);
 
   // refs para animación y detección
   const animFrameRef = useRef<number | null>(null);
-  const prevKneeRef = useRef<number | null>(null);
-  const animStateRef = useRef<string | null>(null);
-
-  // 1) efecto: guardado automático cuando params cambian
-  useEffect(() => {
-    stored.save(params);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [params]);
+  const poseFrameRef = useRef<number | null>(null);
 
-  // 2) efecto: guardar gltfUrl cuando cambie
+  // 0) efecto: hidratar desde un enlace compartido (tiene prioridad sobre
+  //    lo guardado en localStorage). Se limpia el hash para no dejarlo obsoleto.
   useEffect(() => {
-    if (gltfUrl) stored.saveGltf(gltfUrl);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gltfUrl]);
+    const shared = decodeShareHash(window.location.hash, defaultParams);
+    if (!shared) return;
+    if (shared.bilateral) {
+      store.setBilateral(shared.bilateral);
+      setLegs(shared.params, shared.rightParams ?? shared.params);
+    } else {
+      setParams(shared.params);
+    }
+    if (shared.gltfUrl) setGltfUrl(shared.gltfUrl);
+    if (shared.camera) {
+      setSharedCamera(shared.camera);
+      cameraRef.current = shared.camera;
+    }
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+  }, []);
 
-  // 3) efecto: manejar errores globales (mantener separado)
+  // 1) efecto: manejar errores globales (mantener separado)
   useEffect(() => {
     const handleError = (event: ErrorEvent) => {
       errorCountRef.current++;
@@ -106,13 +185,110 @@ export default function Home() {
     return () => window.removeEventListener("error", handleError);
   }, []);
 
+  // 1b) efecto: contacto con el suelo en pose estática. Tras cada cambio se
+  //     recalcula la elevación; durante la marcha la ajusta la animación.
+  useEffect(() => {
+    if (!groundContact || isAnimating) return;
+    if (!bilateral.enabled) {
+      const grounded = placeOnGround(params, groundContactShift([params]));
+      if (grounded !== params) setParams(grounded);
+      return;
+    }
+    const shift = groundContactShift([params, rightParams]);
+    const left = placeOnGround(params, shift);
+    const right = placeOnGround(rightParams, shift);
+    if (left !== params || right !== rightParams) setLegs(left, right);
+  }, [groundContact, isAnimating, bilateral.enabled, params, rightParams]);
 
+
+  // Ediciones del usuario: pasan por el historial (un arrastre = una entrada).
+  // Durante la marcha los frames son de la animación y se restauran al final.
+  // En modo bilateral los sliders editan el lado activo.
   const handleParamChange = (key: keyof LegParams, value: number) => {
-    setParams((prev) => ({ ...prev, [key]: value }));
+    const side = bilateral.enabled ? bilateral.activeSide : "left";
+    if (!isAnimating) history.record(legs, `${side}:${key}`);
+    setSideParams(side, (prev) => ({ ...prev, [key]: value }));
+  };
+
+  // "Ajustar al perfil": lleva el lado activo dentro de los límites articulares
+  const constrainPose = () => {
+    if (isAnimating) return;
+    const side = bilateral.enabled ? bilateral.activeSide : "left";
+    history.record(legs);
+    setSideParams(side, (prev) => constrainToProfile(prev, jointProfile).params);
   };
 
+  // Poses: un clic transiciona desde la pose actual (una entrada del
+  // historial); la mezcla aplica al instante y un arrastre es una entrada
+  const applyPosePreset = (pose: Pose, animate = false) => {
+    if (isAnimating) return;
+    const side = bilateral.enabled ? bilateral.activeSide : "left";
+    if (poseFrameRef.current != null) cancelAnimationFrame(poseFrameRef.current);
+    poseFrameRef.current = null;
+    if (!animate) {
+      history.record(legs, `${side}:pose`);
+      setSideParams(side, (prev) => applyPose(prev, pose));
+      return;
+    }
+    history.record(legs);
+    const from = poseFromParams(side === "right" ? rightParams : params);
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const t = clamp((now - startTime) / POSE_TRANSITION_MS, 0, 1);
+      const next = blendPoses(from, pose, easeInOut(t));
+      // Frames intermedios transitorios; el último se guarda
+      setSideParams(side, (prev) => applyPose(prev, next), t < 1 ? { transient: true } : {});
+      poseFrameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    poseFrameRef.current = requestAnimationFrame(step);
+  };
+
+  // Un arrastre del asa IK es una sola entrada del historial
+  const handleIKTarget = (target: Vec3) => {
+    if (isAnimating) return;
+    const side = bilateral.enabled ? bilateral.activeSide : "left";
+    const current = side === "right" ? rightParams : params;
+    const solved = solveLegIK(current, target, { kneeDirection });
+    const constrained = constrainToProfile(solved.params, jointProfile);
+    history.record(legs, "ik");
+    setSideParams(side, constrained.params);
+    setIkReachable(solved.reachable && constrained.adjusted.length === 0);
+  };
+
+  const undo = () => {
+    if (isAnimating) return;
+    const prev = history.undo(legs);
+    if (prev) setLegs(prev.left, prev.right);
+  };
+
+  const redo = () => {
+    if (isAnimating) return;
+    const next = history.redo(legs);
+    if (next) setLegs(next.left, next.right);
+  };
+
+  // 2) efecto: atajos de teclado Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z y Ctrl+Y
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  });
+
   const resetValues = () => {
-    setParams(defaultParams);
+    history.record(legs);
+    setLegs(defaultParams, defaultParams);
     setIsAnimating(false);
     setGltfError(null);
     // cancelar animaciones activas si existen
@@ -120,6 +296,45 @@ export default function Home() {
       cancelAnimationFrame(animFrameRef.current);
       animFrameRef.current = null;
     }
+    if (poseFrameRef.current != null) {
+      cancelAnimationFrame(poseFrameRef.current);
+      poseFrameRef.current = null;
+    }
+    recorder.stop();
+  };
+
+  // Devuelve false si no hay portapapeles: el enlace queda en la barra de direcciones
+  const copyShareLink = async (): Promise<boolean> => {
+    const url = buildShareUrl({
+      params,
+      bilateral,
+      rightParams,
+      gltfUrl,
+      camera: cameraRef.current ?? undefined,
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch (e) {
+      console.warn("[page] no se pudo copiar el enlace", e);
+      window.history.replaceState(null, "", url);
+      return false;
+    }
+  };
+
+  const loadDesign = (design: SavedDesign) => {
+    const right = rightParams;
+    resetValues();
+    // resetValues ya registró el estado previo en el historial
+    if (design.rightParams && design.bilateral) {
+      store.setBilateral(design.bilateral);
+      setLegs(design.params, design.rightParams);
+    } else {
+      // Diseño de una pierna: la derecha independiente se conserva
+      setLegs(design.params, bilateral.link === "mirror" ? design.params : right);
+    }
+    if (design.gltfUrl) setGltfUrl(design.gltfUrl);
+    store.setTimeline(design.timeline ?? DEFAULT_TIMELINE);
   };
 
   const animateWalk = () => {
@@ -131,265 +346,67 @@ export default function Home() {
       cancelAnimationFrame(animFrameRef.current);
       animFrameRef.current = null;
     }
+    if (poseFrameRef.current != null) {
+      cancelAnimationFrame(poseFrameRef.current);
+      poseFrameRef.current = null;
+    }
 
     setIsAnimating(true);
 
-    // guardamos pose inicial para restaurar después
-    const startParams = { ...params };
-
-    // refs/estado locales que sobreviven entre frames
-    const state = {
-      startTime: performance.now(),
-      cycleDuration: 1200, // ms por paso (más lento y natural)
-      totalCycles: 2,
-      currentCycle: 0,
-      // máquina de estados explícita
-      phase: "heel-strike" as
-        | "heel-strike"
-        | "foot-flat"
-        | "heel-rise"
-        | "toe-off"
-        | "swing",
-      phaseStart: performance.now(),
-      // bloqueo del foot en contacto
-      isFootLocked: false,
-      // valores target de contacto (se establecen cuando entramos en foot-flat)
-      contactAnkle: startParams.ankleAngle ?? -15,
-      contactArch: startParams.archHeight ?? 4,
-      // prev knee para derivada (velocidad)
-      prevKnee: params.kneeAngle,
-      // tunables
-      timings: {
-        heelStrike: 0.18,
-        footFlat: 0.55,
-        heelRise: 0.78,
-        toeOff: 0.95,
-      },
-      // control de sensibilidad para detectar "rodilla recta"
-      kneeStraightThreshold: (startParams.kneeAngle ?? 5) + 4,
-      plantSnapStrength: 0.92,
+    // guardamos pose inicial de cada pierna para restaurar después
+    const start: LegPair = { left: { ...params }, right: { ...rightParams } };
+    const gait = createGait(start, activityProfile(activity, activitySettings, start.left), {
+      jointProfile,
+      subject,
+      twoLegs: bilateral.enabled,
+      groundContact,
+    });
+    const startTime = performance.now();
+    const totalSeconds = gait.cycleSeconds * WALK_CYCLES;
+
+    // Con dos piernas se escriben ambas a la vez. Frames transitorios: no se
+    // persisten ni se envían a otras pestañas.
+    const current = (): LegPair => {
+      const state = store.getState();
+      return { left: state.params, right: state.rightParams };
     };
-
-    // helpers
-    const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-    const clamp = (v: number, a: number, b: number) =>
-      Math.max(a, Math.min(b, v));
-    const easeInOut = (t: number) =>
-      t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-
-    // función que calcula fase interna (0..1) dado cycleProgress y timings
-    const phaseMix = (cycleProgress: number, start: number, end: number) => {
-      if (cycleProgress < start) return 0;
-      if (cycleProgress > end) return 1;
-      return (cycleProgress - start) / Math.max(1e-6, end - start);
+    const write = (legs: { left: LegParams; right: LegParams | null }, options?: SetParamsOptions) => {
+      if (legs.right) setLegs(legs.left, legs.right, options);
+      else setParams(legs.left, options);
     };
 
     // loop
     const frame = (now: number) => {
-      const cycleDur = state.cycleDuration;
-      const cycleProgress = ((now - state.startTime) % cycleDur) / cycleDur; // 0..1 within cycle
-
-      // ---------- targets por fases (guía)
-      // Heel strike: dorsiflex ligero para talón
-      const heelStrikeT = phaseMix(
-        cycleProgress,
-        0.0,
-        state.timings.heelStrike
-      );
-      const heelStrikeAngle = lerp(
-        startParams.ankleAngle ?? -15,
-        -6,
-        easeInOut(heelStrikeT)
-      );
-
-      // Foot-flat: de dorsiflex a foot-flat (ligera plantarflex)
-      const flatT = phaseMix(
-        cycleProgress,
-        state.timings.heelStrike,
-        state.timings.footFlat
-      );
-      const flatAngle = lerp(-6, 6, easeInOut(flatT));
-
-      // Heel-rise: pequeña transición
-      const heelRiseT = phaseMix(
-        cycleProgress,
-        state.timings.footFlat,
-        state.timings.heelRise
-      );
-      const heelRiseAngle = lerp(6, 10, easeInOut(heelRiseT));
-
-      // Toe-off: plantarflex fuerte
-      const toeOffT = phaseMix(
-        cycleProgress,
-        state.timings.heelRise,
-        state.timings.toeOff
-      );
-      const toeOffAngle = lerp(10, 40, easeInOut(toeOffT));
-
-      // Decide fase nominal según cycleProgress
-      let nominalPhase: typeof state.phase = "swing";
-      if (cycleProgress <= state.timings.heelStrike)
-        nominalPhase = "heel-strike";
-      else if (cycleProgress <= state.timings.footFlat)
-        nominalPhase = "foot-flat";
-      else if (cycleProgress <= state.timings.heelRise)
-        nominalPhase = "heel-rise";
-      else if (cycleProgress <= state.timings.toeOff) nominalPhase = "toe-off";
-      else nominalPhase = "swing";
-
-      // Detectamos la velocidad/derivada de la rodilla para ver si se está enderezando
-      const currentKnee = params.kneeAngle;
-      const prevKnee = state.prevKnee ?? currentKnee;
-      const kneeVel = (currentKnee - prevKnee) / (1 / 60); // approximate deg/sec (asumiendo ~60fps)
-      state.prevKnee = currentKnee;
-
-      // Si la rodilla se está enderezando (vel negativa grande) AND nominalPhase es foot-flat o acercándose,
-      // consideramos que estamos plantando. También chequeamos umbral de ángulo.
-      const kneeIsStraightening = kneeVel < -20; // deg/sec negative = decreasing fast (enderezando)
-      const kneeStraightAngleReached =
-        currentKnee <= state.kneeStraightThreshold;
-
-      // Si entramos en foot-flat nominal, bloqueamos el foot en pose de contacto.
-      if (nominalPhase === "foot-flat" && !state.isFootLocked) {
-        state.isFootLocked = true;
-        // fijamos los valores de contact a medida que entra foot-flat: esto evitará que suban los dedos
-        state.contactAnkle = flatAngle;
-        state.contactArch = Math.max(2, (startParams.archHeight ?? 4) - 1.4);
-      }
-
-      // Si detectamos planted por rodilla (más robusto), forzamos lock inmediato
-      if (
-        kneeIsStraightening &&
-        kneeStraightAngleReached &&
-        !state.isFootLocked
-      ) {
-        state.isFootLocked = true;
-        state.contactAnkle = flatAngle;
-        state.contactArch = Math.max(2, (startParams.archHeight ?? 4) - 1.6);
-      }
-
-      // Si empezamos toe-off fase, liberamos el lock
-      if (nominalPhase === "toe-off" && state.isFootLocked) {
-        state.isFootLocked = false;
-      }
-
-      // Componer el desiredAnkle según fase pero respetando lock
-      let desiredAnkle = startParams.ankleAngle ?? -15;
-      if (nominalPhase === "heel-strike") desiredAnkle = heelStrikeAngle;
-      else if (nominalPhase === "foot-flat") desiredAnkle = flatAngle;
-      else if (nominalPhase === "heel-rise") desiredAnkle = heelRiseAngle;
-      else if (nominalPhase === "toe-off") desiredAnkle = toeOffAngle;
-      else desiredAnkle = startParams.ankleAngle ?? -15;
-
-      // Si estamos lockeados, forzamos a contactAnkle (mezclando un poco para suavizar)
-      if (state.isFootLocked) {
-        // mezcla fuerte hacia contactAnkle para "snap suave"
-        desiredAnkle = lerp(
-          desiredAnkle,
-          state.contactAnkle,
-          state.plantSnapStrength
-        );
-      }
-
-      // arch: si foot locked usamos contactArch, si no, usamos interpolación normal
-      let desiredArch = startParams.archHeight ?? 4;
-      if (state.isFootLocked) {
-        desiredArch = lerp(
-          desiredArch,
-          state.contactArch,
-          state.plantSnapStrength
-        );
-      } else {
-        // durante foot-flat (pero no locked) aplanamos un poco
-        if (nominalPhase === "foot-flat") {
-          const a = Math.max(2, (startParams.archHeight ?? 4) - 1.4);
-          const ft = phaseMix(
-            cycleProgress,
-            state.timings.heelStrike,
-            state.timings.footFlat
-          );
-          desiredArch = lerp(startParams.archHeight ?? 4, a, easeInOut(ft));
-        } else {
-          desiredArch = startParams.archHeight ?? 4;
-        }
-      }
-
-      // otros targets (knee, hip, step, vertical) — similares a tu versión mejorada
-      // Knee: mayor en swing
-      const kneeOsc = Math.max(0, Math.sin((cycleProgress - 0.12) * Math.PI));
-      const desiredKnee = lerp(
-        startParams.kneeAngle ?? 5,
-        70,
-        clamp(kneeOsc, 0, 1)
-      );
-
-      const stepYaw = 12;
-      const desiredStep =
-        Math.sin(cycleProgress * Math.PI * 2 + Math.PI / 2) * stepYaw;
-      const desiredVertical =
-        Math.max(0, Math.sin((cycleProgress - 0.25) * Math.PI)) * 8;
-
-      // Suavizado por frame al aplicar params (para evitar saltos)
-      setParams((prev) => {
-        const tSmooth = 0.14;
-        return {
-          ...prev,
-          ankleAngle: lerp(
-            prev.ankleAngle,
-            clamp(desiredAnkle, -90, 60),
-            tSmooth
-          ),
-          archHeight: lerp(
-            prev.archHeight,
-            clamp(desiredArch, 2, 8),
-            tSmooth * 1.1
-          ),
-          kneeAngle: lerp(prev.kneeAngle, clamp(desiredKnee, 0, 90), tSmooth),
-          stepAngle: lerp(prev.stepAngle, clamp(desiredStep, -35, 35), tSmooth),
-          verticalShift: lerp(prev.verticalShift, desiredVertical, tSmooth),
-          hipAngle: lerp(
-            prev.hipAngle,
-            startParams.hipAngle ??
-              180 + Math.sin(cycleProgress * Math.PI * 2) * 8,
-            tSmooth * 0.6
-          ),
-        };
+      const time = (now - startTime) / 1000;
+      const next = gait.frame(current(), time);
+      write(next, { transient: true });
+
+      // Muestra del frame para trayectorias y gráficas
+      recorder.record({
+        time,
+        ...next.sample,
+        pelvisWidth: bilateral.pelvisWidth,
       });
 
       // terminar o seguir
-      const totalElapsed = now - state.startTime;
-      if (totalElapsed < cycleDur * state.totalCycles) {
+      if (time < totalSeconds) {
         animFrameRef.current = requestAnimationFrame(frame);
       } else {
+        recorder.stop();
         // restauración suave al finalizar
         const restoreStart = performance.now();
         const restoreDur = 450;
         const restoreLoop = (now2: number) => {
           const e = now2 - restoreStart;
-          const p = clamp(e / restoreDur, 0, 1);
-          const eased = easeInOut(p);
-          setParams((prev) => ({
-            ...prev,
-            kneeAngle: lerp(prev.kneeAngle, startParams.kneeAngle, eased),
-            ankleAngle: lerp(prev.ankleAngle, startParams.ankleAngle, eased),
-            hipAngle: lerp(prev.hipAngle, startParams.hipAngle, eased),
-            stepAngle: lerp(prev.stepAngle, startParams.stepAngle, eased),
-            verticalShift: lerp(
-              prev.verticalShift,
-              startParams.verticalShift,
-              eased
-            ),
-            archHeight: lerp(prev.archHeight, startParams.archHeight, eased),
-          }));
+          const eased = easeInOut(clamp(e / restoreDur, 0, 1));
+          write(gait.restore(current(), eased), { transient: true });
           if (e < restoreDur) {
             animFrameRef.current = requestAnimationFrame(restoreLoop);
           } else {
             // reset exacto
-            setParams((prev) => ({ ...prev, ...startParams }));
+            write({ left: start.left, right: bilateral.enabled ? start.right : null });
             setIsAnimating(false);
             animFrameRef.current = null;
-            prevKneeRef.current = null;
-            animStateRef.current = null;
           }
         };
         animFrameRef.current = requestAnimationFrame(restoreLoop);
@@ -397,6 +414,7 @@ export default function Home() {
     };
 
     // lanzar loop
+    recorder.start();
     animFrameRef.current = requestAnimationFrame(frame);
   };
 
@@ -420,16 +438,134 @@ export default function Home() {
           }
         >
           <CanvasScene
-            params={params}
-            gltfUrl={gltfUrl}
-            setGltfUrl={setGltfUrl}
             gltfError={gltfError}
             setGltfError={setGltfError}
+            cameraPose={sharedCamera}
+            onCameraChange={(pose) => {
+              cameraRef.current = pose;
+            }}
+            ik={
+              ikEnabled && !isAnimating
+                ? {
+                    side: bilateral.enabled ? bilateral.activeSide : "left",
+                    reachable: ikReachable,
+                    onTarget: handleIKTarget,
+                    onEnd: history.endGesture,
+                  }
+                : null
+            }
+            showWorkspace={showWorkspace}
+            trails={showTrails ? tracePoints : []}
+            showGrf={showGrf}
+            showCom={showCom}
           />
         </Suspense>
 
         {/* Info Card Overlay */}
-        <InfoCard params={params} />
+        <InfoCard />
+
+        {/* Modo IK y espacio de trabajo */}
+        <div className="absolute top-6 right-6 flex flex-col items-end gap-2 z-40">
+          <button
+            onClick={() => setShowWorkspace((v) => !v)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors ${
+              showWorkspace
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <Scan className="inline w-4 h-4 mr-2" />
+            Espacio de trabajo
+          </button>
+          <button
+            onClick={() => setShowTrails((v) => !v)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors ${
+              showTrails
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <Route className="inline w-4 h-4 mr-2" />
+            Trayectorias
+          </button>
+          {showTrails && (
+            <TrajectoryPanel points={tracePoints} onChange={setTracePoints} />
+          )}
+          <button
+            onClick={() => setShowGrf((v) => !v)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors ${
+              showGrf
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <ArrowUpFromLine className="inline w-4 h-4 mr-2" />
+            Fuerza de reacción
+          </button>
+          <button
+            onClick={() => setShowCom((v) => !v)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors ${
+              showCom
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <Weight className="inline w-4 h-4 mr-2" />
+            Centro de masa
+          </button>
+          <button
+            onClick={() => setShowTimeline((v) => !v)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors ${
+              showTimeline
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <Film className="inline w-4 h-4 mr-2" />
+            Línea de tiempo
+          </button>
+          <button
+            onClick={() => setIkEnabled((v) => !v)}
+            disabled={isAnimating}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold shadow-xl border transition-colors disabled:opacity-50 ${
+              ikEnabled
+                ? "bg-cyan-600 border-cyan-400 text-white"
+                : "bg-slate-900/90 border-purple-500/30 text-purple-300 hover:bg-purple-950/80"
+            }`}
+          >
+            <Crosshair className="inline w-4 h-4 mr-2" />
+            {ikEnabled ? "Modo IK activo" : "Modo IK"}
+          </button>
+          {ikEnabled && (
+            <div className="bg-slate-900/90 border border-purple-500/30 rounded-lg p-2 text-xs text-slate-300 space-y-2 shadow-xl">
+              <p>Arrastra el asa del tobillo para posar la pierna</p>
+              <div className="flex gap-1">
+                {([1, -1] as const).map((dir) => (
+                  <button
+                    key={dir}
+                    onClick={() => setKneeDirection(dir)}
+                    className={`flex-1 px-2 py-1 rounded border ${
+                      kneeDirection === dir
+                        ? "bg-purple-600 border-purple-400 text-white"
+                        : "border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+                    }`}
+                  >
+                    Rodilla {dir === 1 ? "adelante" : "atrás"}
+                  </button>
+                ))}
+              </div>
+              {!ikReachable && (
+                <p className="text-amber-300">⚠️ Objetivo fuera de alcance o de los límites articulares</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {showTimeline && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40">
+            <TimelinePanel disabled={isAnimating} />
+          </div>
+        )}
 
         {/* Error Display */}
         {gltfError && (
@@ -444,17 +580,42 @@ export default function Home() {
             </button>
           </div>
         )}
+
+        {/* Diseño guardado corrupto: se apartó en cuarentena en vez de perderse */}
+        {recovery?.status === "quarantined" && !recoveryDismissed && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-amber-500/90 text-slate-950 px-6 py-3 rounded-lg shadow-xl max-w-md z-50">
+            <p className="text-sm font-semibold">
+              El diseño guardado estaba dañado y se cargaron los valores por defecto.
+            </p>
+            <p className="text-xs mt-1">
+              Motivo: {recovery.reason}. Copia apartada en{" "}
+              <span className="font-mono">{recovery.quarantineKey}</span>
+            </p>
+            <button
+              onClick={() => setRecoveryDismissed(true)}
+              className="mt-2 text-xs underline hover:text-slate-800"
+            >
+              Entendido
+            </button>
+          </div>
+        )}
       </div>
       <ControlPanel
-        params={params}
         onParamChange={handleParamChange}
+        onParamCommit={history.endGesture}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={history.canUndo && !isAnimating}
+        canRedo={history.canRedo && !isAnimating}
         onReset={resetValues}
         onAnimate={animateWalk}
         isAnimating={isAnimating}
-        gltfUrl={gltfUrl}
-        setGltfUrl={setGltfUrl}
         onClearError={() => setGltfError(null)}
         onOpenData={() => setShowModal(true)} // <-- pasar callback
+        onLoadDesign={loadDesign}
+        onCopyLink={copyShareLink}
+        onConstrain={constrainPose}
+        onApplyPose={applyPosePreset}
       />
 
       {/* Modal renderizado en el nivel de la página */}
@@ -463,12 +624,15 @@ export default function Home() {
         <DataModal
               open={showModal}
               onClose={() => setShowModal(false)}
-              params={stored.params}
-              gltfUrl={stored.gltfUrl || gltfUrl}
               defaultParams={defaultParams}
               onExport={() => {
                 /* reutiliza tu exportData o similar */
               }}
+              onImport={(imported, importedGltf) => {
+                history.record(legs);
+                setParams(imported);
+                if (importedGltf) setGltfUrl(importedGltf);
+              }}
             />
       </Dialog>
     </div>
@@ -0,0 +1,81 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ACTIVITIES, ACTIVITY_IDS, stepDigits } from "@/lib/activities";
+import {
+  useActivity,
+  useActivitySettings,
+  usePreferences,
+  useStored,
+} from "@/context/StoredParamsContext";
+
+function optionClass(active: boolean) {
+  return active
+    ? "bg-purple-600 border-purple-400 text-white hover:bg-purple-700"
+    : "bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50";
+}
+
+/** Actividad que reproduce "Animar" y sus parámetros ajustables */
+export function ActivitySettings({ disabled = false }: { disabled?: boolean }) {
+  const { store } = useStored();
+  const activity = useActivity();
+  const settings = useActivitySettings(activity);
+  const saved = usePreferences().activitySettings;
+  const params = Object.entries(ACTIVITIES[activity].params);
+
+  const setValue = (key: string, value: number) =>
+    store.setPreferences({
+      activitySettings: { ...saved, [activity]: { ...settings, [key]: value } },
+    });
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">🏃 Actividad</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {ACTIVITY_IDS.map((id) => (
+            <Button
+              key={id}
+              size="sm"
+              variant="outline"
+              disabled={disabled}
+              onClick={() => store.setPreferences({ activity: id })}
+              className={`text-xs ${optionClass(activity === id)}`}
+            >
+              {ACTIVITIES[id].label}
+            </Button>
+          ))}
+        </div>
+
+        {params.map(([key, param]) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-semibold text-slate-300">{param.label}</Label>
+              <span className="text-sm font-bold text-purple-400">
+                {settings[key].toFixed(stepDigits(param.step))} {param.unit}
+              </span>
+            </div>
+            <Slider
+              value={[settings[key]]}
+              onValueChange={(v) => setValue(key, v[0])}
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+        ))}
+
+        {params.length === 0 && (
+          <p className="text-xs text-slate-400">
+            Curvas fijas, sin parámetros propios.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
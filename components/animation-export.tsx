@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import {
+  exportAnimatedGlb,
+  framesFromRecording,
+  framesFromTimeline,
+  getBakeRig,
+} from "@/lib/gltfAnimation";
+import { hasKeyframes } from "@/lib/timeline";
+import {
+  useGltfUrl,
+  useLegParams,
+  useMotionRecording,
+  useSubject,
+  useTimeline,
+} from "@/context/StoredParamsContext";
+
+type Source = "walk" | "timeline";
+
+const SOURCES: { value: Source; label: string; desc: string; clip: string }[] = [
+  { value: "walk", label: "Última animación", desc: "Frames grabados al pulsar Animar", clip: "marcha" },
+  { value: "timeline", label: "Línea de tiempo", desc: "Keyframes muestreados a 30 fps", clip: "linea-de-tiempo" },
+];
+
+/** Hornea la animación en el esqueleto del modelo glTF y descarga un GLB */
+export function AnimationExport() {
+  const gltfUrl = useGltfUrl();
+  const params = useLegParams();
+  const recording = useMotionRecording();
+  const timeline = useTimeline();
+  const subject = useSubject();
+  const [source, setSource] = useState<Source>("walk");
+  const [clipName, setClipName] = useState("");
+  const [status, setStatus] = useState<{ working: boolean; message?: string; error?: boolean }>({
+    working: false,
+  });
+
+  const available =
+    source === "walk"
+      ? !recording.recording && recording.samples.length > 1
+      : hasKeyframes(timeline);
+
+  const handleExport = async () => {
+    const rig = getBakeRig();
+    if (!rig) {
+      setStatus({ working: false, error: true, message: "Carga un modelo glTF en la escena" });
+      return;
+    }
+    const frames =
+      source === "walk"
+        ? framesFromRecording(recording.samples, subject)
+        : framesFromTimeline(timeline, params, subject);
+    const name = clipName.trim() || SOURCES.find((s) => s.value === source)!.clip;
+
+    setStatus({ working: true });
+    try {
+      const blob = await exportAnimatedGlb(name, frames, rig);
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `pierna-${name}-${timestamp}.glb`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus({
+        working: false,
+        message: `Clip "${name}": ${frames.length} frames, ${frames[frames.length - 1].time.toFixed(2)} s`,
+      });
+    } catch (e) {
+      console.warn("[AnimationExport] error exporting GLB", e);
+      setStatus({ working: false, error: true, message: "No se pudo exportar el GLB" });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50">
+      <h4 className="text-md font-bold text-purple-300 mb-2">🎬 Animación glTF (.glb)</h4>
+      <p className="text-xs text-slate-400 mb-4">
+        Hornea la pierna izquierda en rotaciones por hueso (cadera, rodilla, pie) y la elevación
+        en un nodo raíz, listo para Blender o motores de juego.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        {SOURCES.map((s) => (
+          <label
+            key={s.value}
+            className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all ${
+              source === s.value
+                ? "bg-purple-500/20 border-purple-500"
+                : "bg-slate-900/50 border-slate-700 hover:border-slate-600"
+            }`}
+          >
+            <input
+              type="radio"
+              name="animation-source"
+              value={s.value}
+              checked={source === s.value}
+              onChange={() => setSource(s.value)}
+              className="mt-1"
+            />
+            <div>
+              <div className="text-white font-semibold">{s.label}</div>
+              <div className="text-xs text-slate-400">{s.desc}</div>
+            </div>
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={clipName}
+          onChange={(e) => setClipName(e.target.value)}
+          placeholder={`Nombre del clip (${SOURCES.find((s) => s.value === source)!.clip})`}
+          className="flex-1 px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:border-purple-500 focus:outline-none"
+        />
+        <button
+          onClick={handleExport}
+          disabled={!gltfUrl || !available || status.working}
+          className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 rounded-lg text-white font-semibold disabled:opacity-50"
+        >
+          {status.working ? "Exportando..." : "⬇️ Exportar GLB"}
+        </button>
+      </div>
+      {!available && (
+        <p className="text-xs text-amber-300 mt-2">
+          {source === "walk"
+            ? "Anima la pierna primero para grabar sus frames."
+            : "La línea de tiempo no tiene keyframes."}
+        </p>
+      )}
+      {status.message && (
+        <p className={`text-xs mt-2 ${status.error ? "text-red-400" : "text-green-400"}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Link2, Unlink } from "lucide-react";
+import type { LegSide } from "@/lib/types";
+import { PELVIS_WIDTH_RANGE } from "@/lib/paramStore";
+import { formatLength, fromDisplayLength, toDisplayLength } from "@/lib/units";
+import { useBilateral, useStored, useUnits } from "@/context/StoredParamsContext";
+
+const SIDE_LABELS: Record<LegSide, string> = {
+  left: "Izquierda",
+  right: "Derecha",
+};
+
+/** Modo de dos piernas: lado editado, enlace espejo y ancho de pelvis */
+export function BilateralControls() {
+  const { store } = useStored();
+  const bilateral = useBilateral();
+  const units = useUnits();
+  const toUnit = (cm: number) => toDisplayLength(cm, units.length);
+  const mirror = bilateral.link === "mirror";
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label
+            htmlFor="bilateral-enabled"
+            className="text-sm font-semibold text-purple-300"
+          >
+            🦵🦵 Modelo bilateral
+          </Label>
+          <Switch
+            id="bilateral-enabled"
+            checked={bilateral.enabled}
+            onCheckedChange={(enabled) => store.setBilateral({ enabled })}
+          />
+        </div>
+
+        {bilateral.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {(["left", "right"] as const).map((side) => (
+                <Button
+                  key={side}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => store.setBilateral({ activeSide: side })}
+                  className={
+                    bilateral.activeSide === side
+                      ? "bg-purple-600 border-purple-400 text-white hover:bg-purple-700"
+                      : "bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+                  }
+                >
+                  {SIDE_LABELS[side]}
+                </Button>
+              ))}
+            </div>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                store.setBilateral({ link: mirror ? "independent" : "mirror" })
+              }
+              className="w-full bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+            >
+              {mirror ? (
+                <Link2 className="mr-2 h-4 w-4" />
+              ) : (
+                <Unlink className="mr-2 h-4 w-4" />
+              )}
+              {mirror ? "Piernas enlazadas (espejo)" : "Piernas independientes"}
+            </Button>
+            <p className="text-xs text-slate-400">
+              {mirror
+                ? "Ambos lados comparten los parámetros; al desenlazar cada uno se edita por separado."
+                : `Los controles editan la pierna ${SIDE_LABELS[bilateral.activeSide].toLowerCase()}. Al enlazar, la derecha copia la izquierda.`}
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold text-slate-300">
+                  Ancho de pelvis
+                </Label>
+                <span className="text-sm font-bold text-purple-400">
+                  {formatLength(bilateral.pelvisWidth, units, 0)}
+                </span>
+              </div>
+              <Slider
+                value={[toUnit(bilateral.pelvisWidth)]}
+                onValueChange={(v) =>
+                  store.setBilateral({
+                    pelvisWidth: Math.round(fromDisplayLength(v[0], units.length)),
+                  })
+                }
+                min={toUnit(PELVIS_WIDTH_RANGE.min)}
+                max={toUnit(PELVIS_WIDTH_RANGE.max)}
+                step={toUnit(PELVIS_WIDTH_RANGE.step)}
+                className="w-full"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { Suspense, useState, useEffect } from "react"
+import { Suspense, useState, useEffect, useRef } from "react"
 import { Canvas } from "@react-three/fiber"
 import {
   OrbitControls,
@@ -10,16 +10,50 @@ import {
   GizmoHelper,
   GizmoViewcube,
 } from "@react-three/drei"
-import type { LegParams } from "@/lib/types"
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib"
+import type { CameraPose, LegSide } from "@/lib/types"
+import type { Vec3 } from "@/lib/kinematics"
+import { IKTarget } from "@/components/ik-target"
+import { WorkspaceCloud } from "@/components/workspace-cloud"
+import { MotionTrails } from "@/components/motion-trails"
+import { GrfArrow } from "@/components/grf-arrow"
+import { ComMarkers } from "@/components/com-markers"
+import type { TracePoint } from "@/lib/motionRecorder"
+import {
+  useBilateral,
+  useGltfUrl,
+  useLegParams,
+  useMotionRecording,
+  useRightLegParams,
+  useStored,
+} from "@/context/StoredParamsContext"
+import { registerCaptureCanvas } from "@/lib/canvasCapture"
 
 interface CanvasSceneProps {
-  params: LegParams
-  gltfUrl: string
-  setGltfUrl: (url: string) => void
   gltfError: string | null
   setGltfError: (error: string | null) => void
+  /** Pose inicial (p. ej. desde un enlace compartido) */
+  cameraPose?: CameraPose | null
+  onCameraChange?: (pose: CameraPose) => void
+  /** Modo IK: asa arrastrable en el tobillo del lado indicado */
+  ik?: {
+    side: LegSide
+    reachable: boolean
+    onTarget: (target: Vec3) => void
+    onEnd: () => void
+  } | null
+  /** Mostrar el espacio de trabajo alcanzable del pie */
+  showWorkspace?: boolean
+  /** Puntos cuya trayectoria de la última marcha se dibuja */
+  trails?: TracePoint[]
+  /** Flecha de la fuerza de reacción del suelo bajo cada pie */
+  showGrf?: boolean
+  /** Marcadores del centro de masa de cada segmento y de la pierna */
+  showCom?: boolean
 }
 
+const DEFAULT_CAMERA: CameraPose = { position: [60, 40, 60], target: [0, 20, 0] }
+
 // Importación dinámica del modelo
 import dynamic from "next/dynamic"
 
@@ -65,8 +99,50 @@ function ErrorFallback() {
   )
 }
 
-export default function CanvasScene({ params, gltfUrl, setGltfUrl, gltfError, setGltfError }: CanvasSceneProps) {
+export default function CanvasScene({
+  gltfError,
+  setGltfError,
+  cameraPose,
+  onCameraChange,
+  ik,
+  showWorkspace = false,
+  trails = [],
+  showGrf = false,
+  showCom = false,
+}: CanvasSceneProps) {
+  const params = useLegParams()
+  const rightParams = useRightLegParams()
+  const bilateral = useBilateral()
+  const gltfUrl = useGltfUrl()
+  const { setGltfUrl } = useStored().store
   const [modelStatus, setModelStatus] = useState<"loading" | "loaded" | "error">("loading")
+  const controlsRef = useRef<OrbitControlsImpl>(null)
+  const camera = cameraPose ?? DEFAULT_CAMERA
+  // Durante la marcha la GRF sigue la fase de cada pierna; en reposo, el peso se reparte
+  const { samples, recording } = useMotionRecording()
+  const walking = recording && samples.length > 0 ? samples[samples.length - 1] : null
+
+  // Reportar la pose al terminar cada interacción con la cámara
+  const reportCamera = () => {
+    const controls = controlsRef.current
+    if (!controls || !onCameraChange) return
+    onCameraChange({
+      position: controls.object.position.toArray() as [number, number, number],
+      target: controls.target.toArray() as [number, number, number],
+    })
+  }
+
+  const handleModelError = (error: string | null) => {
+    setGltfError(error)
+    if (error) {
+      setModelStatus("error")
+    }
+  }
+
+  const handleModelLoaded = () => {
+    console.log("[CanvasScene] ✅ Modelo cargado y visible")
+    setModelStatus("loaded")
+  }
 
   // Auto-detectar modelo GLB al montar
   useEffect(() => {
@@ -107,27 +183,33 @@ export default function CanvasScene({ params, gltfUrl, setGltfUrl, gltfError, se
     findModel()
   }, [])
 
+  // Liberar el canvas registrado para miniaturas al desmontar
+  useEffect(() => () => registerCaptureCanvas(null), [])
+
   return (
     <Canvas
       shadows
       dpr={[1, 2]}
-      gl={{ antialias: true, alpha: true }}
+      gl={{ antialias: true, alpha: true, preserveDrawingBuffer: true }}
       onCreated={(state) => {
         state.gl.setClearColor(0x0f172a, 1)
+        registerCaptureCanvas(state.gl.domElement)
       }}
     >
       {/* Cámara posicionada para ver la pierna completa */}
-      <PerspectiveCamera makeDefault position={[60, 40, 60]} fov={50} />
+      <PerspectiveCamera makeDefault position={camera.position} fov={50} />
 
       {/* OrbitControls apuntando al centro de la pierna (aprox Y=20) */}
 <OrbitControls
+  ref={controlsRef}
   makeDefault
+  onEnd={reportCamera}
   enablePan={true}
   enableZoom={true}
   enableRotate={true}
   minDistance={30}
   maxDistance={120}
-  target={[0, 20, 0]}
+  target={camera.target}
   maxPolarAngle={Math.PI * 0.9}
   minPolarAngle={Math.PI * 0.1}
 />
@@ -163,26 +245,119 @@ export default function CanvasScene({ params, gltfUrl, setGltfUrl, gltfError, se
       <Suspense fallback={<LoadingFallback />}>
         {modelStatus === "loading" && <LoadingFallback />}
 
-        {modelStatus === "loaded" && gltfUrl && (
+        {modelStatus === "loaded" && gltfUrl && !bilateral.enabled && (
           <GLTFModel
             url={gltfUrl}
             params={params}
-            onError={(error) => {
-              setGltfError(error)
-              if (error) {
-                setModelStatus("error")
-              }
-            }}
-            onLoaded={() => {
-              console.log("[CanvasScene] ✅ Modelo cargado y visible")
-              setModelStatus("loaded")
-            }}
+            onError={handleModelError}
+            onLoaded={handleModelLoaded}
+            bakeTarget
+            cycle={walking ? walking.left.cycle : null}
+            contact={walking?.left.contact}
           />
         )}
 
+        {/* Modo bilateral: cada pierna a media pelvis del centro (eje Z lateral).
+            La derecha es la izquierda reflejada, así ambas usan el mismo GLB. */}
+        {modelStatus === "loaded" && gltfUrl && bilateral.enabled && (
+          <>
+            <group position={[0, 0, -bilateral.pelvisWidth / 2]}>
+              <GLTFModel
+                url={gltfUrl}
+                params={params}
+                onError={handleModelError}
+                onLoaded={handleModelLoaded}
+                bakeTarget
+                cycle={walking ? walking.left.cycle : null}
+                contact={walking?.left.contact}
+                supportLegs={2}
+              />
+            </group>
+            <group position={[0, 0, bilateral.pelvisWidth / 2]} scale={[1, 1, -1]}>
+              <GLTFModel
+                url={gltfUrl}
+                params={rightParams}
+                onError={handleModelError}
+                cycle={walking?.right ? walking.right.cycle : null}
+                contact={walking?.right?.contact}
+                supportLegs={2}
+              />
+            </group>
+          </>
+        )}
+
         {modelStatus === "error" && <ErrorFallback />}
       </Suspense>
 
+      {/* Espacio de trabajo de cada pierna visible */}
+      {showWorkspace && !bilateral.enabled && <WorkspaceCloud params={params} />}
+      {showWorkspace && bilateral.enabled && (
+        <>
+          <WorkspaceCloud params={params} offset={[0, 0, -bilateral.pelvisWidth / 2]} />
+          <WorkspaceCloud params={rightParams} offset={[0, 0, bilateral.pelvisWidth / 2]} />
+        </>
+      )}
+
+      {/* Trayectorias grabadas durante la marcha */}
+      <MotionTrails points={trails} pelvisWidth={bilateral.pelvisWidth} />
+
+      {/* Fuerza de reacción del suelo */}
+      {showGrf && !bilateral.enabled && (
+        <GrfArrow
+          params={params}
+          cycle={walking ? walking.left.cycle : null}
+          contact={walking?.left.contact}
+        />
+      )}
+      {showGrf && bilateral.enabled && (
+        <>
+          <GrfArrow
+            params={params}
+            cycle={walking ? walking.left.cycle : null}
+            contact={walking?.left.contact}
+            supportLegs={2}
+            offset={[0, 0, -bilateral.pelvisWidth / 2]}
+          />
+          <GrfArrow
+            params={rightParams}
+            cycle={walking?.right ? walking.right.cycle : null}
+            contact={walking?.right?.contact}
+            supportLegs={2}
+            offset={[0, 0, bilateral.pelvisWidth / 2]}
+          />
+        </>
+      )}
+
+      {/* Centros de masa */}
+      {showCom && !bilateral.enabled && <ComMarkers params={params} />}
+      {showCom && bilateral.enabled && (
+        <>
+          <ComMarkers params={params} offset={[0, 0, -bilateral.pelvisWidth / 2]} />
+          <ComMarkers params={rightParams} offset={[0, 0, bilateral.pelvisWidth / 2]} />
+        </>
+      )}
+
+      {/* Cinemática inversa: la cámara se bloquea mientras se arrastra el asa */}
+      {ik && (
+        <IKTarget
+          params={ik.side === "right" && bilateral.enabled ? rightParams : params}
+          offset={
+            bilateral.enabled
+              ? [0, 0, ((ik.side === "right" ? 1 : -1) * bilateral.pelvisWidth) / 2]
+              : [0, 0, 0]
+          }
+          reachable={ik.reachable}
+          onDragStart={() => {
+            if (controlsRef.current) controlsRef.current.enabled = false
+          }}
+          onDrag={ik.onTarget}
+          onDragEnd={() => {
+            if (controlsRef.current) controlsRef.current.enabled = true
+            ik.onEnd()
+          }}
+        />
+      )}
+
       {/* Sombras de contacto en el suelo (Y=0) */}
       <ContactShadows position={[0, 0.01, 0]} opacity={0.5} scale={100} blur={2} far={40} color="#000000" />
 
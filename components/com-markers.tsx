@@ -0,0 +1,49 @@
+"use client"
+
+import type { LegParams } from "@/lib/types"
+import type { Vec3 } from "@/lib/kinematics"
+import { SEGMENT_IDS, type SegmentId } from "@/lib/anthropometry"
+import { centerOfMass } from "@/lib/centerOfMass"
+import { useMassModel, useSubject } from "@/context/StoredParamsContext"
+import { SKELETON_SCALE } from "@/components/ik-target"
+
+export const SEGMENT_COLORS: Record<SegmentId, string> = {
+  thigh: "#a78bfa",
+  shank: "#60a5fa",
+  foot: "#f472b6",
+}
+
+const LEG_COLOR = "#fbbf24"
+
+interface ComMarkersProps {
+  params: LegParams
+  offset?: Vec3
+}
+
+function Marker({ position, radius, color }: { position: Vec3; radius: number; color: string }) {
+  return (
+    <mesh position={position} renderOrder={10}>
+      <sphereGeometry args={[radius, 16, 16]} />
+      <meshBasicMaterial color={color} depthTest={false} transparent opacity={0.9} />
+    </mesh>
+  )
+}
+
+/**
+ * Centros de masa de cada segmento y de la pierna completa (dorado). Se
+ * dibujan por encima del modelo para que no queden ocultos dentro de él.
+ */
+export function ComMarkers({ params, offset = [0, 0, 0] }: ComMarkersProps) {
+  const subject = useSubject()
+  const model = useMassModel()
+  const com = centerOfMass(params, subject, model)
+
+  return (
+    <group position={offset} scale={SKELETON_SCALE}>
+      {SEGMENT_IDS.map((id) => (
+        <Marker key={id} position={com.segments[id].position} radius={1.5} color={SEGMENT_COLORS[id]} />
+      ))}
+      <Marker position={com.leg.position} radius={2.5} color={LEG_COLOR} />
+    </group>
+  )
+}
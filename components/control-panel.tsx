@@ -15,39 +15,107 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
+  Undo2,
+  Redo2,
+  Link2,
+  Check,
 } from "lucide-react";
 import type { LegParams } from "@/lib/types";
+import {
+  PARAM_GROUPS,
+  PARAM_META,
+  formatParam,
+  paramsInGroup,
+  type ParamKey,
+} from "@/lib/paramRegistry";
 import DataModal from "./data-modal";
-import { useStored } from "@/context/StoredParamsContext";
+import { DesignLibrary } from "./design-library";
+import { BilateralControls } from "./bilateral-controls";
+import { GroundContactControls } from "./ground-contact-controls";
+import { JointLimitsCard } from "./joint-limits";
+import { UnitSettings } from "./unit-settings";
+import { SubjectSettings } from "./subject-settings";
+import { MassSettings } from "./mass-settings";
+import { ActivitySettings } from "./activity-settings";
+import { PosePresets } from "./pose-presets";
+import { fromDisplay, toDisplay, type UnitPrefs } from "@/lib/units";
+import { checkLimits, paramRange, type JointRange } from "@/lib/joints";
+import type { SavedDesign } from "@/lib/designLibrary";
+import type { Pose } from "@/lib/posePresets";
+import {
+  useActiveLegParams,
+  useBilateral,
+  useActivity,
+  useGltfUrl,
+  useGroundContact,
+  useJointProfile,
+  useUnits,
+} from "@/context/StoredParamsContext";
+import { ACTIVITIES } from "@/lib/activities";
 import { defaultParams } from "@/lib/defaultParams";
 
 type ControlPanelProps = {
-  params: LegParams;
   onParamChange: (key: keyof LegParams, value: number) => void;
+  /** Fin de un arrastre de slider (cierra la entrada del historial) */
+  onParamCommit?: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   onReset: () => void;
   onAnimate: () => void;
   isAnimating: boolean;
-  gltfUrl: string;
-  setGltfUrl: (value: string) => void;
   onClearError: () => void;
   onOpenData?: () => void; // <-- opcional, para abrir modal en page.tsx
+  onLoadDesign: (design: SavedDesign) => void;
+  /** false si no se pudo copiar y el enlace quedó en la barra de direcciones */
+  onCopyLink: () => Promise<boolean>;
+  /** Lleva la pose del lado activo dentro del perfil articular */
+  onConstrain: () => void;
+  /** Aplica una pose al lado activo (animada o al instante) */
+  onApplyPose: (pose: Pose, animate?: boolean) => void;
 };
 
 export function ControlPanel({
-  params,
   onParamChange,
+  onParamCommit,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   onReset,
   onAnimate,
   isAnimating,
-  gltfUrl,
-  setGltfUrl,
   onClearError,
   onOpenData, // <-- extraído de props
+  onLoadDesign,
+  onCopyLink,
+  onConstrain,
+  onApplyPose,
 }: ControlPanelProps) {
+  // En modo bilateral los sliders editan el lado activo
+  const params = useActiveLegParams();
+  const bilateral = useBilateral();
+  const gltfUrl = useGltfUrl();
+  const profile = useJointProfile();
+  const units = useUnits();
+  const groundContact = useGroundContact();
+  const activity = useActivity();
+  const violations = checkLimits(params, profile, units);
+  const violatedKeys = new Set(violations.map((v) => v.param));
+
   const [modelStatus, setModelStatus] = useState<
     "loading" | "found" | "not-found" | "error"
   >("loading");
   const [foundModel, setFoundModel] = useState<string>("");
+  const [linkStatus, setLinkStatus] = useState<"idle" | "copied" | "error">(
+    "idle"
+  );
+
+  const handleCopyLink = async () => {
+    setLinkStatus((await onCopyLink()) ? "copied" : "error");
+    setTimeout(() => setLinkStatus("idle"), 3000);
+  };
 
 
   // Sincronizar con el estado del canvas
@@ -140,190 +208,76 @@ export function ControlPanel({
           </div>
         </Card>
 
-        {/* Articulaciones - Controles Principales */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2">
-            <h2 className="text-base font-semibold text-purple-400 border-b-2 border-purple-500 pb-1 flex-1">
-              🦴 Control de Articulaciones
-            </h2>
-            <Badge
-              variant="outline"
-              className="border-purple-500/50 text-purple-300 text-xs"
-            >
-              Principal
-            </Badge>
-          </div>
+        {/* Diseños guardados */}
+        <DesignLibrary
+          gltfUrl={gltfUrl}
+          onLoad={onLoadDesign}
+        />
 
-          <ControlSlider
-            label="Ángulo de Cadera"
-            value={params.hipAngle}
-            onChange={(v) => onParamChange("hipAngle", v)}
-            min={-30}
-            max={180}
-            step={1}
-            unit="°"
-            formula="Flexión de cadera"
-            color="blue"
-          />
-
-          <ControlSlider
-            label="Ángulo de Rodilla"
-            value={params.kneeAngle}
-            onChange={(v) => onParamChange("kneeAngle", v)}
-            min={0}
-            max={140}
-            step={1}
-            unit="°"
-            formula="Flexión de rodilla"
-            color="green"
-          />
-
-          <ControlSlider
-            label="Ángulo de Tobillo"
-            value={params.ankleAngle}
-            onChange={(v) => onParamChange("ankleAngle", v)}
-            min={-90}
-            max={45}
-            step={1}
-            unit="°"
-            formula="Dorsiflexión/plantarflexión"
-            color="purple"
-          />
-        </div>
+        <UnitSettings />
 
-        <Separator className="bg-purple-500/30" />
+        <SubjectSettings />
 
-        {/* Transformaciones */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2">
-            <h2 className="text-base font-semibold text-purple-400 border-b-2 border-purple-500 pb-1 flex-1">
-              🔄 Transformaciones
-            </h2>
-          </div>
+        <MassSettings />
 
-          <ControlSlider
-            label="Rotación del Pie"
-            value={params.footRotation}
-            onChange={(v) => onParamChange("footRotation", v)}
-            min={-45}
-            max={45}
-            step={1}
-            unit="°"
-            formula="Rotación en Y"
-          />
-
-          <ControlSlider
-            label="Ángulo de Pisada"
-            value={params.stepAngle}
-            onChange={(v) => onParamChange("stepAngle", v)}
-            min={-45}
-            max={45}
-            step={1}
-            unit="°"
-            formula="Rotación Z en tobillo"
-          />
-
-          <ControlSlider
-            label="Elevación Vertical"
-            value={params.verticalShift}
-            onChange={(v) => onParamChange("verticalShift", v)}
-            min={0}
-            max={20}
-            step={0.5}
-            unit="cm"
-            formula="Traslación en Y"
-          />
-        </div>
+        <BilateralControls />
 
-        <Separator className="bg-purple-500/30" />
+        <GroundContactControls />
 
-        {/* Dimensiones del Pie */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2">
-            <h2 className="text-base font-semibold text-purple-400 border-b-2 border-purple-500 pb-1 flex-1">
-              🦶 Dimensiones del Pie
-            </h2>
-            <Badge
-              variant="outline"
-              className="border-purple-500/50 text-purple-300 text-xs"
-            >
-              Morfología
-            </Badge>
-          </div>
+        <JointLimitsCard violations={violations} onConstrain={onConstrain} />
 
-          <ControlSlider
-            label="Longitud del Pie"
-            value={params.footLength}
-            onChange={(v) => onParamChange("footLength", v)}
-            min={20}
-            max={35}
-            step={0.5}
-            unit="cm"
-          />
-
-          <ControlSlider
-            label="Altura del Arco"
-            value={params.archHeight}
-            onChange={(v) => onParamChange("archHeight", v)}
-            min={2}
-            max={8}
-            step={0.2}
-            unit="cm"
-          />
-
-          <ControlSlider
-            label="Radio del Talón"
-            value={params.heelRadius}
-            onChange={(v) => onParamChange("heelRadius", v)}
-            min={3}
-            max={7}
-            step={0.2}
-            unit="cm"
-          />
-        </div>
+        <PosePresets onApply={onApplyPose} onCommit={onParamCommit} disabled={isAnimating} />
 
         <Separator className="bg-purple-500/30" />
 
-        {/* Dimensiones de la Pierna */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2">
-            <h2 className="text-base font-semibold text-purple-400 border-b-2 border-purple-500 pb-1 flex-1">
-              🦵 Dimensiones de Pierna
-            </h2>
-          </div>
+        {bilateral.enabled && bilateral.link === "independent" && (
+          <Badge
+            variant="outline"
+            className="w-full justify-center border-purple-500/50 text-purple-300"
+          >
+            Editando pierna{" "}
+            {bilateral.activeSide === "left" ? "izquierda" : "derecha"}
+          </Badge>
+        )}
+
+        {/* Parámetros agrupados según el registro central */}
+        {PARAM_GROUPS.map((group) => (
+          <div key={group.id} className="space-y-6">
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <h2 className="text-base font-semibold text-purple-400 border-b-2 border-purple-500 pb-1 flex-1">
+                  {group.title}
+                </h2>
+                {group.badge && (
+                  <Badge
+                    variant="outline"
+                    className="border-purple-500/50 text-purple-300 text-xs"
+                  >
+                    {group.badge}
+                  </Badge>
+                )}
+              </div>
 
-          <ControlSlider
-            label="Longitud de Tibia"
-            value={params.tibiaLength}
-            onChange={(v) => onParamChange("tibiaLength", v)}
-            min={30}
-            max={50}
-            step={1}
-            unit="cm"
-          />
-
-          <ControlSlider
-            label="Longitud de Fémur"
-            value={params.femurLength}
-            onChange={(v) => onParamChange("femurLength", v)}
-            min={35}
-            max={55}
-            step={1}
-            unit="cm"
-          />
-
-          <ControlSlider
-            label="Grosor General"
-            value={params.legThickness}
-            onChange={(v) => onParamChange("legThickness", v)}
-            min={4}
-            max={10}
-            step={0.5}
-            unit="cm"
-          />
-        </div>
+              {paramsInGroup(group.id).map((key) => (
+                <ControlSlider
+                  key={key}
+                  paramKey={key}
+                  value={params[key]}
+                  range={paramRange(profile, key)}
+                  violated={violatedKeys.has(key)}
+                  units={units}
+                  disabled={key === "verticalShift" && groundContact}
+                  onChange={(v) => onParamChange(key, v)}
+                  onCommit={onParamCommit}
+                />
+              ))}
+            </div>
 
-        <Separator className="bg-purple-500/30" />
+            <Separator className="bg-purple-500/30" />
+          </div>
+        ))}
+
+        <ActivitySettings disabled={isAnimating} />
 
         {/* Actions */}
         <div className="space-y-3">
@@ -333,9 +287,32 @@ export function ControlPanel({
             className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold"
           >
             <Play className="mr-2 h-4 w-4" />
-            {isAnimating ? "Animando..." : "Animar Ciclo de Marcha"}
+            {isAnimating ? "Animando..." : `Animar: ${ACTIVITIES[activity].label}`}
           </Button>
 
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              onClick={onUndo}
+              disabled={!canUndo}
+              variant="outline"
+              title="Deshacer (Ctrl+Z)"
+              className="bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+            >
+              <Undo2 className="mr-2 h-4 w-4" />
+              Deshacer
+            </Button>
+            <Button
+              onClick={onRedo}
+              disabled={!canRedo}
+              variant="outline"
+              title="Rehacer (Ctrl+Shift+Z)"
+              className="bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+            >
+              <Redo2 className="mr-2 h-4 w-4" />
+              Rehacer
+            </Button>
+          </div>
+
           <div className="grid grid-cols-2 gap-2">
             <Button
               onClick={onReset}
@@ -357,6 +334,23 @@ export function ControlPanel({
     </Button>
          
           </div>
+
+          <Button
+            onClick={handleCopyLink}
+            variant="outline"
+            className="w-full bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+          >
+            {linkStatus === "copied" ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            {linkStatus === "copied"
+              ? "¡Enlace copiado!"
+              : linkStatus === "error"
+                ? "Enlace en la barra de direcciones"
+                : "Copiar enlace del diseño"}
+          </Button>
         </div>
       </div>
     </div>
@@ -364,26 +358,30 @@ export function ControlPanel({
 }
 
 function ControlSlider({
-  label,
+  paramKey,
   value,
+  range,
+  violated,
+  units,
+  disabled,
   onChange,
-  min,
-  max,
-  step,
-  unit,
-  formula,
-  color = "purple",
+  onCommit,
 }: {
-  label: string;
+  paramKey: ParamKey;
   value: number;
+  /** Rango permitido por el perfil articular (o el del registro) */
+  range: JointRange;
+  violated?: boolean;
+  units: UnitPrefs;
+  /** Valor controlado automáticamente (p. ej. por el contacto con el suelo) */
+  disabled?: boolean;
   onChange: (value: number) => void;
-  min: number;
-  max: number;
-  step: number;
-  unit: string;
-  formula?: string;
-  color?: "purple" | "blue" | "green" | "amber";
+  onCommit?: () => void;
 }) {
+  const meta = PARAM_META[paramKey];
+  // El slider trabaja en unidades de presentación y devuelve valores canónicos
+  const display = (v: number) => toDisplay(meta.unit, v, units);
+  const color = meta.color ?? "purple";
   const colorClasses = {
     purple: "border-purple-500/50 text-purple-400",
     blue: "border-blue-500/50 text-blue-400",
@@ -394,28 +392,37 @@ function ControlSlider({
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
-        <Label className="text-sm font-semibold text-slate-300">{label}</Label>
+        <Label className="text-sm font-semibold text-slate-300">
+          {meta.label}
+        </Label>
         <span
-          className={`text-sm font-bold ${colorClasses[color].split(" ")[1]}`}
+          className={`text-sm font-bold ${violated ? "text-amber-400" : colorClasses[color].split(" ")[1]}`}
+          title={violated ? "Fuera de los límites articulares" : undefined}
         >
-          {value.toFixed(step < 1 ? 1 : 0)} {unit}
+          {violated && "⚠️ "}
+          {formatParam(paramKey, value, units)}
         </span>
       </div>
       <Slider
-        value={[value]}
-        onValueChange={(v) => onChange(v[0])}
-        min={min}
-        max={max}
-        step={step}
+        value={[display(value)]}
+        onValueChange={(v) => {
+          // Volver al paso canónico para no guardar restos de la conversión
+          const canonical = fromDisplay(meta.unit, v[0], units);
+          onChange(+(Math.round(canonical / meta.step) * meta.step).toFixed(6));
+        }}
+        onValueCommit={() => onCommit?.()}
+        min={display(range.min)}
+        max={display(range.max)}
+        step={display(meta.step)}
+        disabled={disabled}
         className="w-full"
       />
-      {formula && (
-        <p
-          className={`text-xs text-slate-500 font-mono bg-slate-950/30 p-2 rounded border-l-2 ${colorClasses[color]}`}
-        >
-          {formula}
-        </p>
-      )}
+      <p
+        className={`text-xs text-slate-500 font-mono bg-slate-950/30 p-2 rounded border-l-2 ${colorClasses[color]}`}
+      >
+        {meta.description}
+        {disabled && " · automático"}
+      </p>
     </div>
   );
 }
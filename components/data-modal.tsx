@@ -1,30 +1,23 @@
 import React, { useMemo, useState } from "react"
-
-type LegParams = {
-  footLength: number
-  archHeight: number
-  heelRadius: number
-  toeCount: number
-  tibiaLength: number
-  femurLength: number
-  legThickness: number
-  kneeAngle: number
-  ankleAngle: number
-  hipAngle: number
-  footRotation: number
-  stepAngle: number
-  verticalShift: number
-  springStiffness: number
-  dampingFactor: number
-}
+import type { LegParams } from "@/lib/types"
+import { PARAM_META, formatParam, paramsInGroup, type ParamKey } from "@/lib/paramRegistry"
+import { useGltfUrl, useJointProfile, useLegParams, useUnits } from "@/context/StoredParamsContext"
+import { forwardKinematics, type Vec3 } from "@/lib/kinematics"
+import { formatAngle, formatLength, lengthSymbol, toDisplayLength } from "@/lib/units"
+import DesignImportPanel, { type ImportSelection } from "@/components/design-import-panel"
+import { GaitCharts } from "@/components/gait-charts"
+import { FootSpringCharts } from "@/components/foot-spring-charts"
+import { GrfCharts } from "@/components/grf-charts"
+import { JointDynamicsCharts } from "@/components/joint-dynamics-charts"
+import { AnimationExport } from "@/components/animation-export"
 
 type Props = {
   open: boolean
   onClose: () => void
-  params: LegParams
-  gltfUrl?: string
   defaultParams: LegParams
   onExport?: () => void
+  /** Restaura parámetros (y modelo) importados desde un JSON */
+  onImport?: (params: LegParams, gltfUrl?: string) => void
 }
 
 function Row({ label, value }: { label: string; value: React.ReactNode }) {
@@ -36,8 +29,10 @@ function Row({ label, value }: { label: string; value: React.ReactNode }) {
   )
 }
 
-export default function DataModal({ open, onClose, params, gltfUrl = "", defaultParams, onExport }: Props) {
-  const [activeTab, setActiveTab] = useState<'data' | 'rubric' | 'graphs' | 'math' | 'export'>('data')
+export default function DataModal({ open, onClose, defaultParams, onExport, onImport }: Props) {
+  const params = useLegParams()
+  const gltfUrl = useGltfUrl()
+  const [activeTab, setActiveTab] = useState<'data' | 'rubric' | 'graphs' | 'math' | 'export' | 'import'>('data')
   const [exportFormat, setExportFormat] = useState<'pdf' | 'json' | 'txt'>('txt')
   const [includeGraphs, setIncludeGraphs] = useState(true)
   const [includeRubric, setIncludeRubric] = useState(true)
@@ -45,6 +40,20 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
   const [teamMembers, setTeamMembers] = useState("")
   const [reflection, setReflection] = useState("")
 
+  const handleImport = (selection: ImportSelection) => {
+    if (selection.params && onImport) onImport(selection.params, selection.gltfUrl)
+    if (selection.teamMembers !== undefined) setTeamMembers(selection.teamMembers)
+    if (selection.reflection !== undefined) setReflection(selection.reflection)
+  }
+
+  // Unidades de presentación: `params` y los cálculos siguen en cm y grados
+  const units = useUnits()
+  const lu = lengthSymbol(units)
+  const L = (cm: number, digits = 2) => +toDisplayLength(cm, units.length).toFixed(digits)
+  const fmtL = (cm: number, digits = 1) => formatLength(cm, units, digits)
+  const fmtA = (deg: number) => formatAngle(deg, units)
+  const fp = (key: ParamKey) => formatParam(key, params[key], units)
+
   // Valores derivados
   const archLength = useMemo(() => params.footLength - params.heelRadius - 10, [params.footLength, params.heelRadius])
   const h = useMemo(() => params.heelRadius + archLength / 2, [params.heelRadius, archLength])
@@ -52,34 +61,51 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
     const half = archLength / 2
     return half !== 0 ? +(params.archHeight / Math.pow(half, 2)).toFixed(6) : 0
   }, [params.archHeight, archLength])
+  // y = a(x - h)² en la unidad elegida: a escala con 1/longitud
+  const aDisplay = +(a / toDisplayLength(1, units.length)).toFixed(6)
+
+  // Posiciones reales de las articulaciones (cinemática directa)
+  const profile = useJointProfile()
+  const kinematics = useMemo(
+    () => forwardKinematics(params, { minKneeFlexion: profile.limits.knee.min }),
+    [params, profile]
+  )
+  const point = (p: Vec3) => `(${p.map((c) => L(c, 1)).join(", ")}) ${lu}`
+  const jointRows: Array<[string, Vec3]> = [
+    ["Cadera", kinematics.joints.hip],
+    ["Rodilla", kinematics.joints.knee],
+    ["Tobillo", kinematics.joints.ankle],
+    ["Talón", kinematics.joints.heel],
+    ["Punta", kinematics.joints.toe],
+  ]
 
   // Funciones matemáticas del diseño
   const functions = useMemo(() => [
     {
       name: "Función del Arco (Parabólica)",
       type: "Cuadrática",
-      equation: `y = ${a}(x - ${h.toFixed(2)})²`,
+      equation: `y = ${aDisplay}(x - ${L(h)})²`,
       description: "Define la curvatura del arco del pie",
-      domain: `[${params.heelRadius}, ${params.footLength - 10}]`,
+      domain: `[${L(params.heelRadius)}, ${L(params.footLength - 10)}] ${lu}`,
       purpose: "Simular la forma natural del arco plantar"
     },
     {
       name: "Función del Talón (Circular)",
       type: "Trigonométrica",
-      equation: `x² + y² = ${params.heelRadius}²`,
+      equation: `x² + y² = ${L(params.heelRadius)}²`,
       description: "Define la forma circular del talón",
-      domain: `[0, ${params.heelRadius}]`,
+      domain: `[0, ${L(params.heelRadius)}] ${lu}`,
       purpose: "Crear la base redondeada del pie"
     },
     {
       name: "Trayectoria de Pisada",
       type: "Lineal/Angular",
-      equation: `θ = ${params.stepAngle}°, r = ${params.tibiaLength + params.femurLength}`,
+      equation: `θ = ${fmtA(params.stepAngle)}, r = ${fmtL(params.tibiaLength + params.femurLength)}`,
       description: "Define el movimiento angular de la pisada",
-      domain: `θ ∈ [0°, ${params.stepAngle}°]`,
+      domain: `θ ∈ [${fmtA(0)}, ${fmtA(params.stepAngle)}]`,
       purpose: "Simular el ciclo de marcha"
     }
-  ], [a, h, params])
+  ], [a, h, params, units])
 
   // Coordenadas polares
   const polarCoords = useMemo(() => {
@@ -90,47 +116,47 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
       center: footCenter,
       radius: footRadius.toFixed(3),
       angle: params.footRotation,
-      equation: `r = ${footRadius.toFixed(3)}, θ = ${params.footRotation}°`,
+      equation: `r = ${fmtL(footRadius, 3)}, θ = ${fmtA(params.footRotation)}`,
       cartesianTopolar: `r = √(x² + y²), θ = arctan(y/x)`,
       polarToCartesian: `x = r·cos(θ), y = r·sin(θ)`
     }
-  }, [h, params.footLength, params.archHeight, params.footRotation])
+  }, [h, params.footLength, params.archHeight, params.footRotation, units])
 
   // Transformaciones geométricas
   const transformations = useMemo(() => [
     {
       type: "Traslación",
       description: "Movimiento vertical del pie",
-      formula: `T(x, y) = (x, y + ${params.verticalShift})`,
+      formula: `T(x, y) = (x, y + ${L(params.verticalShift)})`,
       applied: params.verticalShift !== 0,
-      value: `${params.verticalShift} cm`
+      value: fp("verticalShift")
     },
     {
       type: "Rotación (Pie)",
       description: "Rotación del pie sobre su eje",
-      formula: `R(θ) donde θ = ${params.footRotation}°`,
+      formula: `R(θ) donde θ = ${fmtA(params.footRotation)}`,
       applied: params.footRotation !== 0,
-      value: `${params.footRotation}°`
+      value: fp("footRotation")
     },
     {
       type: "Rotación (Tobillo)",
       description: "Ángulo de flexión del tobillo",
-      formula: `R(θ) donde θ = ${params.ankleAngle}°`,
+      formula: `R(θ) donde θ = ${fmtA(params.ankleAngle)}`,
       applied: params.ankleAngle !== 0,
-      value: `${params.ankleAngle}°`
+      value: fp("ankleAngle")
     },
     {
       type: "Rotación (Rodilla)",
       description: "Ángulo de flexión de la rodilla",
-      formula: `R(θ) donde θ = ${params.kneeAngle}°`,
+      formula: `R(θ) donde θ = ${fmtA(params.kneeAngle)}`,
       applied: params.kneeAngle !== 0,
-      value: `${params.kneeAngle}°`
+      value: fp("kneeAngle")
     }
-  ], [params])
+  ], [params, units])
 
   // Comparación con valores por defecto
   const differences = useMemo(() => {
-    const diffs: Array<{param: string, current: number, default: number, change: number}> = []
+    const diffs: Array<{param: ParamKey, current: number, default: number, change: number}> = []
     Object.keys(params).forEach(key => {
       const k = key as keyof LegParams
       if (typeof params[k] === 'number' && typeof defaultParams[k] === 'number') {
@@ -138,7 +164,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         const def = defaultParams[k] as number
         if (Math.abs(curr - def) > 0.001) {
           diffs.push({
-            param: key,
+            param: k,
             current: curr,
             default: def,
             change: ((curr - def) / def * 100)
@@ -171,7 +197,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         mark: hasTranslation ? "Sí" : "Parcialmente",
         points: hasTranslation ? 3 : 2,
         obs: hasTranslation 
-          ? `✓ Traslación vertical aplicada: ${params.verticalShift} cm`
+          ? `✓ Traslación vertical aplicada: ${fp("verticalShift")}`
           : "Documentar el proceso de traslación en el informe"
       },
       fase1_3: {
@@ -179,7 +205,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         mark: hasRotation ? "Sí" : "Parcialmente",
         points: hasRotation ? 3 : 2,
         obs: hasRotation 
-          ? `✓ Rotaciones aplicadas: pie=${params.footRotation}°, tobillo=${params.ankleAngle}°, rodilla=${params.kneeAngle}°`
+          ? `✓ Rotaciones aplicadas: pie=${fp("footRotation")}, tobillo=${fp("ankleAngle")}, rodilla=${fp("kneeAngle")}`
           : "Documentar el proceso de rotación en el informe"
       },
       fase1_4: {
@@ -187,7 +213,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         mark: hasPolar ? "Sí" : "Parcialmente",
         points: hasPolar ? 3 : 2,
         obs: hasPolar 
-          ? `✓ Coordenadas polares: r=${polarCoords.radius} cm, θ=${polarCoords.angle}°`
+          ? `✓ Coordenadas polares: r=${fmtL(+polarCoords.radius, 3)}, θ=${fmtA(polarCoords.angle)}`
           : "Incluir conversión a coordenadas polares en el informe"
       },
       fase1_5: {
@@ -195,7 +221,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         mark: hasCalculations ? "Sí" : "Parcialmente",
         points: hasCalculations ? 3 : 2,
         obs: hasCalculations 
-          ? `✓ Cálculos realizados: a=${a}, h=${h.toFixed(3)} cm, L=${archLength.toFixed(3)} cm`
+          ? `✓ Cálculos realizados: a=${aDisplay}, h=${fmtL(h, 3)}, L=${fmtL(archLength, 3)}`
           : "Generar gráficos con software como GeoGebra o Desmos"
       },
       fase2_6: {
@@ -263,7 +289,7 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
         obs: `Fecha límite: 12 diciembre 2025. Hoy: ${new Date().toLocaleDateString('es-ES')}`
       }
     }
-  }, [params, functions, transformations, polarCoords, a, h, archLength, gltfUrl])
+  }, [params, functions, transformations, polarCoords, a, h, archLength, gltfUrl, units])
 
   // Calcular puntuación total
   const totalScore = useMemo(() => {
@@ -285,11 +311,14 @@ export default function DataModal({ open, onClose, params, gltfUrl = "", default
           exported: new Date().toISOString(),
           project: "Pierna Mecánica - Proyecto Matemáticas",
           deadline: "12 diciembre 2025",
-          version: "2.0"
+          version: "2.0",
+          // Los valores numéricos van siempre en unidades canónicas para poder reimportarlos
+          units: { length: "cm", angle: "deg", display: units }
         },
         teamMembers: teamMembers.split(',').map(m => m.trim()).filter(Boolean),
         parameters: params,
         derived: { archLength, h, a },
+        kinematics,
         functions,
         polarCoordinates: polarCoords,
         transformations,
@@ -346,43 +375,50 @@ ${idx + 1}. ${fn.name} (${fn.type})
 2. PARÁMETROS DIMENSIONALES
 ────────────────────────────────────────────────────────────
 Dimensiones del pie:
-  • Longitud total del pie: ${params.footLength} cm
-  • Altura del arco plantar: ${params.archHeight} cm
-  • Radio del talón: ${params.heelRadius} cm
+  • Longitud total del pie: ${fp("footLength")}
+  • Altura del arco plantar: ${fp("archHeight")}
+  • Radio del talón: ${fp("heelRadius")}
   • Número de dedos: ${params.toeCount}
 
 Dimensiones de la pierna:
-  • Longitud de la tibia: ${params.tibiaLength} cm
-  • Longitud del fémur: ${params.femurLength} cm
-  • Grosor de la pierna: ${params.legThickness} cm
-  • Longitud total: ${(params.tibiaLength + params.femurLength + params.footLength).toFixed(2)} cm
+  • Longitud de la tibia: ${fp("tibiaLength")}
+  • Longitud del fémur: ${fp("femurLength")}
+  • Grosor de la pierna: ${fp("legThickness")}
+  • Longitud total: ${fmtL(params.tibiaLength + params.femurLength + params.footLength, 2)}
 
 Ángulos articulares:
-  • Ángulo de rodilla: ${params.kneeAngle}°
-  • Ángulo de tobillo: ${params.ankleAngle}°
-  • Ángulo de cadera: ${params.hipAngle}°
+  • Ángulo de rodilla: ${fp("kneeAngle")}
+  • Ángulo de tobillo: ${fp("ankleAngle")}
+  • Ángulo de cadera: ${fp("hipAngle")}
+
+Cinemática directa (x adelante, y arriba, z lateral):
+${jointRows.map(([name, p]) => `  • ${name}: ${point(p)}`).join('\n')}
+  • Alcance máximo cadera–tobillo: ${fmtL(kinematics.reach)}
+  • Distancia cadera–tobillo actual: ${fmtL(kinematics.hipAnkleDistance)}
+  • Altura de paso: ${fmtL(kinematics.stepHeight)}
+  • Holgura pie–suelo: ${fmtL(kinematics.clearance)}
 
 3. CÁLCULOS MATEMÁTICOS DERIVADOS
 ────────────────────────────────────────────────────────────
-Longitud del arco parabólico: ${archLength.toFixed(3)} cm
-Parámetro h (centro de la parábola): ${h.toFixed(3)} cm
-Constante parabólica a: ${a}
+Longitud del arco parabólico: ${fmtL(archLength, 3)}
+Parámetro h (centro de la parábola): ${fmtL(h, 3)}
+Constante parabólica a: ${aDisplay} (1/${lu})
 
 Ecuación principal del arco del pie:
-  y = ${a}(x - ${h.toFixed(2)})²
+  y = ${aDisplay}(x - ${L(h)})²
 
 Esta ecuación cuadrática modela la curvatura natural del arco 
 plantar, donde:
-  - El vértice está en x = ${h.toFixed(2)} cm
-  - La altura máxima es ${params.archHeight} cm
+  - El vértice está en x = ${fmtL(h, 2)}
+  - La altura máxima es ${fp("archHeight")}
   - La constante 'a' controla la apertura de la parábola
 
 4. COORDENADAS POLARES
 ────────────────────────────────────────────────────────────
 Sistema de coordenadas polares para el pie:
-  Centro: (${polarCoords.center.x.toFixed(2)}, ${polarCoords.center.y.toFixed(2)})
-  Radio: r = ${polarCoords.radius} cm
-  Ángulo: θ = ${polarCoords.angle}°
+  Centro: (${L(polarCoords.center.x)}, ${L(polarCoords.center.y)}) ${lu}
+  Radio: r = ${fmtL(+polarCoords.radius, 3)}
+  Ángulo: θ = ${fmtA(polarCoords.angle)}
 
 Fórmulas de conversión:
   Cartesiano → Polar: ${polarCoords.cartesianTopolar}
@@ -411,7 +447,7 @@ ${idx + 1}. ${t.type}
 ────────────────────────────────────────────────────────────
 `
         differences.forEach(d => {
-          content += `${d.param}: ${d.default.toFixed(2)} → ${d.current.toFixed(2)} (${d.change > 0 ? '+' : ''}${d.change.toFixed(1)}%)\n`
+          content += `${PARAM_META[d.param].label}: ${formatParam(d.param, d.default, units)} → ${formatParam(d.param, d.current, units)} (${d.change > 0 ? '+' : ''}${d.change.toFixed(1)}%)\n`
         })
       }
 
@@ -664,37 +700,48 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
     <div>
       <strong>Dimensiones del pie:</strong>
       <ul>
-        <li>Longitud total: ${params.footLength} cm</li>
-        <li>Altura del arco: ${params.archHeight} cm</li>
-        <li>Radio del talón: ${params.heelRadius} cm</li>
+        <li>Longitud total: ${fp("footLength")}</li>
+        <li>Altura del arco: ${fp("archHeight")}</li>
+        <li>Radio del talón: ${fp("heelRadius")}</li>
         <li>Número de dedos: ${params.toeCount}</li>
       </ul>
     </div>
     <div>
       <strong>Dimensiones de la pierna:</strong>
       <ul>
-        <li>Tibia: ${params.tibiaLength} cm</li>
-        <li>Fémur: ${params.femurLength} cm</li>
-        <li>Grosor: ${params.legThickness} cm</li>
-        <li>Total: ${(params.tibiaLength + params.femurLength + params.footLength).toFixed(2)} cm</li>
+        <li>Tibia: ${fp("tibiaLength")}</li>
+        <li>Fémur: ${fp("femurLength")}</li>
+        <li>Grosor: ${fp("legThickness")}</li>
+        <li>Total: ${fmtL(params.tibiaLength + params.femurLength + params.footLength, 2)}</li>
       </ul>
     </div>
   </div>
 
+  <h3>Cinemática Directa</h3>
+  <table>
+    <tr><th>Punto</th><th>Posición (x, y, z)</th></tr>
+    ${jointRows.map(([name, p]) => `<tr><td>${name}</td><td>${point(p)}</td></tr>`).join('')}
+  </table>
+  <ul>
+    <li>Alcance máximo cadera–tobillo: ${fmtL(kinematics.reach)}</li>
+    <li>Altura de paso: ${fmtL(kinematics.stepHeight)}</li>
+    <li>Holgura pie–suelo: ${fmtL(kinematics.clearance)}</li>
+  </ul>
+
   <h3>3. Cálculos Matemáticos Derivados</h3>
   <div class="info-box">
     <strong>Ecuación principal del arco:</strong>
-    <div class="equation">y = ${a}(x - ${h.toFixed(2)})²</div>
+    <div class="equation">y = ${aDisplay}(x - ${L(h)})²</div>
     <ul>
-      <li>Longitud del arco: ${archLength.toFixed(3)} cm</li>
-      <li>Parámetro h (centro): ${h.toFixed(3)} cm</li>
-      <li>Constante parabólica a: ${a}</li>
+      <li>Longitud del arco: ${fmtL(archLength, 3)}</li>
+      <li>Parámetro h (centro): ${fmtL(h, 3)}</li>
+      <li>Constante parabólica a: ${aDisplay} (1/${lu})</li>
     </ul>
   </div>
 
   <h3>4. Coordenadas Polares</h3>
   <div class="info-box">
-    <strong>Sistema polar:</strong> r = ${polarCoords.radius} cm, θ = ${polarCoords.angle}°<br><br>
+    <strong>Sistema polar:</strong> r = ${fmtL(+polarCoords.radius, 3)}, θ = ${fmtA(polarCoords.angle)}<br><br>
     <strong>Conversiones:</strong><br>
     Cartesiano → Polar: ${polarCoords.cartesianTopolar}<br>
     Polar → Cartesiano: ${polarCoords.polarToCartesian}
@@ -845,10 +892,11 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
           <div className="flex gap-2 mt-4 flex-wrap">
             {[
               { id: 'data', label: '📊 Datos', icon: '📊' },
-             /*  { id: 'math', label: '📐 Matemáticas', icon: '📐' },
               { id: 'graphs', label: '📈 Gráficos', icon: '📈' },
-              { id: 'rubric', label: '📋 Rúbrica', icon: '📋' },
-              { id: 'export', label: '💾 Exportar', icon: '💾' } */
+             /*  { id: 'math', label: '📐 Matemáticas', icon: '📐' },
+              { id: 'rubric', label: '📋 Rúbrica', icon: '📋' }, */
+              { id: 'export', label: '💾 Exportar', icon: '💾' },
+              { id: 'import', label: '📥 Importar', icon: '📥' },
             ].map(tab => (
               <button
                 key={tab.id}
@@ -885,7 +933,7 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                   </div>
                   <div className="bg-slate-900/50 p-3 rounded-lg">
                     <div className="text-xs text-slate-400">Longitud Total</div>
-                    <div className="text-2xl font-bold text-white">{(params.femurLength + params.tibiaLength + params.footLength).toFixed(0)}<span className="text-sm text-slate-400">cm</span></div>
+                    <div className="text-2xl font-bold text-white">{L(params.femurLength + params.tibiaLength + params.footLength, units.length === "in" ? 1 : 0)}<span className="text-sm text-slate-400">{lu}</span></div>
                   </div>
                   <div className="bg-slate-900/50 p-3 rounded-lg">
                     <div className="text-xs text-slate-400">Constante (a)</div>
@@ -908,13 +956,9 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                   </h4>
                   <div className="space-y-1">
                     {gltfUrl && <Row label="🎨 Modelo 3D" value="Disponible" />}
-                    <Row label="📏 Longitud pie" value={`${params.footLength} cm`} />
-                    <Row label="🌉 Altura arco" value={`${params.archHeight} cm`} />
-                    <Row label="⚪ Radio talón" value={`${params.heelRadius} cm`} />
-                    <Row label="👣 Dedos" value={params.toeCount} />
-                    <Row label="🦴 Tibia" value={`${params.tibiaLength} cm`} />
-                    <Row label="🦴 Fémur" value={`${params.femurLength} cm`} />
-                    <Row label="📐 Grosor" value={`${params.legThickness} cm`} />
+                    {[...paramsInGroup('foot'), ...paramsInGroup('leg')].map(key => (
+                      <Row key={key} label={PARAM_META[key].shortLabel} value={fp(key)} />
+                    ))}
                   </div>
                 </div>
 
@@ -924,12 +968,9 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                     <span>📐</span> Ángulos y Rotaciones
                   </h4>
                   <div className="space-y-1">
-                    <Row label="🔄 Rodilla" value={`${params.kneeAngle}°`} />
-                    <Row label="🔄 Tobillo" value={`${params.ankleAngle}°`} />
-                    <Row label="🔄 Cadera" value={`${params.hipAngle}°`} />
-                    <Row label="🔄 Rotación pie" value={`${params.footRotation}°`} />
-                    <Row label="👟 Ángulo de paso" value={`${params.stepAngle}°`} />
-                    <Row label="⬆️ Shift vertical" value={`${params.verticalShift} cm`} />
+                    {[...paramsInGroup('joints'), ...paramsInGroup('transforms')].map(key => (
+                      <Row key={key} label={PARAM_META[key].shortLabel} value={fp(key)} />
+                    ))}
                   </div>
                 </div>
 
@@ -939,13 +980,13 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                     <span>🔬</span> Cálculos Matemáticos
                   </h4>
                   <div className="space-y-1">
-                    <Row label="📊 Longitud arco" value={`${archLength.toFixed(3)} cm`} />
-                    <Row label="📍 Parámetro h" value={`${h.toFixed(3)} cm`} />
+                    <Row label="📊 Longitud arco" value={fmtL(archLength, 3)} />
+                    <Row label="📍 Parámetro h" value={fmtL(h, 3)} />
                     <Row label="📈 Constante a" value={a.toFixed(6)} />
                     <div className="mt-4 p-3 bg-purple-900/20 rounded-lg border border-purple-500/30">
                       <div className="text-xs text-purple-300 mb-1">Ecuación del arco:</div>
                       <div className="font-mono text-sm text-white">
-                        y = {a}(x - {h.toFixed(2)})²
+                        y = {aDisplay}(x - {L(h)})²
                       </div>
                     </div>
                   </div>
@@ -957,12 +998,33 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                     <span>🔧</span> Sistema de Amortiguación
                   </h4>
                   <div className="space-y-1">
-                    <Row label="💪 Rigidez (k)" value={params.springStiffness} />
-                    <Row label="🌊 Damping (c)" value={params.dampingFactor} />
+                    {paramsInGroup('dynamics').map(key => (
+                      <Row key={key} label={PARAM_META[key].shortLabel} value={fp(key)} />
+                    ))}
                     <Row label="📅 Fecha" value={new Date().toLocaleDateString('es-ES')} />
                     <Row label="🕐 Hora" value={new Date().toLocaleTimeString('es-ES')} />
                   </div>
                 </div>
+
+                {/* Cinemática directa */}
+                <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50 lg:col-span-2">
+                  <h4 className="text-lg font-bold text-purple-300 mb-4 flex items-center gap-2">
+                    <span>🦿</span> Cinemática Directa
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 space-y-1 md:space-y-0">
+                    <div className="space-y-1">
+                      {jointRows.map(([name, p]) => (
+                        <Row key={name} label={name} value={point(p)} />
+                      ))}
+                    </div>
+                    <div className="space-y-1">
+                      <Row label="📏 Alcance máx." value={fmtL(kinematics.reach)} />
+                      <Row label="↔️ Cadera–tobillo" value={fmtL(kinematics.hipAnkleDistance)} />
+                      <Row label="⬆️ Altura de paso" value={fmtL(kinematics.stepHeight)} />
+                      <Row label="🦶 Holgura al suelo" value={fmtL(kinematics.clearance)} />
+                    </div>
+                  </div>
+                </div>
               </div>
 
               {/* Cambios respecto a valores por defecto */}
@@ -974,10 +1036,10 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                     {differences.map((d, idx) => (
                       <div key={idx} className="bg-slate-900/50 p-3 rounded-lg">
-                        <div className="text-sm text-slate-400 mb-1">{d.param}</div>
+                        <div className="text-sm text-slate-400 mb-1">{PARAM_META[d.param].label}</div>
                         <div className="flex items-center justify-between">
-                          <span className="text-slate-500 line-through">{d.default.toFixed(2)}</span>
-                          <span className="text-white font-bold">{d.current.toFixed(2)}</span>
+                          <span className="text-slate-500 line-through">{formatParam(d.param, d.default, units)}</span>
+                          <span className="text-white font-bold">{formatParam(d.param, d.current, units)}</span>
                           <span className={`text-xs px-2 py-1 rounded ${
                             d.change > 0 ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
                           }`}>
@@ -1028,8 +1090,8 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                   <div className="bg-slate-900/50 p-4 rounded-lg">
                     <h5 className="text-white font-semibold mb-3">Sistema Polar del Pie</h5>
                     <div className="space-y-2 text-sm text-slate-300">
-                      <div><strong>Radio (r):</strong> {polarCoords.radius} cm</div>
-                      <div><strong>Ángulo (θ):</strong> {polarCoords.angle}°</div>
+                      <div><strong>Radio (r):</strong> {fmtL(+polarCoords.radius, 3)}</div>
+                      <div><strong>Ángulo (θ):</strong> {fmtA(polarCoords.angle)}</div>
                       <div className="bg-purple-900/20 p-2 rounded mt-2">
                         <div className="font-mono text-purple-200">{polarCoords.equation}</div>
                       </div>
@@ -1079,7 +1141,43 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
           {activeTab === 'graphs' && (
             <div className="space-y-6">
               <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-4 rounded-xl border border-blue-500/20">
-                <h4 className="text-lg font-bold text-blue-300 mb-2">📈 Guía para Generar Gráficos</h4>
+                <h4 className="text-lg font-bold text-blue-300 mb-2">📈 Ciclo de Marcha</h4>
+                <p className="text-sm text-slate-300">
+                  Ángulos de cadera, rodilla y tobillo, ángulo de paso y elevación vertical registrados durante la última animación, frente al porcentaje del ciclo
+                </p>
+              </div>
+
+              <GaitCharts />
+
+              <div className="bg-gradient-to-r from-amber-500/10 to-purple-500/10 p-4 rounded-xl border border-amber-500/20">
+                <h4 className="text-lg font-bold text-amber-300 mb-2">🌊 Amortiguación del Talón y el Arco</h4>
+                <p className="text-sm text-slate-300">
+                  Modelo masa–resorte–amortiguador bajo la carga del apoyo: la rigidez (k) y el amortiguamiento (c) del panel cambian la compresión y la fuerza
+                </p>
+              </div>
+
+              <FootSpringCharts />
+
+              <div className="bg-gradient-to-r from-cyan-500/10 to-purple-500/10 p-4 rounded-xl border border-cyan-500/20">
+                <h4 className="text-lg font-bold text-cyan-300 mb-2">⬆️ Fuerza de Reacción del Suelo</h4>
+                <p className="text-sm text-slate-300">
+                  Estimación a partir de la masa corporal, la cadencia y los tramos de apoyo de la actividad grabada o elegida: doble joroba al caminar, un solo pico al correr o el peso repartido con los pies plantados, y frenado/propulsión anteroposterior
+                </p>
+              </div>
+
+              <GrfCharts />
+
+              <div className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 p-4 rounded-xl border border-purple-500/20">
+                <h4 className="text-lg font-bold text-purple-300 mb-2">🦾 Dinámica Inversa: Momentos y Potencias</h4>
+                <p className="text-sm text-slate-300">
+                  Newton–Euler del pie a la cadera con las masas e inercias de los segmentos (antropométricas, por material o personalizadas), la marcha grabada y la fuerza de reacción del suelo. Los picos sirven para dimensionar los actuadores
+                </p>
+              </div>
+
+              <JointDynamicsCharts />
+
+              <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-4 rounded-xl border border-blue-500/20">
+                <h4 className="text-lg font-bold text-blue-300 mb-2">📐 Guía para Graficar la Geometría</h4>
                 <p className="text-sm text-slate-300">
                   Usa las ecuaciones y datos a continuación para crear gráficos profesionales con GeoGebra o Desmos
                 </p>
@@ -1090,13 +1188,13 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                 <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50">
                   <h5 className="text-lg font-bold text-purple-300 mb-3">1️⃣ Gráfico del Arco Parabólico</h5>
                   <div className="bg-yellow-500/10 p-3 rounded border border-yellow-500/30 mb-3">
-                    <div className="font-mono text-yellow-200">y = {a}(x - {h.toFixed(2)})²</div>
+                    <div className="font-mono text-yellow-200">y = {aDisplay}(x - {L(h)})²</div>
                   </div>
                   <div className="space-y-2 text-sm text-slate-300">
                     <div><strong>Para GeoGebra/Desmos:</strong></div>
                     <div className="bg-slate-900/50 p-2 rounded font-mono text-xs">
-                      f(x) = {a}*(x - {h.toFixed(2)})^2<br/>
-                      Dominio: {params.heelRadius} ≤ x ≤ {params.footLength - 10}
+                      f(x) = {aDisplay}*(x - {L(h)})^2<br/>
+                      Dominio: {L(params.heelRadius)} ≤ x ≤ {L(params.footLength - 10)}
                     </div>
                     <div className="mt-3 text-xs text-slate-400">
                       💡 Ajusta la ventana de visualización para ver toda la curva
@@ -1108,13 +1206,13 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                 <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50">
                   <h5 className="text-lg font-bold text-purple-300 mb-3">2️⃣ Gráfico del Talón (Circular)</h5>
                   <div className="bg-yellow-500/10 p-3 rounded border border-yellow-500/30 mb-3">
-                    <div className="font-mono text-yellow-200">x² + y² = {params.heelRadius}²</div>
+                    <div className="font-mono text-yellow-200">x² + y² = {L(params.heelRadius)}²</div>
                   </div>
                   <div className="space-y-2 text-sm text-slate-300">
                     <div><strong>Para GeoGebra/Desmos:</strong></div>
                     <div className="bg-slate-900/50 p-2 rounded font-mono text-xs">
-                      x^2 + y^2 = {Math.pow(params.heelRadius, 2).toFixed(2)}<br/>
-                      O usar: sqrt({params.heelRadius}^2 - x^2)
+                      x^2 + y^2 = {Math.pow(L(params.heelRadius), 2).toFixed(2)}<br/>
+                      O usar: sqrt({L(params.heelRadius)}^2 - x^2)
                     </div>
                   </div>
                 </div>
@@ -1123,12 +1221,12 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                 <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50">
                   <h5 className="text-lg font-bold text-purple-300 mb-3">3️⃣ Representación en Polares</h5>
                   <div className="bg-yellow-500/10 p-3 rounded border border-yellow-500/30 mb-3">
-                    <div className="font-mono text-yellow-200">r = {polarCoords.radius}, θ = {polarCoords.angle}°</div>
+                    <div className="font-mono text-yellow-200">r = {L(+polarCoords.radius, 3)}, θ = {fmtA(polarCoords.angle)}</div>
                   </div>
                   <div className="space-y-2 text-sm text-slate-300">
                     <div><strong>Para GeoGebra/Desmos:</strong></div>
                     <div className="bg-slate-900/50 p-2 rounded font-mono text-xs">
-                      r = {polarCoords.radius}<br/>
+                      r = {L(+polarCoords.radius, 3)}<br/>
                       θ = {polarCoords.angle * Math.PI / 180} (en radianes)
                     </div>
                   </div>
@@ -1344,6 +1442,17 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
             </div>
           )}
 
+          {/* Tab: Importar */}
+          {activeTab === 'import' && (
+            <DesignImportPanel
+              params={params}
+              defaultParams={defaultParams}
+              teamMembers={teamMembers}
+              reflection={reflection}
+              onApply={handleImport}
+            />
+          )}
+
           {/* Tab: Exportar */}
           {activeTab === 'export' && (
             <div className="space-y-6">
@@ -1512,6 +1621,8 @@ Versión 2.0 - ${new Date().toLocaleDateString('es-ES')}
                 </button>
               </div>
 
+              <AnimationExport />
+
               {/* Información adicional */}
               <div className="bg-blue-500/10 p-4 rounded-xl border border-blue-500/30">
                 <div className="flex items-start gap-3">
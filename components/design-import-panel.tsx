@@ -0,0 +1,217 @@
+import React, { useMemo, useRef, useState } from "react"
+import type { LegParams } from "@/lib/types"
+import { PARAM_META, formatParam } from "@/lib/paramRegistry"
+import { constrainToProfile } from "@/lib/joints"
+import { useJointProfile, useUnits } from "@/context/StoredParamsContext"
+import {
+  IMPORT_FORMAT_LABELS,
+  diffParams,
+  parseDesignImport,
+  type ImportedDesign,
+} from "@/lib/designImport"
+
+export type ImportSelection = {
+  params?: LegParams
+  gltfUrl?: string
+  teamMembers?: string
+  reflection?: string
+}
+
+type Props = {
+  params: LegParams
+  defaultParams: LegParams
+  teamMembers: string
+  reflection: string
+  onApply: (selection: ImportSelection) => void
+}
+
+export default function DesignImportPanel({ params, defaultParams, teamMembers, reflection, onApply }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState("")
+  const [imported, setImported] = useState<ImportedDesign | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [applied, setApplied] = useState(false)
+  const [restoreParams, setRestoreParams] = useState(true)
+  const [restoreTeam, setRestoreTeam] = useState(true)
+  const [restoreReflection, setRestoreReflection] = useState(true)
+
+  const profile = useJointProfile()
+  const units = useUnits()
+  // El diseño importado se aplica dentro del perfil articular activo
+  const constrained = useMemo(
+    () => (imported ? constrainToProfile(imported.params, profile) : null),
+    [imported, profile]
+  )
+  const diffs = useMemo(() => (constrained ? diffParams(params, constrained.params) : []), [params, constrained])
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name)
+    setApplied(false)
+    try {
+      const design = parseDesignImport(await file.text(), defaultParams)
+      setImported(design)
+      setError(null)
+      setRestoreTeam(design.teamMembers.length > 0)
+      setRestoreReflection(design.reflection !== "")
+    } catch (e) {
+      setImported(null)
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const handleApply = () => {
+    if (!imported || !constrained) return
+    onApply({
+      params: restoreParams ? constrained.params : undefined,
+      gltfUrl: restoreParams ? imported.gltfUrl : undefined,
+      teamMembers: restoreTeam ? imported.teamMembers.join(", ") : undefined,
+      reflection: restoreReflection ? imported.reflection : undefined,
+    })
+    setApplied(true)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-4 rounded-xl border border-blue-500/20">
+        <h4 className="text-lg font-bold text-blue-300 mb-2">📥 Importar Diseño</h4>
+        <p className="text-sm text-slate-300">
+          Carga un JSON exportado desde esta ventana (o de versiones anteriores) para restaurar parámetros, equipo y reflexión
+        </p>
+      </div>
+
+      <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50 space-y-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+            e.target.value = ""
+          }}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="w-full py-3 bg-slate-900 border-2 border-dashed border-purple-500/40 hover:border-purple-500 rounded-xl text-purple-300 font-semibold transition-all duration-200"
+        >
+          📂 {fileName ? `Archivo: ${fileName}` : "Seleccionar archivo JSON"}
+        </button>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/40 text-sm text-red-300">
+            ❌ {error}
+          </div>
+        )}
+
+        {imported && (
+          <div className="space-y-1 text-sm text-slate-300">
+            <div><strong>Formato:</strong> {IMPORT_FORMAT_LABELS[imported.format]}{imported.exportVersion ? ` (v${imported.exportVersion})` : ""}</div>
+            {imported.exportedAt && (
+              <div><strong>Exportado:</strong> {new Date(imported.exportedAt).toLocaleString("es-ES")}</div>
+            )}
+            {imported.gltfUrl && (
+              <div><strong>Modelo:</strong> <span className="font-mono text-xs">{imported.gltfUrl}</span></div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {imported && (
+        <>
+          {imported.issues.length > 0 && (
+            <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 text-sm text-amber-200">
+              <div className="font-semibold mb-1">⚠️ Valores corregidos al validar</div>
+              <ul className="text-xs space-y-0.5">
+                {imported.issues.map((issue) => (
+                  <li key={issue.key}>
+                    • {PARAM_META[issue.key].label}:{" "}
+                    {issue.kind === "missing"
+                      ? "faltaba, se usa el valor por defecto"
+                      : `${String(issue.value)} fuera de rango, se recortó a ${formatParam(issue.key, imported.params[issue.key], units)}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {constrained && constrained.adjusted.length > 0 && (
+            <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 text-sm text-amber-200">
+              <div className="font-semibold mb-1">🛡️ Ajustado a los límites del perfil {profile.label}</div>
+              <ul className="text-xs space-y-0.5">
+                {constrained.adjusted.map((key) => (
+                  <li key={key}>
+                    • {PARAM_META[key].label}: {formatParam(key, imported.params[key], units)} → {formatParam(key, constrained.params[key], units)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50">
+            <h4 className="text-md font-bold text-purple-300 mb-4">🔍 Diferencias con el diseño actual</h4>
+            {diffs.length === 0 ? (
+              <p className="text-sm text-slate-400">Los parámetros importados son idénticos a los actuales.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 text-xs">
+                    <th className="text-left p-2">Parámetro</th>
+                    <th className="text-right p-2">Actual</th>
+                    <th className="text-right p-2">Importado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffs.map((d) => (
+                    <tr key={d.key} className="border-t border-slate-700/50">
+                      <td className="p-2 text-slate-300">{PARAM_META[d.key].label}</td>
+                      <td className="p-2 text-right font-mono text-slate-500 line-through">{formatParam(d.key, d.current, units)}</td>
+                      <td className="p-2 text-right font-mono text-white font-semibold">{formatParam(d.key, d.incoming, units)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50 space-y-3">
+            <h4 className="text-md font-bold text-purple-300">📦 Qué restaurar</h4>
+            <label className="flex items-center gap-3 p-3 rounded-lg bg-slate-900/50 cursor-pointer">
+              <input type="checkbox" checked={restoreParams} onChange={(e) => setRestoreParams(e.target.checked)} className="w-4 h-4" />
+              <div>
+                <div className="text-white font-semibold">Parámetros del modelo</div>
+                <div className="text-xs text-slate-400">{diffs.length} cambio(s){imported.gltfUrl ? " y el modelo 3D" : ""}</div>
+              </div>
+            </label>
+            <label className="flex items-center gap-3 p-3 rounded-lg bg-slate-900/50 cursor-pointer">
+              <input type="checkbox" checked={restoreTeam} onChange={(e) => setRestoreTeam(e.target.checked)} className="w-4 h-4" />
+              <div>
+                <div className="text-white font-semibold">Integrantes del equipo</div>
+                <div className="text-xs text-slate-400">
+                  {imported.teamMembers.join(", ") || "Sin integrantes"}{teamMembers ? ` (actual: ${teamMembers})` : ""}
+                </div>
+              </div>
+            </label>
+            <label className="flex items-center gap-3 p-3 rounded-lg bg-slate-900/50 cursor-pointer">
+              <input type="checkbox" checked={restoreReflection} onChange={(e) => setRestoreReflection(e.target.checked)} className="w-4 h-4" />
+              <div>
+                <div className="text-white font-semibold">Reflexión</div>
+                <div className="text-xs text-slate-400 line-clamp-2">
+                  {imported.reflection || "Sin reflexión"}{reflection && imported.reflection ? " (reemplaza la actual)" : ""}
+                </div>
+              </div>
+            </label>
+
+            <button
+              onClick={handleApply}
+              disabled={!restoreParams && !restoreTeam && !restoreReflection}
+              className="w-full py-4 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-500 hover:to-blue-500 disabled:opacity-50 rounded-xl text-white font-bold text-lg shadow-lg transition-all duration-200"
+            >
+              {applied ? "✓ Diseño restaurado" : "Restaurar selección"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
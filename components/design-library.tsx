@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Check, Copy, FolderOpen, Pencil, Save, Trash2, X } from "lucide-react";
+import type { SavedDesign } from "@/lib/designLibrary";
+import { captureThumbnail } from "@/lib/canvasCapture";
+import {
+  useBilateral,
+  useLegParams,
+  useRightLegParams,
+  useStored,
+  useTimeline,
+} from "@/context/StoredParamsContext";
+
+type DesignLibraryProps = {
+  gltfUrl: string;
+  onLoad: (design: SavedDesign) => void;
+};
+
+function modelName(url?: string) {
+  if (!url) return "Sin modelo";
+  return url.split("/").pop() || url;
+}
+
+export function DesignLibrary({ gltfUrl, onLoad }: DesignLibraryProps) {
+  const {
+    designs,
+    designsSaveError,
+    saveDesign,
+    renameDesign,
+    duplicateDesign,
+    deleteDesign,
+  } = useStored();
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const timeline = useTimeline();
+  // Siempre la pierna principal, aunque el panel edite la derecha
+  const params = useLegParams();
+  const rightParams = useRightLegParams();
+  const bilateral = useBilateral();
+
+  const handleSave = () => {
+    saveDesign(name || `Diseño ${designs.length + 1}`, params, {
+      gltfUrl,
+      thumbnail: captureThumbnail(),
+      timeline,
+      ...(bilateral.enabled ? { rightParams, bilateral } : {}),
+    });
+    setName("");
+  };
+
+  const startRename = (design: SavedDesign) => {
+    setEditingId(design.id);
+    setEditingName(design.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) renameDesign(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-semibold text-purple-300">
+            📚 Biblioteca de Diseños
+          </Label>
+          <Badge
+            variant="outline"
+            className="border-purple-500/50 text-purple-300 text-xs"
+          >
+            {designs.length}
+          </Badge>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Nombre del diseño..."
+            className="bg-slate-950/50 border-purple-500/30 text-slate-200"
+          />
+          <Button
+            onClick={handleSave}
+            size="icon"
+            className="bg-purple-600 hover:bg-purple-700 text-white shrink-0"
+            title="Guardar diseño actual"
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {designsSaveError && (
+          <p className="text-xs text-red-400">⚠️ {designsSaveError}</p>
+        )}
+
+        {designs.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            Aún no hay diseños guardados. Guarda la configuración actual para
+            compararla después.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {designs.map((design) => (
+              <li
+                key={design.id}
+                className="flex gap-3 bg-slate-950/50 border border-purple-500/20 rounded p-2"
+              >
+                {design.thumbnail ? (
+                  <img
+                    src={design.thumbnail}
+                    alt={design.name}
+                    className="w-16 h-12 object-cover rounded border border-slate-700"
+                  />
+                ) : (
+                  <div className="w-16 h-12 rounded border border-slate-700 bg-slate-900 flex items-center justify-center text-lg">
+                    🦿
+                  </div>
+                )}
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  {editingId === design.id ? (
+                    <div className="flex gap-1">
+                      <Input
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                        autoFocus
+                        className="h-7 bg-slate-950/50 border-purple-500/30 text-slate-200 text-xs"
+                      />
+                      <button
+                        onClick={commitRename}
+                        className="text-green-400 hover:text-green-300"
+                        title="Confirmar"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="text-slate-400 hover:text-slate-300"
+                        title="Cancelar"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm font-semibold text-slate-200 truncate">
+                      {design.name}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    {new Date(design.updatedAt).toLocaleString("es-ES")}
+                  </p>
+                  <p className="text-xs text-slate-500 font-mono truncate">
+                    {modelName(design.gltfUrl)}
+                  </p>
+                  {design.timeline && (
+                    <p className="text-xs text-purple-400">🎞️ Con línea de tiempo</p>
+                  )}
+                  {design.bilateral && (
+                    <p className="text-xs text-purple-400">🦵🦵 Bilateral</p>
+                  )}
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      onClick={() => onLoad(design)}
+                      className="text-purple-300 hover:text-purple-200"
+                      title="Cargar"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => startRename(design)}
+                      className="text-slate-400 hover:text-slate-200"
+                      title="Renombrar"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => duplicateDesign(design.id)}
+                      className="text-slate-400 hover:text-slate-200"
+                      title="Duplicar"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`¿Eliminar "${design.name}"?`)) {
+                          deleteDesign(design.id);
+                        }
+                      }}
+                      className="text-red-400 hover:text-red-300"
+                      title="Eliminar"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { ChartConfig } from '@/components/ui/chart'
+import { GaitChart, phaseSpans } from '@/components/gait-charts'
+import { simulateFootCycle, springConstants } from '@/lib/footDynamics'
+import { STANCE_END, stanceAtCadence } from '@/lib/gait'
+import { groundReaction } from '@/lib/groundReaction'
+import { cycleSeconds } from '@/lib/subject'
+import { formatParam } from '@/lib/paramRegistry'
+import { formatLength, lengthSymbol, toDisplayLength } from '@/lib/units'
+import { useActiveLegParams, useSubject, useUnits } from '@/context/StoredParamsContext'
+
+const displacementConfig = {
+  heel: { label: 'Talón', color: '#f59e0b' },
+  arch: { label: 'Arco', color: '#a78bfa' },
+} satisfies ChartConfig
+
+const forceConfig = {
+  load: { label: 'GRF vertical', color: '#94a3b8' },
+  heelForce: { label: 'Talón', color: '#f59e0b' },
+  archForce: { label: 'Arco', color: '#a78bfa' },
+} satisfies ChartConfig
+
+/**
+ * Respuesta del modelo masa–resorte–amortiguador del pie durante un ciclo de
+ * marcha. Cambia en vivo con la rigidez (k) y el amortiguamiento (c).
+ */
+export function FootSpringCharts() {
+  const params = useActiveLegParams()
+  const units = useUnits()
+  const subject = useSubject()
+
+  // La carga es la GRF vertical estimada para la masa y la cadencia del sujeto
+  const rows = useMemo(
+    () =>
+      simulateFootCycle(params, {
+        cycleSeconds: cycleSeconds(subject),
+        stanceEnd: stanceAtCadence(STANCE_END, subject.cadence),
+        bodyMass: subject.bodyMass,
+        load: (cycle) => groundReaction(cycle, subject).vertical,
+      }),
+    [params, subject]
+  )
+  const spans = useMemo(() => phaseSpans(rows, 1, false), [rows])
+  const heel = springConstants(params, subject.bodyMass)
+  const peakHeel = Math.max(...rows.map((r) => r.heelCompression))
+  const peakArch = Math.max(...rows.map((r) => r.archCompression))
+  const peakForce = Math.max(...rows.map((r) => r.heelForce + r.archForce))
+
+  const displacement = rows.map((r) => ({
+    pct: r.pct,
+    heel: toDisplayLength(r.heelCompression, units.length),
+    arch: toDisplayLength(r.archCompression, units.length),
+  }))
+  const force = rows.map((r) => ({
+    pct: r.pct,
+    load: r.load,
+    heelForce: r.heelForce,
+    archForce: r.archForce,
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">{formatParam('springStiffness', params.springStiffness)} → k talón</div>
+          <div className="text-lg font-bold text-amber-300">{(heel.k / 1000).toFixed(0)} kN/m</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">ζ = {heel.zeta.toFixed(2)} → c talón</div>
+          <div className="text-lg font-bold text-amber-300">{heel.c.toFixed(0)} N·s/m</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Compresión máx. (talón / arco)</div>
+          <div className="text-lg font-bold text-white">
+            {formatLength(peakHeel, units, 2)} / {formatLength(peakArch, units, 2)}
+          </div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Fuerza máx. · fₙ</div>
+          <div className="text-lg font-bold text-white">
+            {peakForce.toFixed(0)} N · {heel.frequency.toFixed(1)} Hz
+          </div>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <GaitChart
+          title="Compresión del pie"
+          unit={lengthSymbol(units)}
+          config={displacementConfig}
+          data={displacement}
+          spans={spans}
+          digits={units.length === 'mm' ? 0 : 2}
+        />
+        <GaitChart title="Fuerza de resorte + amortiguador" unit="N" config={forceConfig} data={force} spans={spans} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useMemo } from 'react'
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import type { LegSide } from '@/lib/types'
+import { cycleSeries, type CycleRow } from '@/lib/motionRecorder'
+import { angleSymbol, lengthSymbol, toDisplayAngle, toDisplayLength } from '@/lib/units'
+import { useBilateral, useMotionRecording, useUnits } from '@/context/StoredParamsContext'
+
+const BIN_PCT = 2
+
+export type Span = { from: number; to: number; stance: boolean }
+
+/** Tramos contiguos de apoyo / balanceo para sombrear el fondo */
+export function phaseSpans(rows: Pick<CycleRow, 'pct' | 'stance'>[], width = BIN_PCT, centered = true): Span[] {
+  const spans: Span[] = []
+  for (const row of rows) {
+    const from = centered ? row.pct - width / 2 : row.pct
+    const to = from + width
+    const last = spans[spans.length - 1]
+    if (last && last.stance === row.stance) last.to = to
+    else spans.push({ from, to, stance: row.stance })
+  }
+  return spans
+}
+
+const angleConfig = {
+  hip: { label: 'Cadera (flexión)', color: '#a78bfa' },
+  knee: { label: 'Rodilla (flexión)', color: '#60a5fa' },
+  ankle: { label: 'Tobillo (plantarflexión)', color: '#f472b6' },
+} satisfies ChartConfig
+
+const stepConfig = {
+  stepAngle: { label: 'Ángulo de paso', color: '#34d399' },
+} satisfies ChartConfig
+
+const shiftConfig = {
+  verticalShift: { label: 'Elevación vertical', color: '#fbbf24' },
+} satisfies ChartConfig
+
+export function GaitChart({
+  title,
+  unit,
+  config,
+  data,
+  spans,
+  digits = unit === 'rad' ? 2 : 0,
+}: {
+  title: string
+  unit: string
+  /** Decimales del eje Y */
+  digits?: number
+  config: ChartConfig
+  data: object[]
+  spans: Span[]
+}) {
+  return (
+    <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+        <h5 className="text-sm font-bold text-purple-300">
+          {title} <span className="text-slate-400 font-normal">({unit})</span>
+        </h5>
+        <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+          {Object.entries(config).map(([key, item]) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: item.color }} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <ChartContainer config={config} className="aspect-auto h-48 w-full">
+        <LineChart data={data} syncId="gait-cycle" margin={{ left: 4, right: 12, top: 8 }}>
+          {spans.map((span, i) => (
+            <ReferenceArea
+              key={i}
+              x1={span.from}
+              x2={span.to}
+              fill={span.stance ? '#8b5cf6' : '#f59e0b'}
+              fillOpacity={span.stance ? 0.08 : 0.15}
+              ifOverflow="hidden"
+            />
+          ))}
+          <CartesianGrid vertical={false} strokeOpacity={0.2} />
+          <XAxis
+            dataKey="pct"
+            type="number"
+            domain={[0, 100]}
+            ticks={[0, 20, 40, 60, 80, 100]}
+            tickFormatter={(v: number) => `${v}%`}
+          />
+          <YAxis width={44} tickFormatter={(v: number) => v.toFixed(digits)} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, items) => `${Number(items?.[0]?.payload?.pct ?? 0).toFixed(0)}% del ciclo`} />} />
+          {Object.keys(config).map((key) => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  )
+}
+
+/**
+ * Curvas de la última marcha grabada frente al % del ciclo. Fondo violeta:
+ * apoyo; ámbar: balanceo. Las tres gráficas comparten el cursor.
+ */
+export function GaitCharts() {
+  const { samples, recording } = useMotionRecording()
+  const bilateral = useBilateral()
+  const units = useUnits()
+  const side: LegSide =
+    bilateral.enabled && samples.some((s) => s.right) ? bilateral.activeSide : 'left'
+
+  const rows = useMemo(() => cycleSeries(samples, side, BIN_PCT), [samples, side])
+  const spans = useMemo(() => phaseSpans(rows), [rows])
+  const data = useMemo(
+    () =>
+      rows.map((row) => ({
+        pct: row.pct,
+        hip: toDisplayAngle(row.hip, units.angle),
+        knee: toDisplayAngle(row.knee, units.angle),
+        ankle: toDisplayAngle(row.ankle, units.angle),
+        stepAngle: toDisplayAngle(row.stepAngle, units.angle),
+        verticalShift: toDisplayLength(row.verticalShift, units.length),
+      })),
+    [rows, units]
+  )
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50 text-sm text-slate-400">
+        Anima el ciclo de marcha para registrar los ángulos articulares y verlos aquí.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <span>
+          {recording ? '🔴 Grabando…' : `${samples.length} muestras`}
+          {bilateral.enabled && ` · pierna ${side === 'left' ? 'izquierda' : 'derecha'}`}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-violet-500/30" /> Apoyo
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-amber-500/40" /> Balanceo
+        </span>
+      </div>
+      <GaitChart title="Ángulos articulares" unit={angleSymbol(units)} config={angleConfig} data={data} spans={spans} />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <GaitChart title="Ángulo de paso" unit={angleSymbol(units)} config={stepConfig} data={data} spans={spans} />
+        <GaitChart title="Elevación vertical" unit={lengthSymbol(units)} config={shiftConfig} data={data} spans={spans} />
+      </div>
+    </div>
+  )
+}
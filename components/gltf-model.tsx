@@ -1,52 +1,55 @@
 "use client";
 
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
+import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
 import { GLTFLoader } from "three-stdlib";
 import type { Group, Bone, SkinnedMesh } from "three";
 import type { GLTF } from "three-stdlib";
 import type { LegParams } from "@/lib/types";
+import { registerBakeRig } from "@/lib/gltfAnimation";
+import { applyLegPose, EMPTY_LEG_BONES, type LegBones } from "@/lib/legRig";
+import { createFootSpring } from "@/lib/footDynamics";
+import { footLoad, type GroundContact } from "@/lib/groundReaction";
+import { useSubject } from "@/context/StoredParamsContext";
 
 interface GLTFModelProps {
   url: string;
   params: LegParams;
   onError?: (error: string | null) => void;
   onLoaded?: () => void;
+  /** Este modelo es el que se exporta con la animación horneada */
+  bakeTarget?: boolean;
+  /** Progreso del ciclo de esta pierna; null = de pie en reposo */
+  cycle?: number | null;
+  /** Tramos de apoyo y carga de esta pierna en la actividad */
+  contact?: GroundContact;
+  /** Piernas que reparten el peso en reposo */
+  supportLegs?: number;
 }
 
-interface ModelBones {
-  hip: Bone | null;
-  knee: Bone | null;
-  ankle: Bone | null;
-  foot: Bone | null;
-  thigh: Bone | null;
-  calf: Bone | null;
-  toes: Bone[];
-  heel: Bone | null;
-}
-
-export function GLTFModel({ url, params, onError, onLoaded }: GLTFModelProps) {
+// Paso máximo del resorte (s): evita un salto al volver a la pestaña
+const MAX_SPRING_DT = 0.05;
+
+export function GLTFModel({
+  url,
+  params,
+  onError,
+  onLoaded,
+  bakeTarget = false,
+  cycle = null,
+  contact,
+  supportLegs = 1,
+}: GLTFModelProps) {
   const groupRef = useRef<Group>(null);
   const [gltf, setGltf] = useState<GLTF | null>(null);
   const [loading, setLoading] = useState(true);
   // Offsets y temporales para fallback cuando no se puede reparentar
   const footOffsetRef = useRef<THREE.Vector3 | null>(null);
   const ankleOffsetRef = useRef<THREE.Vector3 | null>(null);
-  const tmpV = useRef(new THREE.Vector3());
-  const tmpV2 = useRef(new THREE.Vector3());
-  const tmpQ = useRef(new THREE.Quaternion());
 
   const [baseRotationZ, setBaseRotationZ] = useState(0); // Track base rotation for persistence
-  const [bones, setBones] = useState<ModelBones>({
-    hip: null,
-    knee: null,
-    ankle: null,
-    foot: null,
-    thigh: null,
-    calf: null,
-    toes: [],
-    heel: null,
-  });
+  const [bones, setBones] = useState<LegBones>(EMPTY_LEG_BONES);
 
   // Cargar modelo GLTF
   useEffect(() => {
@@ -54,16 +57,7 @@ export function GLTFModel({ url, params, onError, onLoaded }: GLTFModelProps) {
 
     setLoading(true);
     setGltf(null);
-    setBones({
-      hip: null,
-      knee: null,
-      ankle: null,
-      foot: null,
-      thigh: null,
-      calf: null,
-      toes: [],
-      heel: null,
-    });
+    setBones(EMPTY_LEG_BONES);
 
     const loader = new GLTFLoader();
     const loadingManager = new THREE.LoadingManager();
@@ -156,7 +150,7 @@ export function GLTFModel({ url, params, onError, onLoaded }: GLTFModelProps) {
         );
 
         // Procesar el modelo
-        const foundBones: ModelBones = {
+        const foundBones: LegBones = {
           hip: null,
           knee: null,
           ankle: null,
@@ -427,180 +421,61 @@ export function GLTFModel({ url, params, onError, onLoaded }: GLTFModelProps) {
     };
   }, [url]);
 
-  // Aplicar parámetros
-useEffect(() => {
-  if (!groupRef.current || !gltf?.scene) return
-
-  const group = groupRef.current
-
-  // ===== POSICIÓN VERTICAL =====
-  group.position.y = params.verticalShift
-
-  // ===== ESCALADO =====
-  const scaleX = params.footLength / 26
-  const scaleY = (params.tibiaLength + params.femurLength) / 83
-  const scaleZ = params.legThickness / 6
-  group.scale.set(scaleX, scaleY, scaleZ)
-
-  const rotY = (params.footRotation * Math.PI) / 180
-  group.rotation.z = baseRotationZ // Maintain base rotation
-  group.rotation.y = rotY
-
-  // ===== CONTROL DE ARTICULACIONES CON POSE NATURAL =====
-  const hipRad = (params.hipAngle * Math.PI) / 180
-  const kneeRad = (params.kneeAngle * Math.PI) / 180
-  const ankleRad = (params.ankleAngle * Math.PI) / 180 // reusamos este valor pero lo aplicaremos al foot
-  const stepRad = (params.stepAngle * Math.PI) / 180
-
-  // CADERA - Flexión hacia adelante (positivo = adelante)
-  if (bones.hip) {
-    bones.hip.rotation.x = hipRad
-    bones.hip.rotation.y = 0
-    bones.hip.rotation.z = 0
-  }
-
-  // MUSLO - Sin rotación adicional (hereda de cadera)
-  if (bones.thigh) {
-    bones.thigh.rotation.set(0, 0, 0)
-  }
-
-  // RODILLA - Flexión hacia atrás (negativo = doblar rodilla)
-  if (bones.knee) {
-    bones.knee.rotation.x = -kneeRad
-    bones.knee.rotation.y = 0
-    bones.knee.rotation.z = 0
-  }
-
-  // PANTORRILLA - Sin rotación adicional (la pantorrilla queda estática o la animas aparte)
-  if (bones.calf) {
-    bones.calf.rotation.set(0, 0, 0)
-  }
-
-  // ---- ANKLE: dejarlo fijo (sin movimiento) ----
-  if (bones.ankle) {
-    // NO aplicamos rotaciones de animación al ankle para evitar separación.
-    // Solo aseguramos que su orientación base quede limpia (ninguna animación).
-    // Si tu modelo necesita alguna corrección inicial, aplícala aquí (por ejemplo offsets), pero NO animar.
-    // bones.ankle.rotation.set(0, 0, 0)
-  }
-
-  // ---- Si ankle no es hijo del calf y hay ankleOffsetRef -> posicionarlo (fallback),
-  //      pero sin aplicar animación al ankle; esto solo mantiene la unión espacial ----
-  if (bones.ankle && bones.calf && ankleOffsetRef.current && bones.ankle.parent !== bones.calf) {
-    const calfWorldPos = tmpV.current
-    const calfWorldQuat = tmpQ.current
-    bones.calf.getWorldPosition(calfWorldPos)
-    bones.calf.getWorldQuaternion(calfWorldQuat)
-
-    const rotatedOffsetWorld = ankleOffsetRef.current.clone().applyQuaternion(calfWorldQuat)
-    const desiredAnkleWorld = calfWorldPos.clone().add(rotatedOffsetWorld)
-
-    if (bones.ankle.parent) {
-      bones.ankle.parent.worldToLocal(desiredAnkleWorld)
-      bones.ankle.position.copy(desiredAnkleWorld)
-    } else {
-      bones.ankle.position.copy(desiredAnkleWorld)
-    }
-
-    // Mantener la rotación del calf (o una orientación base) — no animamos el ankle.
-    const desiredQuat = bones.calf.getWorldQuaternion(new THREE.Quaternion())
-    if (bones.ankle.parent) {
-      const parentWorldQuat = bones.ankle.parent.getWorldQuaternion(new THREE.Quaternion())
-      const localQuat = desiredQuat.clone().premultiply(parentWorldQuat.clone().invert())
-      bones.ankle.quaternion.copy(localQuat)
-    } else {
-      bones.ankle.quaternion.copy(desiredQuat)
-    }
-  }
-
-  // ---- FOOT: ahora es EL QUE TIENE EL MOVIMIENTO (arriba/abajo + lateral) ----
-  if (bones.foot) {
-    const footLengthScale = params.footLength / 26
-    const archRotation = (params.archHeight - 4) * 0.01
-
-    // Si el foot es hijo directo del ankle (reparent exitoso):
-    // aplicamos las rotaciones de animación directamente al foot (no al ankle).
-    if (bones.ankle && bones.foot.parent === bones.ankle) {
-      // Aplicar dorsiflex/plantarflex en X (usamos ankleRad para mantener parámetro)
-      bones.foot.rotation.x = -ankleRad
-
-      // Aplicar balanceo lateral en Z (stepAngle)
-      bones.foot.rotation.z = stepRad
-
-      // Aplicar arco encima de la rotación base
-      bones.foot.rotateX(archRotation)
-
-      // Escala del pie (ajusta el eje si tu modelo usa otro para la longitud)
-      bones.foot.scale.set(1, 1, footLengthScale)
-    } else if (bones.ankle && footOffsetRef.current) {
-      // Fallback: calcular la nueva posición mundial del foot en base al ankle + offsetLocal,
-      // y luego aplicar la rotación de animación al propio foot (en su espacio local).
-
-      const ankleWorldPos = tmpV.current
-      const ankleWorldQuat = tmpQ.current
-      bones.ankle.getWorldPosition(ankleWorldPos)
-      bones.ankle.getWorldQuaternion(ankleWorldQuat)
-
-      const rotatedOffsetWorld = footOffsetRef.current.clone().applyQuaternion(ankleWorldQuat)
-      const desiredFootWorld = ankleWorldPos.clone().add(rotatedOffsetWorld)
-
-      if (bones.foot.parent) {
-        bones.foot.parent.worldToLocal(desiredFootWorld)
-        bones.foot.position.copy(desiredFootWorld)
-      } else {
-        bones.foot.position.copy(desiredFootWorld)
-      }
-
-      // Alineamos rotación del foot copiando la del ankle (convertida a local del parent del foot)
-      const desiredQuat = bones.ankle.getWorldQuaternion(new THREE.Quaternion())
-      if (bones.foot.parent) {
-        const parentWorldQuat = bones.foot.parent.getWorldQuaternion(new THREE.Quaternion())
-        const localQuat = desiredQuat.clone().premultiply(parentWorldQuat.clone().invert())
-        bones.foot.quaternion.copy(localQuat)
-      } else {
-        bones.foot.quaternion.copy(desiredQuat)
-      }
-
-      // Ahora aplicamos las rotaciones de animación al foot (SIEMPRE sobre su orientación actual local)
-      // Para evitar "separación" primero dejamos la posicion/quaternion, luego rotamos en local:
-      bones.foot.rotateX(-ankleRad) // arriba/abajo usando el parámetro ankleAngle
-      bones.foot.rotateZ(stepRad)   // lateral usando stepAngle
-
-      // Aplicar arco y escala encima de la orientación aplicada
-      bones.foot.rotateX(archRotation)
-      bones.foot.scale.set(1, 1, footLengthScale)
-    } else {
-      // Caso por defecto: no hay ankle detectable o offset -> aplicar movimiento local al foot
-      bones.foot.rotation.x = -ankleRad
-      bones.foot.rotation.z = stepRad
-      bones.foot.rotateX(archRotation)
-      bones.foot.scale.set(1, 1, footLengthScale)
-    }
-  }
-
-  // TALÓN - radio del talón
-  if (bones.heel) {
-    const heelScale = params.heelRadius / 5
-    bones.heel.scale.set(heelScale, heelScale, heelScale)
-  }
+  // Registrar el modelo para hornear animaciones (lib/gltfAnimation)
+  useEffect(() => {
+    if (!bakeTarget || !gltf?.scene) return;
+    registerBakeRig({
+      scene: gltf.scene,
+      bones,
+      baseRotationZ,
+      ankleOffset: ankleOffsetRef.current,
+      footOffset: footOffsetRef.current,
+    });
+    return () => registerBakeRig(null);
+  }, [bakeTarget, gltf, bones, baseRotationZ]);
+
+  // Talón y arco se comprimen bajo la carga actual (masa–resorte–amortiguador)
+  const subject = useSubject();
+  const footSpring = useMemo(
+    () => createFootSpring(params, subject.bodyMass),
+    // Solo las propiedades del resorte; el arco cambia al plantar el pie
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [params.springStiffness, params.dampingFactor, params.heelRadius, subject.bodyMass]
+  );
 
-  // DEDOS - Control de visibilidad
-  if (bones.toes.length > 0) {
-    bones.toes.forEach((toe, idx) => {
-      toe.visible = idx < params.toeCount
-    })
-  }
+  // Aplicar parámetros y compresión del pie en cada frame
+  useFrame((_, delta) => {
+    if (!groupRef.current || !gltf?.scene) return;
+    const load = footLoad(cycle, subject, contact, supportLegs);
+    const compression = footSpring.step(
+      load.vertical,
+      load.stanceProgress,
+      Math.min(delta, MAX_SPRING_DT)
+    );
+    applyLegPose(
+      {
+        root: groupRef.current,
+        bones,
+        baseRotationZ,
+        ankleOffset: ankleOffsetRef.current,
+        footOffset: footOffsetRef.current,
+      },
+      params,
+      compression
+    );
+  });
 
   // Debug info
-  const bonesFound = Object.entries(bones).filter(([key, value]) => {
-    if (key === "toes") return (value as Bone[]).length > 0
-    return value !== null
-  }).length
+  useEffect(() => {
+    const bonesFound = Object.entries(bones).filter(([key, value]) => {
+      if (key === "toes") return (value as Bone[]).length > 0;
+      return value !== null;
+    }).length;
 
-  if (bonesFound > 0) {
-    console.log(`[GLTFModel] 🎮 Controlando ${bonesFound}/8 grupos de huesos (ankle fijo, foot animado)`)
-  }
-}, [params, gltf, bones, baseRotationZ])
+    if (bonesFound > 0) {
+      console.log(`[GLTFModel] 🎮 Controlando ${bonesFound}/8 grupos de huesos (ankle fijo, foot animado)`);
+    }
+  }, [bones]);
 
   if (loading) {
     return (
@@ -0,0 +1,69 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import * as THREE from "three"
+import type { LegParams } from "@/lib/types"
+import { forwardKinematics, toWorld, type Vec3 } from "@/lib/kinematics"
+import { groundReaction, type GroundContact } from "@/lib/groundReaction"
+import { bodyWeight } from "@/lib/subject"
+import { useSubject } from "@/context/StoredParamsContext"
+import { SKELETON_SCALE } from "@/components/ik-target"
+
+// Longitud de la flecha (cm) por cada peso corporal
+const CM_PER_BODY_WEIGHT = 30
+
+interface GrfArrowProps {
+  params: LegParams
+  /** Progreso del ciclo de esta pierna; null = de pie en reposo */
+  cycle: number | null
+  /** Tramos de apoyo y carga de esta pierna en la actividad */
+  contact?: GroundContact
+  /** Piernas que reparten el peso en reposo */
+  supportLegs?: number
+  offset?: Vec3
+}
+
+/**
+ * Flecha de la fuerza de reacción del suelo en el centro de presión, que
+ * avanza del talón a la punta durante el apoyo. En balanceo no se dibuja.
+ */
+export function GrfArrow({
+  params,
+  cycle,
+  contact,
+  supportLegs = 1,
+  offset = [0, 0, 0],
+}: GrfArrowProps) {
+  const subject = useSubject()
+  const weight = bodyWeight(subject)
+  const arrow = useMemo(() => new THREE.ArrowHelper(), [])
+
+  const grf =
+    cycle == null
+      ? { vertical: weight / supportLegs, anteroPosterior: 0, stanceProgress: 0.5 }
+      : groundReaction(cycle, subject, contact)
+
+  useEffect(() => {
+    if (grf.stanceProgress == null) return
+    const { heel, toe } = forwardKinematics(params).joints
+    const s = grf.stanceProgress
+    const origin = new THREE.Vector3(heel[0] + (toe[0] - heel[0]) * s, 0, heel[2] + (toe[2] - heel[2]) * s)
+    const yaw = (params.footRotation * Math.PI) / 180
+    const force = new THREE.Vector3(...toWorld(grf.anteroPosterior, grf.vertical, yaw))
+    const length = (force.length() / weight) * CM_PER_BODY_WEIGHT
+    arrow.position.copy(origin)
+    arrow.setDirection(force.normalize())
+    arrow.setLength(Math.max(length, 0.1), Math.min(6, length * 0.3), Math.min(3, length * 0.15))
+    arrow.setColor(grf.anteroPosterior < 0 ? "#f472b6" : "#22d3ee")
+  }, [arrow, params, grf.vertical, grf.anteroPosterior, grf.stanceProgress, weight])
+
+  useEffect(() => () => arrow.dispose(), [arrow])
+
+  if (grf.stanceProgress == null) return null
+
+  return (
+    <group position={offset} scale={SKELETON_SCALE}>
+      <primitive object={arrow} />
+    </group>
+  )
+}
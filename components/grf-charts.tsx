@@ -0,0 +1,103 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { ChartConfig } from '@/components/ui/chart'
+import { GaitChart, phaseSpans } from '@/components/gait-charts'
+import { grfCycle } from '@/lib/groundReaction'
+import { gaitContact, profileCycleSeconds, sideProfile } from '@/lib/gaitEngine'
+import { activityProfile } from '@/lib/activities'
+import type { MotionSample } from '@/lib/motionRecorder'
+import type { LegSide } from '@/lib/types'
+import { bodyWeight } from '@/lib/subject'
+import {
+  useActivity,
+  useBilateral,
+  useLegParams,
+  useMotionRecording,
+  usePreferences,
+  useSubject,
+} from '@/context/StoredParamsContext'
+
+const verticalConfig = {
+  vertical: { label: 'Vertical', color: '#22d3ee' },
+} satisfies ChartConfig
+
+const shearConfig = {
+  anteroPosterior: { label: 'Anteroposterior', color: '#f472b6' },
+} satisfies ChartConfig
+
+/** Duración (s) del ciclo grabado: tiempo entre dos muestras sobre lo que avanza el ciclo */
+function recordedCycleSeconds(samples: MotionSample[]): number | null {
+  for (let i = 1; i < samples.length; i++) {
+    const advance = samples[i].left.cycle - samples[i - 1].left.cycle
+    if (advance > 0) return (samples[i].time - samples[i - 1].time) / advance
+  }
+  return null
+}
+
+/**
+ * Fuerzas de reacción del suelo estimadas para la masa y la cadencia del
+ * sujeto, con los tramos de apoyo de la última grabación o, si no hay, los de
+ * la actividad elegida
+ */
+export function GrfCharts() {
+  const subject = useSubject()
+  const activity = useActivity()
+  const { activitySettings } = usePreferences()
+  const params = useLegParams()
+  const bilateral = useBilateral()
+  const { samples } = useMotionRecording()
+  const side: LegSide = bilateral.enabled ? bilateral.activeSide : 'left'
+
+  const recorded = samples.find((s) => (side === 'right' ? s.right : s.left))
+  const recordedLeg = recorded && (side === 'right' ? recorded.right : recorded.left)
+  const profile = useMemo(
+    () => sideProfile(activityProfile(activity, activitySettings, params), side),
+    [activity, activitySettings, params, side]
+  )
+  const contact = useMemo(
+    () => recordedLeg?.contact ?? gaitContact(profile, subject),
+    [recordedLeg, profile, subject]
+  )
+  const rows = useMemo(() => grfCycle(subject, contact), [subject, contact])
+  const spans = useMemo(() => phaseSpans(rows, 1, false), [rows])
+  const weight = bodyWeight(subject)
+  const peak = Math.max(...rows.map((r) => r.vertical))
+  const stancePct = rows.filter((r) => r.stance).length / rows.length
+
+  // Impulsos de frenado y propulsión (N·s)
+  const seconds =
+    (recordedLeg && recordedCycleSeconds(samples)) || profileCycleSeconds(profile, subject)
+  const dt = seconds / rows.length
+  const braking = rows.reduce((sum, r) => sum + Math.min(0, r.anteroPosterior) * dt, 0)
+  const propulsion = rows.reduce((sum, r) => sum + Math.max(0, r.anteroPosterior) * dt, 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Pico vertical</div>
+          <div className="text-lg font-bold text-cyan-300">{peak.toFixed(0)} N</div>
+          <div className="text-slate-500">{(peak / weight).toFixed(2)} × peso</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Apoyo</div>
+          <div className="text-lg font-bold text-cyan-300">{(stancePct * 100).toFixed(0)} %</div>
+          <div className="text-slate-500">del ciclo</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Impulso de frenado</div>
+          <div className="text-lg font-bold text-pink-300">{braking.toFixed(1)} N·s</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-lg">
+          <div className="text-slate-400">Impulso de propulsión</div>
+          <div className="text-lg font-bold text-pink-300">{propulsion.toFixed(1)} N·s</div>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <GaitChart title="GRF vertical" unit="N" config={verticalConfig} data={rows} spans={spans} />
+        <GaitChart title="GRF anteroposterior" unit="N" config={shearConfig} data={rows} spans={spans} />
+      </div>
+    </div>
+  )
+}
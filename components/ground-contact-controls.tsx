@@ -0,0 +1,47 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { formatParam } from "@/lib/paramRegistry";
+import {
+  useActiveLegParams,
+  useGroundContact,
+  useStored,
+  useUnits,
+} from "@/context/StoredParamsContext";
+
+/** Contacto automático: la elevación vertical deja de editarse a mano */
+export function GroundContactControls() {
+  const { store } = useStored();
+  const enabled = useGroundContact();
+  const params = useActiveLegParams();
+  const units = useUnits();
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label
+            htmlFor="ground-contact"
+            className="text-sm font-semibold text-purple-300"
+          >
+            🦶 Contacto con el suelo
+          </Label>
+          <Switch
+            id="ground-contact"
+            checked={enabled}
+            onCheckedChange={(groundContact) =>
+              store.setPreferences({ groundContact })
+            }
+          />
+        </div>
+        <p className="text-xs text-slate-400">
+          {enabled
+            ? `El pie de apoyo descansa en el suelo (elevación automática: ${formatParam("verticalShift", params.verticalShift, units)}).`
+            : "Ajusta la elevación vertical para que el talón o la punta más bajos toquen el suelo, en pose y durante la marcha."}
+        </p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import * as THREE from "three"
+import { Line } from "@react-three/drei"
+import type { ThreeEvent } from "@react-three/fiber"
+import type { LegParams } from "@/lib/types"
+import { forwardKinematics, type Vec3 } from "@/lib/kinematics"
+
+// cm de la cinemática → unidades de la escena (el GLB de referencia mide ~40 u)
+export const SKELETON_SCALE = 0.45
+
+interface IKTargetProps {
+  params: LegParams
+  /** Desplazamiento lateral de la pierna (modo bilateral), en unidades de escena */
+  offset?: Vec3
+  /** El último objetivo quedó dentro del alcance y de los límites */
+  reachable: boolean
+  onDragStart: () => void
+  /** Nuevo objetivo del tobillo en cm, marco de lib/kinematics */
+  onDrag: (target: Vec3) => void
+  onDragEnd: () => void
+}
+
+/**
+ * Esqueleto esquemático calculado con la cinemática directa y un asa
+ * arrastrable en el tobillo. El arrastre se limita al plano sagital de la pierna.
+ */
+export function IKTarget({ params, offset = [0, 0, 0], reachable, onDragStart, onDrag, onDragEnd }: IKTargetProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const [dragging, setDragging] = useState(false)
+  const [hovered, setHovered] = useState(false)
+  const { joints } = useMemo(() => forwardKinematics(params), [params])
+
+  // Plano sagital en coordenadas locales (pasa por la cadera)
+  const plane = useMemo(() => {
+    const yaw = (params.footRotation * Math.PI) / 180
+    return new THREE.Plane(new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)), 0)
+  }, [params.footRotation])
+
+  const handleMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragging || !groupRef.current) return
+    e.stopPropagation()
+    const inverse = groupRef.current.matrixWorld.clone().invert()
+    const ray = e.ray.clone().applyMatrix4(inverse)
+    const hit = ray.intersectPlane(plane, new THREE.Vector3())
+    if (hit) onDrag([hit.x, hit.y, hit.z])
+  }
+
+  const handleUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragging) return
+    e.stopPropagation()
+    ;(e.target as Element).releasePointerCapture(e.pointerId)
+    setDragging(false)
+    onDragEnd()
+  }
+
+  const color = reachable ? "#22d3ee" : "#f59e0b"
+
+  return (
+    <group ref={groupRef} position={offset} scale={SKELETON_SCALE}>
+      <Line
+        points={[joints.hip, joints.knee, joints.ankle, joints.heel, joints.toe, joints.ankle]}
+        color={color}
+        lineWidth={2}
+        transparent
+        opacity={0.8}
+        depthTest={false}
+      />
+      {[joints.hip, joints.knee].map((p, i) => (
+        <mesh key={i} position={p}>
+          <sphereGeometry args={[1.5, 12, 12]} />
+          <meshBasicMaterial color={color} depthTest={false} transparent opacity={0.8} />
+        </mesh>
+      ))}
+      <mesh
+        position={joints.ankle}
+        onPointerDown={(e) => {
+          e.stopPropagation()
+          ;(e.target as Element).setPointerCapture(e.pointerId)
+          setDragging(true)
+          onDragStart()
+        }}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <sphereGeometry args={[dragging || hovered ? 3.5 : 3, 16, 16]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={dragging ? 0.8 : 0.4} depthTest={false} transparent opacity={0.9} />
+      </mesh>
+    </group>
+  )
+}
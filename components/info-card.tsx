@@ -2,11 +2,36 @@
 
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { LegParams } from "@/lib/types"
+import {
+  useActiveLegParams,
+  useJointProfile,
+  useMassModel,
+  useSubject,
+  useUnits,
+} from "@/context/StoredParamsContext"
+import { PARAM_META, formatParam } from "@/lib/paramRegistry"
+import { checkLimits } from "@/lib/joints"
+import { forwardKinematics } from "@/lib/kinematics"
+import { formatArea, formatLength } from "@/lib/units"
+import { useWorkspace } from "@/hooks/useWorkspace"
+import { centerOfMass } from "@/lib/centerOfMass"
+import { SEGMENT_IDS, SEGMENT_LABELS } from "@/lib/anthropometry"
+import { SEGMENT_COLORS } from "@/components/com-markers"
+import type { Vec3 } from "@/lib/kinematics"
 
-export function InfoCard({ params }: { params: LegParams }) {
+export function InfoCard() {
+  const params = useActiveLegParams()
   const totalLength = params.femurLength + params.tibiaLength
-  const maxReach = Math.sqrt(params.femurLength ** 2 + params.tibiaLength ** 2)
+  const units = useUnits()
+  const profile = useJointProfile()
+  const violations = checkLimits(params, profile, units)
+  const kinematics = forwardKinematics(params, { minKneeFlexion: profile.limits.knee.min })
+  const workspace = useWorkspace(params, profile)
+  const subject = useSubject()
+  const massModel = useMassModel()
+  const com = centerOfMass(params, subject, massModel)
+  // x adelante, y altura sobre el suelo, z lateral
+  const coords = (p: Vec3) => p.map((v) => formatLength(v, units)).join(", ")
 
   return (
     <Card className="absolute top-6 left-6 p-5 bg-slate-900/90 backdrop-blur-md shadow-2xl max-w-[320px] border-2 border-purple-500/30">
@@ -50,23 +75,74 @@ export function InfoCard({ params }: { params: LegParams }) {
           <div className="grid grid-cols-2 gap-2">
             <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
               <p className="text-xs text-slate-400">Longitud Total</p>
-              <p className="text-sm font-bold text-purple-400">{totalLength.toFixed(1)} cm</p>
+              <p className="text-sm font-bold text-purple-400">{formatLength(totalLength, units)}</p>
             </div>
             <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
               <p className="text-xs text-slate-400">Alcance Máx.</p>
-              <p className="text-sm font-bold text-purple-400">{maxReach.toFixed(1)} cm</p>
+              <p className="text-sm font-bold text-purple-400">{formatLength(kinematics.reach, units)}</p>
             </div>
             <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
-              <p className="text-xs text-slate-400">Elevación</p>
-              <p className="text-sm font-bold text-purple-400">{params.verticalShift.toFixed(1)} cm</p>
+              <p className="text-xs text-slate-400">Altura de Paso</p>
+              <p className="text-sm font-bold text-purple-400">{formatLength(kinematics.stepHeight, units)}</p>
             </div>
             <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
-              <p className="text-xs text-slate-400">Ángulo Rodilla</p>
-              <p className="text-sm font-bold text-purple-400">{params.kneeAngle.toFixed(0)}°</p>
+              <p className="text-xs text-slate-400">Holgura al Suelo</p>
+              <p className={`text-sm font-bold ${kinematics.clearance < 0 ? "text-amber-400" : "text-purple-400"}`}>
+                {formatLength(kinematics.clearance, units)}
+              </p>
+            </div>
+            <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
+              <p className="text-xs text-slate-400">{PARAM_META.verticalShift.label}</p>
+              <p className="text-sm font-bold text-purple-400">{formatParam("verticalShift", params.verticalShift, units)}</p>
+            </div>
+            <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
+              <p className="text-xs text-slate-400">{PARAM_META.kneeAngle.label}</p>
+              <p className="text-sm font-bold text-purple-400">{formatParam("kneeAngle", params.kneeAngle, units)}</p>
+            </div>
+            <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
+              <p className="text-xs text-slate-400">Área Tobillo</p>
+              <p className="text-sm font-bold text-purple-400">{formatArea(workspace.ankle.area, units)}</p>
+            </div>
+            <div className="bg-purple-950/30 p-2 rounded border border-purple-500/20">
+              <p className="text-xs text-slate-400">Área Punta</p>
+              <p className="text-sm font-bold text-pink-400">{formatArea(workspace.toe.area, units)}</p>
             </div>
           </div>
         </div>
 
+        <div className="pt-3 border-t border-purple-500/30 space-y-1">
+          <p className="font-semibold text-purple-300 text-xs uppercase tracking-wide">
+            Centro de Masa ({com.leg.mass.toFixed(2)} kg):
+          </p>
+          <p className="text-xs">
+            <span className="text-amber-300 font-semibold">Pierna</span>{" "}
+            <span className="text-slate-300">({coords(com.leg.position)})</span>
+          </p>
+          <ul className="space-y-0.5 text-xs">
+            {SEGMENT_IDS.map((id) => (
+              <li key={id}>
+                <span className="font-semibold" style={{ color: SEGMENT_COLORS[id] }}>
+                  {SEGMENT_LABELS[id]}
+                </span>{" "}
+                <span className="text-slate-400">({coords(com.segments[id].position)})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {violations.length > 0 && (
+          <div className="pt-3 border-t border-purple-500/30 space-y-1">
+            <p className="font-semibold text-amber-300 text-xs uppercase tracking-wide">
+              ⚠️ Fuera de límites ({profile.label}):
+            </p>
+            <ul className="space-y-0.5 text-xs text-amber-200">
+              {violations.map((v) => (
+                <li key={v.id}>• {v.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
       <div className="pt-3 border-t border-purple-500/30">
   <div className="flex flex-col gap-2 mt-2">
     <Badge variant="outline" className="text-xs border-purple-500/50 text-purple-300">
@@ -0,0 +1,87 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { ChartConfig } from '@/components/ui/chart'
+import { GaitChart, phaseSpans } from '@/components/gait-charts'
+import type { LegSide } from '@/lib/types'
+import type { JointId } from '@/lib/joints'
+import { dynamicsPeaks, dynamicsSeries, inverseDynamics } from '@/lib/inverseDynamics'
+import {
+  useBilateral,
+  useMassModel,
+  useMotionRecording,
+  useSubject,
+} from '@/context/StoredParamsContext'
+
+const BIN_PCT = 2
+
+const JOINT_NAMES: Record<JointId, string> = { hip: 'Cadera', knee: 'Rodilla', ankle: 'Tobillo' }
+
+const momentConfig = {
+  hipMoment: { label: 'Cadera (+ extensor)', color: '#a78bfa' },
+  kneeMoment: { label: 'Rodilla (+ extensor)', color: '#60a5fa' },
+  ankleMoment: { label: 'Tobillo (+ plantarflexor)', color: '#f472b6' },
+} satisfies ChartConfig
+
+const powerConfig = {
+  hipPower: { label: 'Cadera', color: '#a78bfa' },
+  kneePower: { label: 'Rodilla', color: '#60a5fa' },
+  anklePower: { label: 'Tobillo', color: '#f472b6' },
+} satisfies ChartConfig
+
+/**
+ * Momentos y potencias articulares de la última marcha grabada, con los
+ * picos por articulación para dimensionar los actuadores.
+ */
+export function JointDynamicsCharts() {
+  const { samples, recording } = useMotionRecording()
+  const bilateral = useBilateral()
+  const subject = useSubject()
+  const massModel = useMassModel()
+  const side: LegSide =
+    bilateral.enabled && samples.some((s) => s.right) ? bilateral.activeSide : 'left'
+
+  // Durante la grabación se espera al final para no recalcular cada frame
+  const frames = useMemo(
+    () => (recording ? [] : inverseDynamics(samples, side, subject, massModel)),
+    [samples, side, subject, massModel, recording]
+  )
+  const rows = useMemo(() => dynamicsSeries(frames, BIN_PCT), [frames])
+  const spans = useMemo(() => phaseSpans(rows), [rows])
+  const peaks = useMemo(() => dynamicsPeaks(frames), [frames])
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-slate-800/30 p-5 rounded-xl border border-slate-700/50 text-sm text-slate-400">
+        {recording
+          ? 'Calculando al terminar la marcha…'
+          : 'Anima el ciclo de marcha para calcular los momentos y potencias articulares.'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+        {(Object.keys(JOINT_NAMES) as JointId[]).map((joint) => (
+          <div key={joint} className="bg-slate-900/50 p-3 rounded-lg">
+            <div className="text-slate-400">{JOINT_NAMES[joint]} · pico</div>
+            <div className="text-lg font-bold text-purple-300">
+              {peaks[joint].moment.toFixed(1)} N·m
+            </div>
+            <div className="text-slate-500">
+              {(peaks[joint].moment / subject.bodyMass).toFixed(2)} N·m/kg
+            </div>
+            <div className="mt-1 text-slate-300">
+              <span className="text-emerald-300">+{peaks[joint].generated.toFixed(0)} W</span>
+              {' / '}
+              <span className="text-pink-300">{peaks[joint].absorbed.toFixed(0)} W</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <GaitChart title="Momentos articulares" unit="N·m" digits={0} config={momentConfig} data={rows} spans={spans} />
+      <GaitChart title="Potencias articulares" unit="W" digits={0} config={powerConfig} data={rows} spans={spans} />
+    </div>
+  )
+}
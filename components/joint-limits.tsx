@@ -0,0 +1,96 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import {
+  JOINT_LABELS,
+  JOINT_PROFILES,
+  JOINT_PROFILE_IDS,
+  type JointId,
+  type LimitViolation,
+} from "@/lib/joints";
+import { formatAngle } from "@/lib/units";
+import { useJointProfile, useStored, useUnits } from "@/context/StoredParamsContext";
+
+type JointLimitsCardProps = {
+  violations: LimitViolation[];
+  /** Lleva la pose actual dentro del perfil */
+  onConstrain: () => void;
+};
+
+/** Selector del perfil de límites articulares y avisos de la pose actual */
+export function JointLimitsCard({ violations, onConstrain }: JointLimitsCardProps) {
+  const { store } = useStored();
+  const profile = useJointProfile();
+  const units = useUnits();
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">
+          🛡️ Límites Articulares
+        </Label>
+
+        <div className="grid grid-cols-3 gap-2">
+          {JOINT_PROFILE_IDS.map((id) => (
+            <Button
+              key={id}
+              size="sm"
+              variant="outline"
+              onClick={() => store.setPreferences({ jointProfile: id })}
+              className={
+                profile.id === id
+                  ? "bg-purple-600 border-purple-400 text-white hover:bg-purple-700"
+                  : "bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+              }
+            >
+              {JOINT_PROFILES[id].label}
+            </Button>
+          ))}
+        </div>
+
+        <p className="text-xs text-slate-400">{profile.description}</p>
+        <div className="bg-slate-950/50 p-2 rounded font-mono text-xs text-slate-300 space-y-1">
+          {(Object.keys(profile.limits) as JointId[]).map((joint) => (
+            <div key={joint} className="flex justify-between">
+              <span>{JOINT_LABELS[joint]}</span>
+              <span>
+                {formatAngle(profile.limits[joint].min, units)} …{" "}
+                {formatAngle(profile.limits[joint].max, units)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {violations.length === 0 ? (
+          <p className="flex items-center gap-2 text-xs text-green-300">
+            <ShieldCheck className="w-4 h-4" />
+            Pose dentro de los límites
+          </p>
+        ) : (
+          <div className="bg-amber-950/30 border border-amber-500/30 rounded p-3 space-y-2">
+            <p className="flex items-center gap-2 text-xs text-amber-200 font-semibold">
+              <AlertTriangle className="w-4 h-4" />
+              Pose fuera de los límites
+            </p>
+            <ul className="text-xs text-amber-300 space-y-0.5">
+              {violations.map((v) => (
+                <li key={v.id}>• {v.message}</li>
+              ))}
+            </ul>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onConstrain}
+              className="w-full bg-slate-950/50 border-amber-500/40 text-amber-200 hover:bg-amber-950/50"
+            >
+              Ajustar al perfil
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
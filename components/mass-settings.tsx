@@ -0,0 +1,123 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  FILL_RANGE,
+  MASS_RANGE,
+  MASS_SOURCES,
+  MASS_SOURCE_LABELS,
+  MATERIALS,
+  MATERIAL_IDS,
+  SEGMENT_IDS,
+  SEGMENT_LABELS,
+  segmentProperties,
+  type MassModel,
+} from "@/lib/anthropometry";
+import {
+  useActiveLegParams,
+  useMassModel,
+  useStored,
+  useSubject,
+} from "@/context/StoredParamsContext";
+
+function optionClass(active: boolean) {
+  return active
+    ? "bg-purple-600 border-purple-400 text-white hover:bg-purple-700"
+    : "bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50";
+}
+
+/** Masas de los segmentos: antropométricas, por material o fijadas a mano */
+export function MassSettings() {
+  const { store } = useStored();
+  const model = useMassModel();
+  const subject = useSubject();
+  const params = useActiveLegParams();
+  const setModel = (patch: Partial<MassModel>) =>
+    store.setPreferences({ massModel: { ...model, ...patch } });
+
+  const props = segmentProperties(params, subject, model);
+  const total = SEGMENT_IDS.reduce((sum, id) => sum + props[id].mass, 0);
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">⚖️ Masas de los segmentos</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {MASS_SOURCES.map((source) => (
+            <Button
+              key={source}
+              size="sm"
+              variant="outline"
+              onClick={() => setModel({ source })}
+              className={`text-xs ${optionClass(model.source === source)}`}
+            >
+              {MASS_SOURCE_LABELS[source]}
+            </Button>
+          ))}
+        </div>
+
+        {model.source === "material" && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {MATERIAL_IDS.map((material) => (
+                <Button
+                  key={material}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setModel({ material })}
+                  className={`text-xs ${optionClass(model.material === material)}`}
+                >
+                  {MATERIALS[material].label}
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold text-slate-300">Fracción maciza</Label>
+                <span className="text-sm font-bold text-purple-400">
+                  {(model.fill * 100).toFixed(0)} %
+                </span>
+              </div>
+              <Slider
+                value={[model.fill]}
+                onValueChange={(v) => setModel({ fill: v[0] })}
+                min={FILL_RANGE.min}
+                max={FILL_RANGE.max}
+                step={FILL_RANGE.step}
+                className="w-full"
+              />
+            </div>
+          </>
+        )}
+
+        {model.source === "custom" &&
+          SEGMENT_IDS.map((id) => (
+            <div key={id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold text-slate-300">{SEGMENT_LABELS[id]}</Label>
+                <span className="text-sm font-bold text-purple-400">
+                  {model.masses[id].toFixed(2)} kg
+                </span>
+              </div>
+              <Slider
+                value={[model.masses[id]]}
+                onValueChange={(v) => setModel({ masses: { ...model.masses, [id]: v[0] } })}
+                min={MASS_RANGE.min}
+                max={MASS_RANGE.max}
+                step={MASS_RANGE.step}
+                className="w-full"
+              />
+            </div>
+          ))}
+
+        <p className="text-xs text-slate-400">
+          {SEGMENT_IDS.map((id) => `${SEGMENT_LABELS[id]} ${props[id].mass.toFixed(2)} kg`).join(" · ")}
+          {" · "}total {total.toFixed(2)} kg
+        </p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useMemo } from "react"
+import { Line } from "@react-three/drei"
+import type { LegSide } from "@/lib/types"
+import type { Vec3 } from "@/lib/kinematics"
+import { tracePath, type MotionSample, type TracePoint } from "@/lib/motionRecorder"
+import { useMotionRecording } from "@/context/StoredParamsContext"
+import { SKELETON_SCALE } from "@/components/ik-target"
+
+export const TRACE_COLORS: Record<TracePoint, string> = {
+  hip: "#c4b5fd",
+  knee: "#60a5fa",
+  ankle: "#22d3ee",
+  heel: "#f59e0b",
+  toe: "#f472b6",
+}
+
+interface MotionTrailsProps {
+  points: TracePoint[]
+  /** Separación entre caderas en unidades de escena (modo bilateral) */
+  pelvisWidth?: number
+}
+
+function LegTrails({ samples, side, points, offset }: {
+  samples: MotionSample[]
+  side: LegSide
+  points: TracePoint[]
+  offset: Vec3
+}) {
+  const paths = useMemo(
+    () => points.map((point) => ({ point, path: tracePath(samples, side, point) })),
+    [samples, side, points]
+  )
+
+  return (
+    <group position={offset} scale={SKELETON_SCALE}>
+      {paths.map(({ point, path }) =>
+        path.length > 1 ? (
+          <Line key={point} points={path} color={TRACE_COLORS[point]} lineWidth={2} transparent opacity={0.85} />
+        ) : null
+      )}
+    </group>
+  )
+}
+
+/** Trayectorias de los puntos elegidos durante la última marcha grabada */
+export function MotionTrails({ points, pelvisWidth = 0 }: MotionTrailsProps) {
+  const { samples } = useMotionRecording()
+  if (samples.length < 2 || points.length === 0) return null
+  const bilateral = samples.some((s) => s.right)
+
+  return (
+    <>
+      <LegTrails
+        samples={samples}
+        side="left"
+        points={points}
+        offset={bilateral ? [0, 0, -pelvisWidth / 2] : [0, 0, 0]}
+      />
+      {bilateral && (
+        <LegTrails samples={samples} side="right" points={points} offset={[0, 0, pelvisWidth / 2]} />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash2 } from "lucide-react";
+import {
+  POSE_PRESETS,
+  POSE_PRESET_IDS,
+  POSE_PRESET_LABELS,
+  blendPoses,
+  poseFromParams,
+  type Pose,
+  type PosePreset,
+} from "@/lib/posePresets";
+import { usePosePresets } from "@/hooks/usePosePresets";
+import { useActiveLegParams } from "@/context/StoredParamsContext";
+
+type PosePresetsProps = {
+  /** Aplica la pose al lado activo; con `animate` transiciona desde la actual */
+  onApply: (pose: Pose, animate?: boolean) => void;
+  /** Fin del arrastre de la mezcla (cierra la entrada del historial) */
+  onCommit?: () => void;
+  disabled?: boolean;
+};
+
+const optionClass =
+  "text-xs bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50";
+
+/** Poses de referencia y del usuario, con mezcla ponderada de dos de ellas */
+export function PosePresets({ onApply, onCommit, disabled = false }: PosePresetsProps) {
+  const params = useActiveLegParams();
+  const { poses, saveError, savePose, removePose } = usePosePresets();
+  const [name, setName] = useState("");
+  const [blendFrom, setBlendFrom] = useState("preset:standing");
+  const [blendTo, setBlendTo] = useState("preset:squatting");
+  const [weight, setWeight] = useState(0.5);
+
+  // Opciones de la mezcla: "preset:<id>" o "custom:<id>"
+  const resolve = (key: string): Pose | null => {
+    const [kind, id] = key.split(":");
+    if (kind === "preset") return POSE_PRESETS[id as PosePreset] ?? null;
+    return poses.find((p) => p.id === id)?.pose ?? null;
+  };
+
+  const blend = (nextWeight: number, from = blendFrom, to = blendTo) => {
+    setWeight(nextWeight);
+    const a = resolve(from);
+    const b = resolve(to);
+    if (a && b) onApply(blendPoses(a, b, nextWeight));
+  };
+
+  const handleSave = () => {
+    savePose(name || `Pose ${poses.length + 1}`, poseFromParams(params));
+    setName("");
+  };
+
+  const options = (
+    <SelectContent>
+      {POSE_PRESET_IDS.map((id) => (
+        <SelectItem key={id} value={`preset:${id}`}>
+          {POSE_PRESET_LABELS[id]}
+        </SelectItem>
+      ))}
+      {poses.map((p) => (
+        <SelectItem key={p.id} value={`custom:${p.id}`}>
+          {p.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">🧍 Poses</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {POSE_PRESET_IDS.map((id) => (
+            <Button
+              key={id}
+              size="sm"
+              variant="outline"
+              disabled={disabled}
+              onClick={() => onApply(POSE_PRESETS[id], true)}
+              className={optionClass}
+            >
+              {POSE_PRESET_LABELS[id]}
+            </Button>
+          ))}
+        </div>
+
+        {poses.length > 0 && (
+          <div className="space-y-1">
+            {poses.map((p) => (
+              <div key={p.id} className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={disabled}
+                  onClick={() => onApply(p.pose, true)}
+                  className={`flex-1 justify-start truncate ${optionClass}`}
+                >
+                  {p.name}
+                </Button>
+                <button
+                  onClick={() => removePose(p.id)}
+                  className="text-slate-400 hover:text-red-400"
+                  title="Eliminar"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Nombre de la pose"
+            className="h-8 text-xs bg-slate-950/50 border-purple-500/30"
+          />
+          <Button size="sm" variant="outline" onClick={handleSave} className={optionClass}>
+            <Save className="mr-1 h-4 w-4" />
+            Guardar
+          </Button>
+        </div>
+        {saveError && <p className="text-xs text-red-400">⚠️ {saveError}</p>}
+
+        <div className="space-y-2 pt-1">
+          <Label className="text-sm font-semibold text-slate-300">Mezcla de dos poses</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={blendFrom}
+              onValueChange={(v) => {
+                setBlendFrom(v);
+                blend(weight, v, blendTo);
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-full text-xs bg-slate-950/50 border-purple-500/30">
+                <SelectValue />
+              </SelectTrigger>
+              {options}
+            </Select>
+            <Select
+              value={blendTo}
+              onValueChange={(v) => {
+                setBlendTo(v);
+                blend(weight, blendFrom, v);
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-full text-xs bg-slate-950/50 border-purple-500/30">
+                <SelectValue />
+              </SelectTrigger>
+              {options}
+            </Select>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="w-10 text-xs text-slate-400 tabular-nums">
+              {Math.round((1 - weight) * 100)}%
+            </span>
+            <Slider
+              value={[weight]}
+              onValueChange={(v) => blend(v[0])}
+              onValueCommit={onCommit}
+              min={0}
+              max={1}
+              step={0.01}
+              disabled={disabled}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-slate-400 tabular-nums">
+              {Math.round(weight * 100)}%
+            </span>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
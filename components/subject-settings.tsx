@@ -0,0 +1,50 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { SUBJECT_RANGES, bodyWeight, cycleSeconds, type Subject } from "@/lib/subject";
+import { useStored, useSubject } from "@/context/StoredParamsContext";
+
+const FIELDS: { key: keyof Subject; label: string; unit: string }[] = [
+  { key: "bodyMass", label: "Masa corporal", unit: "kg" },
+  { key: "cadence", label: "Cadencia", unit: "pasos/min" },
+];
+
+/** Masa y cadencia del sujeto: escalan la GRF, los resortes y la marcha */
+export function SubjectSettings() {
+  const { store } = useStored();
+  const subject = useSubject();
+  const setSubject = (patch: Partial<Subject>) =>
+    store.setPreferences({ subject: { ...subject, ...patch } });
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">🧍 Sujeto</Label>
+        {FIELDS.map(({ key, label, unit }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-semibold text-slate-300">{label}</Label>
+              <span className="text-sm font-bold text-purple-400">
+                {subject[key]} {unit}
+              </span>
+            </div>
+            <Slider
+              value={[subject[key]]}
+              onValueChange={(v) => setSubject({ [key]: v[0] })}
+              min={SUBJECT_RANGES[key].min}
+              max={SUBJECT_RANGES[key].max}
+              step={SUBJECT_RANGES[key].step}
+              className="w-full"
+            />
+          </div>
+        ))}
+        <p className="text-xs text-slate-400">
+          Peso {bodyWeight(subject).toFixed(0)} N · ciclo de marcha{" "}
+          {cycleSeconds(subject).toFixed(2)} s
+        </p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Pause, Play, Plus, Repeat, SkipBack, Trash2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { PARAM_KEYS, PARAM_META, formatParam, type ParamKey } from "@/lib/paramRegistry";
+import {
+  DEFAULT_BEZIER,
+  INTERPOLATIONS,
+  INTERPOLATION_LABELS,
+  TIMELINE_DURATION_RANGE,
+  evaluateTimeline,
+  playbackTime,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe,
+  type BezierHandles,
+  type Interpolation,
+  type Timeline,
+} from "@/lib/timeline";
+import {
+  useActiveLegParams,
+  useBilateral,
+  useStored,
+  useTimeline,
+  useUnits,
+} from "@/context/StoredParamsContext";
+
+const buttonClass =
+  "px-2 py-1 rounded border border-purple-500/30 text-purple-300 hover:bg-purple-950/50 disabled:opacity-50";
+const activeClass = "px-2 py-1 rounded border bg-purple-600 border-purple-400 text-white";
+const fieldClass =
+  "bg-slate-950/60 border border-purple-500/30 rounded px-1 py-0.5 text-slate-200";
+
+/**
+ * Editor de keyframes: cada pista anima un campo de LegParams del lado
+ * activo. Arrastrar la barra de tiempo muestra la pose en ese instante y
+ * "Fijar" guarda el valor actual del campo elegido como keyframe.
+ */
+export function TimelinePanel({ disabled = false }: { disabled?: boolean }) {
+  const { store } = useStored();
+  const timeline = useTimeline();
+  const params = useActiveLegParams();
+  const bilateral = useBilateral();
+  const units = useUnits();
+  const side = bilateral.enabled ? bilateral.activeSide : "left";
+
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [selected, setSelected] = useState<ParamKey>("kneeAngle");
+  const frameRef = useRef<number | null>(null);
+
+  const keys = timeline.tracks[selected] ?? [];
+  const setTimeline = (next: Timeline) => store.setTimeline(next);
+
+  // Muestra la pose del instante `t` (frame transitorio: no se persiste)
+  const showPose = (t: number, tl = store.getState().timeline) => {
+    store.setSideParams(side, (prev) => evaluateTimeline(tl, t, prev), { transient: true });
+  };
+
+  const scrub = (t: number) => {
+    setTime(t);
+    showPose(t);
+  };
+
+  const stop = () => {
+    if (frameRef.current != null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setPlaying(false);
+  };
+
+  const play = () => {
+    if (playing || disabled) return;
+    const current = store.getState().timeline;
+    const from = time >= current.duration && !current.loop ? 0 : time;
+    const startedAt = performance.now() - from * 1000;
+    setPlaying(true);
+    const frame = (now: number) => {
+      const tl = store.getState().timeline;
+      const t = playbackTime(tl, (now - startedAt) / 1000);
+      setTime(t);
+      showPose(t, tl);
+      if (!tl.loop && t >= tl.duration) {
+        frameRef.current = null;
+        setPlaying(false);
+        return;
+      }
+      frameRef.current = requestAnimationFrame(frame);
+    };
+    frameRef.current = requestAnimationFrame(frame);
+  };
+
+  // La marcha u otra animación toma el control de la pose
+  useEffect(() => {
+    if (disabled) stop();
+  }, [disabled]);
+
+  useEffect(() => () => {
+    if (frameRef.current != null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const addKey = () => setTimeline(setKeyframe(timeline, selected, time, params[selected]));
+
+  const setInterpolation = (index: number, interpolation: Interpolation) =>
+    setTimeline(
+      updateKeyframe(timeline, selected, index, {
+        interpolation,
+        bezier: interpolation === "bezier" ? keys[index].bezier ?? DEFAULT_BEZIER : undefined,
+      })
+    );
+
+  const setHandle = (index: number, handle: number, value: number) => {
+    const bezier = [...(keys[index].bezier ?? DEFAULT_BEZIER)] as BezierHandles;
+    // x de los puntos de control dentro de [0, 1] para que la curva sea función
+    bezier[handle] = handle % 2 === 0 ? Math.max(0, Math.min(1, value)) : value;
+    setTimeline(updateKeyframe(timeline, selected, index, { bezier }));
+  };
+
+  const setDuration = (value: number) => {
+    if (!Number.isFinite(value)) return;
+    const { min, max } = TIMELINE_DURATION_RANGE;
+    const duration = Math.max(min, Math.min(max, value));
+    setTimeline({ ...timeline, duration });
+    if (time > duration) scrub(duration);
+  };
+
+  const tracked = PARAM_KEYS.filter((key) => (timeline.tracks[key]?.length ?? 0) > 0);
+
+  return (
+    <div className="bg-slate-900/90 border border-purple-500/30 rounded-lg p-3 text-xs text-slate-300 space-y-2 shadow-xl w-[560px] max-w-[90vw]">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-purple-300">🎞️ Línea de tiempo</span>
+        <button
+          onClick={playing ? stop : play}
+          disabled={disabled}
+          className={buttonClass}
+          title={playing ? "Pausa" : "Reproducir"}
+        >
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </button>
+        <button
+          onClick={() => {
+            stop();
+            scrub(0);
+          }}
+          disabled={disabled}
+          className={buttonClass}
+          title="Volver al inicio"
+        >
+          <SkipBack className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => setTimeline({ ...timeline, loop: !timeline.loop })}
+          className={timeline.loop ? activeClass : buttonClass}
+          title="Repetir en bucle"
+        >
+          <Repeat className="w-3 h-3" />
+        </button>
+        <label className="ml-auto flex items-center gap-1">
+          Duración
+          <input
+            type="number"
+            min={TIMELINE_DURATION_RANGE.min}
+            max={TIMELINE_DURATION_RANGE.max}
+            step={TIMELINE_DURATION_RANGE.step}
+            value={timeline.duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className={`${fieldClass} w-16`}
+          />
+          s
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="w-14 tabular-nums text-purple-300">{time.toFixed(2)} s</span>
+        <div className="relative flex-1">
+          <Slider
+            value={[time]}
+            onValueChange={(v) => scrub(v[0])}
+            min={0}
+            max={timeline.duration}
+            step={0.01}
+            disabled={disabled || playing}
+          />
+          {/* Keyframes de la pista elegida */}
+          <div className="absolute inset-x-0 -bottom-2 h-1.5 pointer-events-none">
+            {keys.map((key, i) => (
+              <span
+                key={i}
+                className="absolute w-1.5 h-1.5 -ml-[3px] rotate-45 bg-pink-400"
+                style={{ left: `${(Math.min(key.time, timeline.duration) / timeline.duration) * 100}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 pt-1">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value as ParamKey)}
+          className={`${fieldClass} flex-1`}
+        >
+          {PARAM_KEYS.map((key) => (
+            <option key={key} value={key}>
+              {PARAM_META[key].label}
+              {timeline.tracks[key]?.length ? ` (${timeline.tracks[key]?.length})` : ""}
+            </option>
+          ))}
+        </select>
+        <span className="text-slate-400">{formatParam(selected, params[selected], units)}</span>
+        <button onClick={addKey} disabled={disabled} className={buttonClass}>
+          <Plus className="inline w-3 h-3 mr-1" />
+          Fijar keyframe
+        </button>
+      </div>
+
+      {keys.length > 0 ? (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {keys.map((key, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <button
+                onClick={() => scrub(Math.min(key.time, timeline.duration))}
+                disabled={disabled || playing}
+                className={`${buttonClass} w-16 tabular-nums`}
+                title="Ir a este keyframe"
+              >
+                {key.time.toFixed(2)} s
+              </button>
+              <span className="w-20 text-slate-200">{formatParam(selected, key.value, units)}</span>
+              {i < keys.length - 1 ? (
+                <select
+                  value={key.interpolation}
+                  onChange={(e) => setInterpolation(i, e.target.value as Interpolation)}
+                  className={fieldClass}
+                  title="Interpolación hasta el siguiente keyframe"
+                >
+                  {INTERPOLATIONS.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {INTERPOLATION_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-slate-500">último</span>
+              )}
+              {key.interpolation === "bezier" && i < keys.length - 1 && (
+                <span className="flex gap-1">
+                  {(key.bezier ?? DEFAULT_BEZIER).map((v, h) => (
+                    <input
+                      key={h}
+                      type="number"
+                      step={0.05}
+                      value={v}
+                      onChange={(e) => setHandle(i, h, Number(e.target.value))}
+                      className={`${fieldClass} w-12`}
+                      title={["x1", "y1", "x2", "y2"][h]}
+                    />
+                  ))}
+                </span>
+              )}
+              <button
+                onClick={() => setTimeline(removeKeyframe(timeline, selected, i))}
+                className={`${buttonClass} ml-auto`}
+                title="Eliminar keyframe"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-400">
+          Mueve la barra de tiempo, ajusta el parámetro en el panel y pulsa “Fijar keyframe”.
+        </p>
+      )}
+
+      {tracked.length > 0 && (
+        <p className="text-slate-500">
+          Pistas: {tracked.map((key) => PARAM_META[key].label).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Download } from "lucide-react";
+import {
+  TRACE_LABELS,
+  TRACE_POINTS,
+  motionToCsv,
+  type TracePoint,
+} from "@/lib/motionRecorder";
+import { useMotionRecording } from "@/context/StoredParamsContext";
+import { TRACE_COLORS } from "@/components/motion-trails";
+
+/** Selección de puntos trazados y exportación CSV de la última marcha */
+export function TrajectoryPanel({
+  points,
+  onChange,
+}: {
+  points: TracePoint[];
+  onChange: (points: TracePoint[]) => void;
+}) {
+  const { samples, recording } = useMotionRecording();
+
+  const toggle = (point: TracePoint) =>
+    onChange(
+      points.includes(point)
+        ? points.filter((p) => p !== point)
+        : TRACE_POINTS.filter((p) => p === point || points.includes(p))
+    );
+
+  const exportCsv = () => {
+    const csv = motionToCsv(samples, points.length ? points : TRACE_POINTS);
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `trayectorias-marcha-${timestamp}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-900/90 border border-purple-500/30 rounded-lg p-2 text-xs text-slate-300 space-y-2 shadow-xl w-56">
+      <div className="flex flex-wrap gap-1">
+        {TRACE_POINTS.map((point) => (
+          <button
+            key={point}
+            onClick={() => toggle(point)}
+            className={`px-2 py-1 rounded border ${
+              points.includes(point)
+                ? "bg-purple-600 border-purple-400 text-white"
+                : "border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+            }`}
+          >
+            <span style={{ color: TRACE_COLORS[point] }}>●</span> {TRACE_LABELS[point]}
+          </button>
+        ))}
+      </div>
+      <p className="text-slate-400">
+        {recording
+          ? "Grabando marcha…"
+          : samples.length
+            ? `${samples.length} muestras (${samples[samples.length - 1].time.toFixed(1)} s)`
+            : "Anima el ciclo de marcha para grabar trayectorias"}
+      </p>
+      <button
+        onClick={exportCsv}
+        disabled={recording || samples.length === 0}
+        className="w-full px-2 py-1 rounded border border-purple-500/30 text-purple-300 hover:bg-purple-950/50 disabled:opacity-50"
+      >
+        <Download className="inline w-3 h-3 mr-1" />
+        Exportar CSV
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  ANGLE_UNITS,
+  LENGTH_UNITS,
+  UNIT_LABELS,
+  type UnitPrefs,
+} from "@/lib/units";
+import { useStored, useUnits } from "@/context/StoredParamsContext";
+
+function UnitButtons<K extends keyof UnitPrefs>({
+  kind,
+  options,
+  units,
+  onChange,
+}: {
+  kind: K;
+  options: UnitPrefs[K][];
+  units: UnitPrefs;
+  onChange: (units: UnitPrefs) => void;
+}) {
+  return (
+    <div className={`grid gap-2 ${options.length === 3 ? "grid-cols-3" : "grid-cols-2"}`}>
+      {options.map((option) => (
+        <Button
+          key={option}
+          size="sm"
+          variant="outline"
+          onClick={() => onChange({ ...units, [kind]: option })}
+          className={
+            units[kind] === option
+              ? "bg-purple-600 border-purple-400 text-white hover:bg-purple-700"
+              : "bg-slate-950/50 border-purple-500/30 text-purple-300 hover:bg-purple-950/50"
+          }
+        >
+          {UNIT_LABELS[option]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/** Preferencia global de unidades: afecta la vista, la entrada y los reportes */
+export function UnitSettings() {
+  const { store } = useStored();
+  const units = useUnits();
+  const setUnits = (next: UnitPrefs) => store.setPreferences({ units: next });
+
+  return (
+    <Card className="p-4 border-purple-500/30 bg-purple-950/30">
+      <div className="space-y-3">
+        <Label className="text-sm font-semibold text-purple-300">📐 Unidades</Label>
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">Longitud</p>
+          <UnitButtons kind="length" options={LENGTH_UNITS} units={units} onChange={setUnits} />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">Ángulo</p>
+          <UnitButtons kind="angle" options={ANGLE_UNITS} units={units} onChange={setUnits} />
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import * as THREE from "three"
+import type { LegParams } from "@/lib/types"
+import { standingHipHeight, toWorld, type Point2, type Vec3 } from "@/lib/kinematics"
+import type { WorkspaceRegion } from "@/lib/workspace"
+import { useJointProfile } from "@/context/StoredParamsContext"
+import { useWorkspace } from "@/hooks/useWorkspace"
+import { SKELETON_SCALE } from "@/components/ik-target"
+
+interface WorkspaceCloudProps {
+  params: LegParams
+  /** Desplazamiento lateral de la pierna (modo bilateral), en unidades de escena */
+  offset?: Vec3
+}
+
+// Celdas relativas a la cadera → puntos del plano sagital girado
+function useRegionGeometry(region: WorkspaceRegion, hipY: number, yaw: number) {
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(region.cells.length * 3)
+    region.cells.forEach((cell: Point2, i) => {
+      positions.set(toWorld(cell.x, hipY + cell.y, yaw), i * 3)
+    })
+    const g = new THREE.BufferGeometry()
+    g.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+    return g
+  }, [region, hipY, yaw])
+
+  useEffect(() => () => geometry.dispose(), [geometry])
+  return geometry
+}
+
+/**
+ * Nube translúcida con el espacio alcanzable del tobillo (violeta) y de la
+ * punta del pie (rosa) según las longitudes y el perfil articular actual.
+ */
+export function WorkspaceCloud({ params, offset = [0, 0, 0] }: WorkspaceCloudProps) {
+  const profile = useJointProfile()
+  const workspace = useWorkspace(params, profile)
+  const hipY = standingHipHeight(params) + params.verticalShift
+  const yaw = (params.footRotation * Math.PI) / 180
+  const ankle = useRegionGeometry(workspace.ankle, hipY, yaw)
+  const toe = useRegionGeometry(workspace.toe, hipY, yaw)
+  const size = workspace.cellSize * SKELETON_SCALE
+
+  return (
+    <group position={offset} scale={SKELETON_SCALE}>
+      <points geometry={toe}>
+        <pointsMaterial color="#f472b6" size={size} transparent opacity={0.12} depthWrite={false} />
+      </points>
+      <points geometry={ankle}>
+        <pointsMaterial color="#a78bfa" size={size} transparent opacity={0.25} depthWrite={false} />
+      </points>
+    </group>
+  )
+}
@@ -1,17 +1,55 @@
 // src/context/StoredParamsContext.tsx
 "use client";
 
-import React, { createContext, useContext, useMemo, useState } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import type { ReactNode } from "react";
-import type { LegParams } from "@/lib/types";
-import { useStoredParams } from "@/hooks/useStoredParams";
+import type { BilateralConfig, LegParams } from "@/lib/types";
+import {
+  DEFAULT_BILATERAL,
+  createParamStore,
+  type ParamStore,
+  type StoredRecovery,
+} from "@/lib/paramStore";
+import { DEFAULT_PREFERENCES, type Preferences } from "@/lib/preferences";
+import { JOINT_PROFILES, type JointProfile } from "@/lib/joints";
+import type { UnitPrefs } from "@/lib/units";
+import type { Subject } from "@/lib/subject";
+import type { MassModel } from "@/lib/anthropometry";
+import { activitySettings, type ActivityId, type ActivitySettings } from "@/lib/activities";
+import {
+  createMotionRecorder,
+  type MotionRecorder,
+  type MotionRecording,
+} from "@/lib/motionRecorder";
+import { useDesignLibrary } from "@/hooks/useDesignLibrary";
+import type { DesignExtra, SavedDesign } from "@/lib/designLibrary";
+import { DEFAULT_TIMELINE, type Timeline } from "@/lib/timeline";
 
 type StoredCtx = {
-  params: LegParams;
-  gltfUrl?: string;
-  save: (p: LegParams) => void;
-  saveGltf: (url: string) => void;
-  clear: () => void;
+  /** Store único de parámetros: leer con useLegParams/useGltfUrl */
+  store: ParamStore;
+  defaults: LegParams;
+  /** Grabación de la marcha: leer con useMotionRecording */
+  recorder: MotionRecorder;
+  // Biblioteca de diseños
+  designs: SavedDesign[];
+  /** Último error al escribir la biblioteca en localStorage */
+  designsSaveError: string | null;
+  saveDesign: (
+    name: string,
+    params: LegParams,
+    extra?: DesignExtra
+  ) => SavedDesign;
+  renameDesign: (id: string, name: string) => void;
+  duplicateDesign: (id: string) => void;
+  deleteDesign: (id: string) => void;
   // Modal control
   modalOpen: boolean;
   openModal: () => void;
@@ -27,25 +65,33 @@ export function StoredParamsProvider({
   defaults: LegParams;
   children: ReactNode;
 }) {
-  // useStoredParams debe ser el hook que lee/escribe localStorage y NO disparar renders infinitos
-  const stored = useStoredParams(defaults);
+  // Un solo store por app: restaura la sesión al crearse en el cliente
+  const [store] = useState(() => createParamStore(defaults));
+  const [recorder] = useState(createMotionRecorder);
+  const library = useDesignLibrary(defaults);
+
+  // Sincronización en vivo con otras pestañas
+  useEffect(() => store.connect(), [store]);
 
   // Modal state (se expone en el context)
   const [modalOpen, setModalOpen] = useState(false);
 
   const value = useMemo(
     () => ({
-      params: stored.params,
-      gltfUrl: stored.gltfUrl,
-      save: stored.save,
-      saveGltf: stored.saveGltf,
-      clear: stored.clear,
+      store,
+      defaults,
+      recorder,
+      designs: library.designs,
+      designsSaveError: library.saveError,
+      saveDesign: library.saveDesign,
+      renameDesign: library.rename,
+      duplicateDesign: library.duplicate,
+      deleteDesign: library.remove,
       modalOpen,
       openModal: () => setModalOpen(true),
       closeModal: () => setModalOpen(false),
     }),
-    // stored.* es estable en la implementación segura (usaRef); si usas setState en hook, revisa deps
-    [stored, modalOpen]
+    [store, recorder, defaults, library, modalOpen]
   );
 
   return <StoredContext.Provider value={value}>{children}</StoredContext.Provider>;
@@ -58,3 +104,133 @@ export function useStored() {
   }
   return ctx;
 }
+
+/** Parámetros actuales; re-renderiza en cada cambio del store */
+export function useLegParams(): LegParams {
+  const { store, defaults } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().params,
+    () => defaults
+  );
+}
+
+/** Parámetros de la pierna derecha (iguales a la izquierda en modo espejo) */
+export function useRightLegParams(): LegParams {
+  const { store, defaults } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().rightParams,
+    () => defaults
+  );
+}
+
+export function useBilateral(): BilateralConfig {
+  const { store } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().bilateral,
+    () => DEFAULT_BILATERAL
+  );
+}
+
+export function usePreferences(): Preferences {
+  const { store } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().preferences,
+    () => DEFAULT_PREFERENCES
+  );
+}
+
+/** Unidades de presentación (cm/mm/in, grados/radianes) */
+export function useUnits(): UnitPrefs {
+  return usePreferences().units;
+}
+
+/** Perfil de límites articulares activo */
+export function useJointProfile(): JointProfile {
+  return JOINT_PROFILES[usePreferences().jointProfile];
+}
+
+/** Modo de contacto automático con el suelo */
+export function useGroundContact(): boolean {
+  return usePreferences().groundContact;
+}
+
+/** Masa corporal y cadencia del sujeto */
+export function useSubject(): Subject {
+  return usePreferences().subject;
+}
+
+/** Modelo de masas de los segmentos */
+export function useMassModel(): MassModel {
+  return usePreferences().massModel;
+}
+
+/** Actividad elegida para la animación */
+export function useActivity(): ActivityId {
+  return usePreferences().activity;
+}
+
+/** Parámetros de una actividad (guardados o por defecto) */
+export function useActivitySettings(id: ActivityId): ActivitySettings {
+  const saved = usePreferences().activitySettings;
+  return useMemo(() => activitySettings(id, saved), [id, saved]);
+}
+
+/** Parámetros del lado que se está editando en el panel */
+export function useActiveLegParams(): LegParams {
+  const { store, defaults } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => {
+      const state = store.getState();
+      return state.bilateral.enabled && state.bilateral.activeSide === "right"
+        ? state.rightParams
+        : state.params;
+    },
+    () => defaults
+  );
+}
+
+export function useGltfUrl(): string {
+  const { store } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().gltfUrl,
+    () => ""
+  );
+}
+
+/** Línea de tiempo de keyframes del diseño */
+export function useTimeline(): Timeline {
+  const { store } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().timeline,
+    () => DEFAULT_TIMELINE
+  );
+}
+
+/** Resultado de la carga inicial (cuarentena de datos dañados); null en el servidor */
+export function useRecovery(): StoredRecovery | null {
+  const { store } = useStored();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getState().recovery,
+    () => null
+  );
+}
+
+const EMPTY_RECORDING: MotionRecording = { samples: [], recording: false };
+
+/** Última grabación de la marcha (muestras por frame) */
+export function useMotionRecording(): MotionRecording {
+  const { recorder } = useStored();
+  return useSyncExternalStore(
+    recorder.subscribe,
+    recorder.getState,
+    () => EMPTY_RECORDING
+  );
+}
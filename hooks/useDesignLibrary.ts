@@ -0,0 +1,85 @@
+// src/hooks/useDesignLibrary.ts
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LegParams } from "@/lib/types";
+import {
+  createDesign,
+  deleteDesign,
+  duplicateDesign,
+  loadDesigns,
+  renameDesign,
+  saveDesigns,
+  type DesignExtra,
+  type SavedDesign,
+} from "@/lib/designLibrary";
+
+export function useDesignLibrary(defaults: LegParams) {
+  const [designs, setDesigns] = useState<SavedDesign[]>([]);
+
+  // Cargar una sola vez en el cliente
+  useEffect(() => {
+    try {
+      const { designs: loaded, skipped } = loadDesigns(localStorage, defaults);
+      if (skipped > 0) {
+        console.warn(`[useDesignLibrary] ${skipped} diseño(s) dañado(s) descartado(s)`);
+      }
+      setDesigns(loaded);
+    } catch (e) {
+      console.warn("[useDesignLibrary] error loading designs", e);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Cambios del usuario pendientes de escribir en localStorage
+  const dirtyRef = useRef(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const update = useCallback((fn: (prev: SavedDesign[]) => SavedDesign[]) => {
+    dirtyRef.current = true;
+    setDesigns(fn);
+  }, []);
+
+  // Persistir fuera del updater, después de aplicar el cambio
+  useEffect(() => {
+    if (!dirtyRef.current) return;
+    dirtyRef.current = false;
+    try {
+      saveDesigns(localStorage, designs);
+      setSaveError(null);
+    } catch (e) {
+      console.warn("[useDesignLibrary] error saving designs", e);
+      setSaveError(
+        e instanceof DOMException && e.name === "QuotaExceededError"
+          ? "Sin espacio en el navegador: borra diseños antiguos para guardar cambios"
+          : "No se pudieron guardar los diseños en el navegador"
+      );
+    }
+  }, [designs]);
+
+  const saveDesign = useCallback(
+    (name: string, params: LegParams, extra?: DesignExtra) => {
+      const design = createDesign(name, params, extra);
+      update((prev) => [design, ...prev]);
+      return design;
+    },
+    [update]
+  );
+
+  const rename = useCallback(
+    (id: string, name: string) => update((prev) => renameDesign(prev, id, name)),
+    [update]
+  );
+
+  const duplicate = useCallback(
+    (id: string) => update((prev) => duplicateDesign(prev, id)),
+    [update]
+  );
+
+  const remove = useCallback(
+    (id: string) => update((prev) => deleteDesign(prev, id)),
+    [update]
+  );
+
+  return { designs, saveError, saveDesign, rename, duplicate, remove };
+}
@@ -0,0 +1,88 @@
+// src/hooks/useParamHistory.ts
+"use client";
+
+import { useCallback, useReducer, useRef } from "react";
+
+// Cambios del mismo gesto separados por menos de esto se fusionan
+const MERGE_WINDOW_MS = 800;
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Pila de deshacer/rehacer sobre instantáneas inmutables (LegParams o el par
+ * de piernas del modo bilateral).
+ * Solo registra ediciones del usuario: quien llama decide qué escrituras pasan
+ * por `record` (la animación de marcha escribe directo y no genera entradas).
+ */
+export function useParamHistory<T extends object>(limit = DEFAULT_LIMIT) {
+  const pastRef = useRef<T[]>([]);
+  const futureRef = useRef<T[]>([]);
+  // Gesto en curso (p. ej. arrastre de un slider) para fusionar entradas
+  const gestureRef = useRef<{ key: string; at: number } | null>(null);
+  const [, forceRender] = useReducer((x: number) => x + 1, 0);
+
+  /**
+   * Guarda `current` (el estado ANTES del cambio). Si `gestureKey` coincide con
+   * el gesto en curso, el cambio se fusiona con la entrada anterior.
+   */
+  const record = useCallback(
+    (current: T, gestureKey?: string) => {
+      const now = performance.now();
+      const gesture = gestureRef.current;
+      if (
+        gestureKey &&
+        gesture &&
+        gesture.key === gestureKey &&
+        now - gesture.at < MERGE_WINDOW_MS
+      ) {
+        gesture.at = now;
+        return;
+      }
+      pastRef.current.push({ ...current });
+      if (pastRef.current.length > limit) pastRef.current.shift();
+      futureRef.current = [];
+      gestureRef.current = gestureKey ? { key: gestureKey, at: now } : null;
+      forceRender();
+    },
+    [limit]
+  );
+
+  /** Cierra el gesto actual: el siguiente cambio crea una entrada nueva */
+  const endGesture = useCallback(() => {
+    gestureRef.current = null;
+  }, []);
+
+  const undo = useCallback((current: T): T | null => {
+    const prev = pastRef.current.pop();
+    if (!prev) return null;
+    futureRef.current.push({ ...current });
+    gestureRef.current = null;
+    forceRender();
+    return prev;
+  }, []);
+
+  const redo = useCallback((current: T): T | null => {
+    const next = futureRef.current.pop();
+    if (!next) return null;
+    pastRef.current.push({ ...current });
+    gestureRef.current = null;
+    forceRender();
+    return next;
+  }, []);
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    gestureRef.current = null;
+    forceRender();
+  }, []);
+
+  return {
+    record,
+    endGesture,
+    undo,
+    redo,
+    clear,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  };
+}
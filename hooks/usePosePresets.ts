@@ -0,0 +1,64 @@
+// src/hooks/usePosePresets.ts
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createCustomPose,
+  deleteCustomPose,
+  loadCustomPoses,
+  saveCustomPoses,
+  type CustomPose,
+  type Pose,
+} from "@/lib/posePresets";
+
+/** Poses guardadas por el usuario (aparte de los diseños) */
+export function usePosePresets() {
+  const [poses, setPoses] = useState<CustomPose[]>([]);
+
+  // Cargar una sola vez en el cliente
+  useEffect(() => {
+    try {
+      setPoses(loadCustomPoses(localStorage));
+    } catch (e) {
+      console.warn("[usePosePresets] error loading poses", e);
+    }
+  }, []);
+
+  // Cambios del usuario pendientes de escribir en localStorage
+  const dirtyRef = useRef(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const update = useCallback((fn: (prev: CustomPose[]) => CustomPose[]) => {
+    dirtyRef.current = true;
+    setPoses(fn);
+  }, []);
+
+  // Persistir fuera del updater, después de aplicar el cambio
+  useEffect(() => {
+    if (!dirtyRef.current) return;
+    dirtyRef.current = false;
+    try {
+      saveCustomPoses(localStorage, poses);
+      setSaveError(null);
+    } catch (e) {
+      console.warn("[usePosePresets] error saving poses", e);
+      setSaveError("No se pudieron guardar las poses en el navegador");
+    }
+  }, [poses]);
+
+  const savePose = useCallback(
+    (name: string, pose: Pose) => {
+      const saved = createCustomPose(name, pose);
+      update((prev) => [...prev, saved]);
+      return saved;
+    },
+    [update]
+  );
+
+  const removePose = useCallback(
+    (id: string) => update((prev) => deleteCustomPose(prev, id)),
+    [update]
+  );
+
+  return { poses, saveError, savePose, removePose };
+}
@@ -0,0 +1,23 @@
+// src/hooks/useWorkspace.ts
+"use client";
+
+import { useMemo } from "react";
+import type { LegParams } from "@/lib/types";
+import type { JointProfile } from "@/lib/joints";
+import { computeWorkspace, type LegWorkspace } from "@/lib/workspace";
+
+/**
+ * Espacio de trabajo memorizado. Solo depende de la geometría y del perfil,
+ * así que la animación de marcha (que cambia ángulos) no lo recalcula. La
+ * altura del arco queda fuera a propósito: la marcha la anima en cada frame
+ * al plantar el pie y apenas mueve el alcance de la punta.
+ */
+export function useWorkspace(params: LegParams, profile: JointProfile): LegWorkspace {
+  const { femurLength, tibiaLength, footLength, heelRadius, legThickness } = params;
+
+  return useMemo(
+    () => computeWorkspace(params, profile),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [femurLength, tibiaLength, footLength, heelRadius, legThickness, profile]
+  );
+}
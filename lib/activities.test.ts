@@ -0,0 +1,81 @@
+// src/lib/activities.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import { JOINT_PROFILES } from "@/lib/joints";
+import { bodyWeight, DEFAULT_SUBJECT } from "@/lib/subject";
+import { grfCycle, groundReaction } from "@/lib/groundReaction";
+import { gaitContact, phaseAt, sideProfile, simulateGait } from "@/lib/gaitEngine";
+import { activityProfile, type ActivityId } from "@/lib/activities";
+
+const subject = DEFAULT_SUBJECT;
+const weight = bodyWeight(subject);
+
+const profile = (id: ActivityId, settings = {}) => activityProfile(id, { [id]: settings }, defaultParams);
+
+/** Vertical (× peso corporal) a lo largo del ciclo de la pierna izquierda */
+const verticalCurve = (id: ActivityId, settings = {}) => {
+  const contact = gaitContact(profile(id, settings), subject);
+  return Array.from({ length: 200 }, (_, i) => groundReaction(i / 200, subject, contact).vertical / weight);
+};
+
+describe("carga de cada actividad", () => {
+  it.each(["squat", "sit-to-stand"] as const)("%s reparte el peso entre los pies todo el ciclo", (id) => {
+    const curve = verticalCurve(id);
+    for (const v of curve) expect(v).toBeCloseTo(0.5);
+  });
+
+  it("la carrera tiene un solo pico de impacto que crece con la velocidad", () => {
+    const curve = verticalCurve("run");
+    const peak = Math.max(...curve);
+    expect(peak).toBeGreaterThanOrEqual(2);
+    expect(peak).toBeLessThanOrEqual(2.5);
+    expect(Math.max(...verticalCurve("run", { speed: 5.5 }))).toBeGreaterThan(peak);
+    // Sin valle de apoyo medio: sube hasta el pico y baja
+    const stance = curve.slice(0, curve.findIndex((v) => v === 0));
+    const top = stance.indexOf(peak);
+    expect(stance.slice(0, top).every((v, i) => v <= stance[i + 1])).toBe(true);
+    expect(stance.slice(top).every((v, i, rest) => i === 0 || v <= rest[i - 1])).toBe(true);
+  });
+
+  it("el salto carga el despegue y la recepción pero no el vuelo", () => {
+    const jump = profile("jump");
+    const samples = simulateGait({ left: defaultParams, right: defaultParams }, jump, {
+      jointProfile: JOINT_PROFILES.human,
+      subject,
+      twoLegs: false,
+      groundContact: false,
+      cycles: 1,
+      pelvisWidth: 20,
+    });
+    const loads = samples.map((s) => ({
+      phase: phaseAt(jump, s.left.cycle),
+      cycle: s.left.cycle,
+      vertical: groundReaction(s.left.cycle, subject, s.left.contact).vertical,
+    }));
+    const flight = loads.filter((l) => l.phase === "swing");
+    const landing = loads.filter((l) => l.phase !== "swing" && l.cycle > flight[0].cycle);
+    expect(flight.length).toBeGreaterThan(0);
+    expect(flight.every((l) => l.vertical === 0)).toBe(true);
+    expect(landing.length).toBeGreaterThan(0);
+    expect(landing.every((l) => l.vertical > 0)).toBe(true);
+    expect(Math.max(...landing.map((l) => l.vertical))).toBeGreaterThan(weight / 2);
+    expect(loads[0].vertical).toBeCloseTo(weight / 2);
+  });
+
+  it("las curvas del ciclo usan los tramos de la actividad, no los de la marcha", () => {
+    const rows = grfCycle(subject, gaitContact(profile("squat"), subject));
+    expect(rows.every((r) => r.stance)).toBe(true);
+    expect(rows[0].vertical).toBeCloseTo(weight / 2);
+    expect(grfCycle(subject)[0].vertical).toBe(0);
+  });
+
+  it("en la patada la pierna de apoyo sostiene todo el peso", () => {
+    const kick = profile("kick");
+    const kicking = gaitContact(kick, subject);
+    const support = gaitContact(sideProfile(kick, "right"), subject);
+    const swing = (kicking[0].end + kicking[1].start) / 2;
+    expect(groundReaction(swing, subject, kicking).vertical).toBe(0);
+    expect(groundReaction(swing, subject, support).vertical).toBeCloseTo(weight);
+    expect(groundReaction(0, subject, support).vertical).toBeCloseTo(weight / 2);
+  });
+});
@@ -0,0 +1,458 @@
+// src/lib/activities.ts
+// Actividades que reproduce "Animar". Las marchas son los perfiles fijos del
+// motor; el resto se genera a partir de unos pocos parámetros ajustables
+// (velocidad, profundidad, altura) y de la pierna inicial, que fija la
+// bajada de cadera cuando los pies quedan plantados.
+//
+// Ángulos anatómicos como en lib/gaitEngine. Con el pie plano la
+// plantarflexión iguala la inclinación de la tibia (cadera − rodilla).
+import type { LegParams } from "@/lib/types";
+import { ankleHeight } from "@/lib/kinematics";
+import { GRAVITY } from "@/lib/subject";
+import type { ContactSpan, GroundContact } from "@/lib/groundReaction";
+import {
+  GAIT_PROFILES,
+  type GaitProfile,
+  type GaitProfileId,
+  type Keyframe,
+} from "@/lib/gaitEngine";
+
+export type ActivityId =
+  | GaitProfileId
+  | "run"
+  | "stairs-up"
+  | "stairs-down"
+  | "sit-to-stand"
+  | "squat"
+  | "jump"
+  | "kick";
+
+export type ActivityParam = {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+};
+
+/** Valores de los parámetros de una actividad, por clave */
+export type ActivitySettings = Record<string, number>;
+
+export type ActivitySettingsMap = Partial<Record<ActivityId, ActivitySettings>>;
+
+export type Activity = {
+  id: ActivityId;
+  label: string;
+  params: Record<string, ActivityParam>;
+  profile: (settings: ActivitySettings, start: LegParams) => GaitProfile;
+};
+
+const DEG = Math.PI / 180;
+
+/** Plantarflexión que deja el pie plano en el suelo */
+const flatAnkle = (hip: number, knee: number) => hip - knee;
+
+/** Cuánto baja la cadera (cm) con el pie plano en esta pose */
+function hipDrop(start: LegParams, hip: number, knee: number): number {
+  const shank = (hip - knee) * DEG;
+  return start.femurLength * (1 - Math.cos(hip * DEG)) + start.tibiaLength * (1 - Math.cos(shank));
+}
+
+/** Keyframes de una misma curva: [instante, valor, transición] */
+function track(...keys: [number, Keyframe["value"], Keyframe["ease"]?][]): Keyframe[] {
+  return keys.map(([at, value, ease]) => ({ at, value, ...(ease ? { ease } : {}) }));
+}
+
+/** Arco parabólico de `height` cm entre `from` y `to` (fracciones del ciclo) */
+function flightArc(from: number, to: number, height: number, steps = 8): [number, number][] {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const s = i / steps;
+    return [from + (to - from) * s, 4 * height * s * (1 - s)];
+  });
+}
+
+/** Pie plantado con `share` del peso corporal entre `start` y `end` */
+function planted(start: number, end: number, share = 0.5): ContactSpan {
+  return { start, end, load: { kind: "static", share } };
+}
+
+/** Ambos pies plantados todo el ciclo: medio peso en cada uno */
+const BOTH_PLANTED: GroundContact = [planted(0, 1)];
+
+function walk(id: GaitProfileId): Activity {
+  return { id, label: GAIT_PROFILES[id].label, params: {}, profile: () => GAIT_PROFILES[id] };
+}
+
+const run: Activity = {
+  id: "run",
+  label: "Carrera",
+  params: {
+    speed: { label: "Velocidad", unit: "m/s", min: 2, max: 6, step: 0.1, default: 3.5 },
+    kneeLift: { label: "Flexión de rodilla en vuelo", unit: "°", min: 70, max: 130, step: 1, default: 100 },
+  },
+  profile: ({ speed, kneeLift }) => {
+    // Más rápido: más cadencia, menos apoyo y más recorrido de cadera
+    const cadence = 150 + 7 * speed;
+    const stance = Math.max(0.26, Math.min(0.42, 0.42 - 0.035 * (speed - 2)));
+    const contact = 20 + 2 * speed;
+    const bounce = 1 + 0.8 * speed;
+    const flight = (from: number, to: number): [number, number, "ease"][] => [
+      [from, 0, "ease"],
+      [(from + to) / 2, bounce, "ease"],
+      [to, 0, "ease"],
+    ];
+    return {
+      id: "run",
+      label: "Carrera",
+      phases: [
+        { phase: "heel-strike", end: stance * 0.2 },
+        { phase: "foot-flat", end: stance * 0.6 },
+        { phase: "toe-off", end: stance },
+        { phase: "swing", end: 1 },
+      ],
+      tracks: {
+        hip: track(
+          [0, contact],
+          [stance, -(5 + 2 * speed), "ease"],
+          [0.85, 30 + 4 * speed, "ease"],
+          [1, contact, "ease"]
+        ),
+        knee: track(
+          [0, 15],
+          [stance * 0.4, 35 + 2 * speed, "ease"],
+          [stance, 15, "ease"],
+          [stance + (1 - stance) * 0.4, kneeLift, "ease"],
+          [0.92, 10, "ease"],
+          [1, 15, "ease"]
+        ),
+        ankle: track(
+          [0, -5],
+          [stance * 0.5, -20, "ease"],
+          [stance, 25, "ease"],
+          [stance + 0.2, 0, "ease"],
+          [1, -5, "ease"]
+        ),
+      },
+      // Un solo pico de impacto que crece con la velocidad
+      contact: [
+        {
+          start: 0,
+          end: stance,
+          load: { kind: "impact", peak: 1.8 + 0.15 * speed, shear: 0.1 + 0.05 * speed },
+        },
+      ],
+      // Vuelo entre el despegue de un pie y el contacto del otro
+      lift: track([0, 0], ...flight(stance, 0.5), ...flight(0.5 + stance, 1)),
+      smoothing: 0.35,
+      cycleSeconds: 120 / cadence,
+    };
+  },
+};
+
+const STAIR_PARAMS: Activity["params"] = {
+  stepHeight: { label: "Altura del escalón", unit: "cm", min: 10, max: 22, step: 0.5, default: 17 },
+  pace: { label: "Ritmo", unit: "pasos/min", min: 60, max: 110, step: 1, default: 85 },
+};
+
+const stairsUp: Activity = {
+  id: "stairs-up",
+  label: "Subir escaleras",
+  params: STAIR_PARAMS,
+  profile: ({ stepHeight: h, pace }) => {
+    const stance = 0.62;
+    // El pie llega al escalón con cadera y rodilla muy flexionadas
+    const hip = 30 + 1.8 * h;
+    const knee = 20 + 2.6 * h;
+    const ankle = -5 - 0.3 * h;
+    return {
+      id: "stairs-up",
+      label: "Subir escaleras",
+      phases: [
+        { phase: "foot-flat", end: stance * 0.8 },
+        { phase: "toe-off", end: stance },
+        { phase: "swing", end: 1 },
+      ],
+      tracks: {
+        hip: track([0, hip], [stance * 0.8, 0, "ease"], [0.85, hip + 5, "ease"], [1, hip, "ease"]),
+        knee: track([0, knee], [stance * 0.8, 5, "ease"], [0.78, knee + 25, "ease"], [1, knee, "ease"]),
+        ankle: track(
+          [0, ankle],
+          [stance * 0.8, 0, "ease"],
+          [stance, 15, "ease"],
+          [0.8, -10, "ease"],
+          [1, ankle, "ease"]
+        ),
+      },
+      smoothing: 0.25,
+      cycleSeconds: 120 / pace,
+    };
+  },
+};
+
+const stairsDown: Activity = {
+  id: "stairs-down",
+  label: "Bajar escaleras",
+  params: STAIR_PARAMS,
+  profile: ({ stepHeight: h, pace }) => {
+    const stance = 0.6;
+    // Se apoya primero la punta; la rodilla de apoyo frena la bajada
+    const knee = 40 + 2.5 * h;
+    return {
+      id: "stairs-down",
+      label: "Bajar escaleras",
+      phases: [
+        { phase: "heel-strike", end: 0.1 },
+        { phase: "foot-flat", end: stance * 0.8 },
+        { phase: "heel-rise", end: stance },
+        { phase: "swing", end: 1 },
+      ],
+      tracks: {
+        hip: track([0, 10], [stance * 0.85, 10 + 0.5 * h, "ease"], [0.8, 25 + 0.6 * h, "ease"], [1, 10, "ease"]),
+        knee: track([0, 10], [stance * 0.85, knee, "ease"], [0.75, knee * 0.7, "ease"], [0.95, 10, "ease"], [1, 10]),
+        ankle: track(
+          [0, 25],
+          [stance * 0.7, -(10 + 0.5 * h), "ease"],
+          [stance, 0, "ease"],
+          [0.95, 20, "ease"],
+          [1, 25, "ease"]
+        ),
+      },
+      smoothing: 0.25,
+      cycleSeconds: 120 / pace,
+    };
+  },
+};
+
+const sitToStand: Activity = {
+  id: "sit-to-stand",
+  label: "Sentarse y levantarse",
+  params: {
+    seatHeight: { label: "Altura del asiento", unit: "cm", min: 35, max: 60, step: 1, default: 45 },
+    duration: { label: "Duración", unit: "s", min: 2, max: 8, step: 0.5, default: 4 },
+  },
+  profile: ({ seatHeight, duration }, start) => {
+    // Sentado: muslo horizontal y rodilla más cerrada cuanto más bajo el asiento
+    const kneeHeight = start.tibiaLength + ankleHeight(start);
+    const hip = 90;
+    const knee = Math.max(70, Math.min(120, 90 + (kneeHeight - seatHeight) * 1.5));
+    // Para levantarse el tronco se inclina: más flexión de cadera
+    const lean = hip + 25;
+    const seated = -hipDrop(start, hip, knee);
+    return {
+      id: "sit-to-stand",
+      label: "Sentarse y levantarse",
+      phases: [{ phase: "foot-flat", end: 1 }],
+      tracks: {
+        hip: track([0, "start"], [0.3, hip, "ease"], [0.45, hip], [0.55, lean, "ease"], [0.85, "start", "ease"], [1, "start"]),
+        knee: track([0, "start"], [0.3, knee, "ease"], [0.55, knee], [0.85, "start", "ease"], [1, "start"]),
+        ankle: track(
+          [0, "start"],
+          [0.3, flatAnkle(hip, knee), "ease"],
+          [0.55, flatAnkle(hip, knee)],
+          [0.85, "start", "ease"],
+          [1, "start"]
+        ),
+        verticalShift: track([0, "start"], [0.3, seated, "ease"], [0.55, seated], [0.85, "start", "ease"], [1, "start"]),
+      },
+      contact: BOTH_PLANTED,
+      legOffset: 0,
+      smoothing: 0.3,
+      cycleSeconds: duration,
+    };
+  },
+};
+
+const squat: Activity = {
+  id: "squat",
+  label: "Sentadilla",
+  params: {
+    depth: { label: "Profundidad (flexión de rodilla)", unit: "°", min: 30, max: 110, step: 1, default: 90 },
+    tempo: { label: "Duración de la repetición", unit: "s", min: 1.5, max: 6, step: 0.5, default: 3 },
+  },
+  profile: ({ depth, tempo }, start) => {
+    const hip = depth * 0.8;
+    return {
+      id: "squat",
+      label: "Sentadilla",
+      phases: [{ phase: "foot-flat", end: 1 }],
+      tracks: {
+        hip: track([0, "start"], [0.45, hip, "ease"], [0.55, hip], [1, "start", "ease"]),
+        knee: track([0, "start"], [0.45, depth, "ease"], [0.55, depth], [1, "start", "ease"]),
+        ankle: track([0, "start"], [0.45, flatAnkle(hip, depth), "ease"], [0.55, flatAnkle(hip, depth)], [1, "start", "ease"]),
+        verticalShift: track(
+          [0, "start"],
+          [0.45, -hipDrop(start, hip, depth), "ease"],
+          [0.55, -hipDrop(start, hip, depth)],
+          [1, "start", "ease"]
+        ),
+      },
+      contact: BOTH_PLANTED,
+      legOffset: 0,
+      smoothing: 0.3,
+      cycleSeconds: tempo,
+    };
+  },
+};
+
+const jump: Activity = {
+  id: "jump",
+  label: "Salto vertical",
+  params: {
+    height: { label: "Altura del salto", unit: "cm", min: 5, max: 20, step: 0.5, default: 15 },
+    depth: { label: "Contramovimiento (flexión de rodilla)", unit: "°", min: 30, max: 100, step: 1, default: 70 },
+  },
+  profile: ({ height, depth }, start) => {
+    // Tramos en segundos; el vuelo sale de la altura (caída libre)
+    const flightTime = 2 * Math.sqrt((2 * height) / (GRAVITY * 100));
+    const spans = [0.5, 0.25, flightTime, 0.45, 0.4];
+    const total = spans.reduce((a, b) => a + b, 0);
+    const [bottom, takeoff, landing, absorbed] = spans
+      .slice(0, 4)
+      .map((_, i) => spans.slice(0, i + 1).reduce((a, b) => a + b, 0) / total);
+    // Cada pie sostiene medio peso; el impulso del despegue y de la
+    // recepción da (o frena) la velocidad del vuelo
+    const velocity = Math.sqrt(2 * GRAVITY * (height / 100));
+    const impulse = (start: number, end: number): ContactSpan => {
+      const seconds = (end - start) * total;
+      const peak = 0.5 + (Math.PI * velocity) / (4 * GRAVITY * seconds);
+      return { start, end, load: { kind: "impact", base: 0.5, peak } };
+    };
+    const hip = depth * 0.7;
+    const landKnee = depth * 0.6;
+    const landHip = landKnee * 0.7;
+    return {
+      id: "jump",
+      label: "Salto vertical",
+      phases: [
+        { phase: "foot-flat", end: bottom },
+        { phase: "toe-off", end: takeoff },
+        { phase: "swing", end: landing },
+        { phase: "foot-flat", end: 1 },
+      ],
+      tracks: {
+        hip: track([0, "start"], [bottom, hip, "ease"], [takeoff, -5, "cubic"], [landing, 10, "ease"], [absorbed, landHip, "ease"], [1, "start", "ease"]),
+        knee: track([0, "start"], [bottom, depth, "ease"], [takeoff, 0, "cubic"], [(takeoff + landing) / 2, 20, "ease"], [landing, 10, "ease"], [absorbed, landKnee, "ease"], [1, "start", "ease"]),
+        ankle: track(
+          [0, "start"],
+          [bottom, flatAnkle(hip, depth), "ease"],
+          [takeoff, 30, "cubic"],
+          [landing, 15, "ease"],
+          [absorbed, flatAnkle(landHip, landKnee), "ease"],
+          [1, "start", "ease"]
+        ),
+        verticalShift: track(
+          [0, "start"],
+          [bottom, -hipDrop(start, hip, depth), "ease"],
+          [takeoff, "start", "cubic"],
+          [landing, "start"],
+          [absorbed, -hipDrop(start, landHip, landKnee), "ease"],
+          [1, "start", "ease"]
+        ),
+      },
+      contact: [
+        planted(0, bottom),
+        impulse(bottom, takeoff),
+        impulse(landing, absorbed),
+        planted(absorbed, 1),
+      ],
+      lift: track([0, 0], ...flightArc(takeoff, landing, height)),
+      legOffset: 0,
+      smoothing: 0.5,
+      cycleSeconds: total,
+    };
+  },
+};
+
+const kick: Activity = {
+  id: "kick",
+  label: "Patada",
+  params: {
+    height: { label: "Altura (flexión de cadera)", unit: "°", min: 40, max: 110, step: 1, default: 80 },
+    strike: { label: "Duración del golpeo", unit: "s", min: 0.15, max: 0.6, step: 0.05, default: 0.3 },
+  },
+  profile: ({ height, strike }) => {
+    // Espera, armado, golpeo, acompañamiento, vuelta y espera (s)
+    const spans = [0.2, 0.45, strike, 0.35, 0.5, 0.2];
+    const total = spans.reduce((a, b) => a + b, 0);
+    const [lift, cocked, contact, follow, back] = spans
+      .slice(0, 5)
+      .map((_, i) => spans.slice(0, i + 1).reduce((a, b) => a + b, 0) / total);
+    return {
+      id: "kick",
+      label: "Patada",
+      // Pierna izquierda: la que patea
+      phases: [
+        { phase: "foot-flat", end: lift },
+        { phase: "swing", end: back },
+        { phase: "foot-flat", end: 1 },
+      ],
+      tracks: {
+        hip: track([0, "start"], [lift, "start"], [cocked, -20, "ease"], [contact, height, "cubic"], [follow, height + 10, "ease"], [back, "start", "ease"], [1, "start"]),
+        knee: track([0, "start"], [lift, "start"], [cocked, 95, "ease"], [contact, 5, "cubic"], [follow, 25, "ease"], [back, "start", "ease"], [1, "start"]),
+        ankle: track([0, "start"], [lift, "start"], [cocked, 20, "ease"], [contact, 35, "cubic"], [follow, 20, "ease"], [back, "start", "ease"], [1, "start"]),
+      },
+      contact: [planted(0, lift), planted(back, 1)],
+      // Pierna derecha: apoyo con la rodilla algo flexionada
+      support: {
+        phases: [{ phase: "foot-flat", end: 1 }],
+        tracks: {
+          hip: track([0, "start"], [cocked, 10, "ease"], [follow, 10], [1, "start", "ease"]),
+          knee: track([0, "start"], [cocked, 15, "ease"], [follow, 15], [1, "start", "ease"]),
+          ankle: track([0, "start"], [cocked, flatAnkle(10, 15), "ease"], [follow, flatAnkle(10, 15)], [1, "start", "ease"]),
+        },
+        // Todo el peso mientras la otra pierna está en el aire
+        contact: [planted(0, lift), planted(lift, back, 1), planted(back, 1)],
+      },
+      smoothing: 0.45,
+      cycleSeconds: total,
+    };
+  },
+};
+
+export const ACTIVITIES: Record<ActivityId, Activity> = {
+  walk: walk("walk"),
+  "six-phase": walk("six-phase"),
+  run,
+  "stairs-up": stairsUp,
+  "stairs-down": stairsDown,
+  "sit-to-stand": sitToStand,
+  squat,
+  jump,
+  kick,
+};
+
+export const ACTIVITY_IDS = Object.keys(ACTIVITIES) as ActivityId[];
+
+/** Parámetros de una actividad: lo guardado, recortado a su rango, o el defecto */
+export function activitySettings(id: ActivityId, saved: ActivitySettingsMap = {}): ActivitySettings {
+  const values = saved[id] ?? {};
+  return Object.fromEntries(
+    Object.entries(ACTIVITIES[id].params).map(([key, param]) => {
+      const v = Number(values[key]);
+      return [key, Number.isFinite(v) ? Math.max(param.min, Math.min(param.max, v)) : param.default];
+    })
+  );
+}
+
+/** Decimales con que se muestra un valor de paso `step` */
+export function stepDigits(step: number): number {
+  return step < 1 ? (step < 0.1 ? 2 : 1) : 0;
+}
+
+/** Perfil listo para el motor con los parámetros guardados y la pierna inicial */
+export function activityProfile(id: ActivityId, saved: ActivitySettingsMap, start: LegParams): GaitProfile {
+  return ACTIVITIES[id].profile(activitySettings(id, saved), start);
+}
+
+/** Lee los parámetros guardados; actividades o claves desconocidas se descartan */
+export function parseActivitySettings(value: unknown): ActivitySettingsMap {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const settings: ActivitySettingsMap = {};
+  for (const id of ACTIVITY_IDS) {
+    if (Object.keys(ACTIVITIES[id].params).length === 0) continue;
+    if (!raw[id] || typeof raw[id] !== "object") continue;
+    settings[id] = activitySettings(id, { [id]: raw[id] as ActivitySettings });
+  }
+  return settings;
+}
@@ -0,0 +1,168 @@
+// src/lib/anthropometry.ts
+// Propiedades inerciales de los segmentos de la pierna. Por defecto salen de
+// la masa corporal y de las longitudes de LegParams (tablas antropométricas
+// de Winter, "Biomechanics and Motor Control of Human Movement"); también se
+// pueden calcular con un material o con masas fijas para la pierna mecánica.
+// Todo en SI: kg, m, kg·m².
+import type { LegParams } from "@/lib/types";
+import type { Subject } from "@/lib/subject";
+import { ankleHeight } from "@/lib/kinematics";
+
+export type SegmentId = "thigh" | "shank" | "foot";
+
+export const SEGMENT_IDS: SegmentId[] = ["thigh", "shank", "foot"];
+
+export const SEGMENT_LABELS: Record<SegmentId, string> = {
+  thigh: "Muslo",
+  shank: "Pierna (tibia)",
+  foot: "Pie",
+};
+
+export type AnthropometricRow = {
+  /** Fracción de la masa corporal */
+  massFraction: number;
+  /** Centro de masa desde el extremo proximal, fracción de la longitud */
+  comFraction: number;
+  /** Radio de giro respecto al centro de masa, fracción de la longitud */
+  gyration: number;
+};
+
+export const ANTHROPOMETRIC_TABLE: Record<SegmentId, AnthropometricRow> = {
+  thigh: { massFraction: 0.1, comFraction: 0.433, gyration: 0.323 },
+  shank: { massFraction: 0.0465, comFraction: 0.433, gyration: 0.302 },
+  // El pie se toma del talón a la punta
+  foot: { massFraction: 0.0145, comFraction: 0.5, gyration: 0.475 },
+};
+
+export type SegmentProperties = {
+  mass: number;
+  length: number;
+  comFraction: number;
+  /** Momento de inercia respecto al centro de masa */
+  inertia: number;
+};
+
+/** Longitud de cada segmento (cm) según LegParams */
+export function segmentLengths(params: LegParams): Record<SegmentId, number> {
+  return {
+    thigh: params.femurLength,
+    shank: params.tibiaLength,
+    foot: params.footLength,
+  };
+}
+
+export type MassSource = "anthropometric" | "material" | "custom";
+
+export const MASS_SOURCES: MassSource[] = ["anthropometric", "material", "custom"];
+
+export const MASS_SOURCE_LABELS: Record<MassSource, string> = {
+  anthropometric: "Antropométrica",
+  material: "Material",
+  custom: "Personalizada",
+};
+
+export type MaterialId = "aluminum" | "steel" | "titanium" | "carbon" | "pla";
+
+/** Densidades (kg/m³) */
+export const MATERIALS: Record<MaterialId, { label: string; density: number }> = {
+  aluminum: { label: "Aluminio", density: 2700 },
+  steel: { label: "Acero", density: 7850 },
+  titanium: { label: "Titanio", density: 4430 },
+  carbon: { label: "Fibra de carbono", density: 1600 },
+  pla: { label: "PLA (impresión 3D)", density: 1240 },
+};
+
+export const MATERIAL_IDS = Object.keys(MATERIALS) as MaterialId[];
+
+export type MassModel = {
+  source: MassSource;
+  material: MaterialId;
+  /** Fracción maciza del volumen (0..1): tubos huecos o relleno de impresión */
+  fill: number;
+  /** Masas fijas (kg) para la fuente "custom" */
+  masses: Record<SegmentId, number>;
+};
+
+export const MASS_RANGE = { min: 0.05, max: 20, step: 0.05 };
+export const FILL_RANGE = { min: 0.05, max: 1, step: 0.05 };
+
+export const DEFAULT_MASS_MODEL: MassModel = {
+  source: "anthropometric",
+  material: "aluminum",
+  fill: 0.3,
+  masses: { thigh: 7, shank: 3.3, foot: 1 },
+};
+
+/**
+ * Volumen de cada segmento (m³): muslo y tibia como cilindros del grosor de
+ * la pierna, el pie como un bloque largo × grosor × altura del tobillo.
+ */
+function segmentVolumes(params: LegParams): Record<SegmentId, number> {
+  const radius = params.legThickness / 200;
+  const cylinder = (lengthCm: number) => Math.PI * radius ** 2 * (lengthCm / 100);
+  return {
+    thigh: cylinder(params.femurLength),
+    shank: cylinder(params.tibiaLength),
+    foot: (params.footLength / 100) * (params.legThickness / 100) * (ankleHeight(params) / 100),
+  };
+}
+
+export function segmentProperties(
+  params: LegParams,
+  subject: Subject,
+  model: MassModel = DEFAULT_MASS_MODEL
+): Record<SegmentId, SegmentProperties> {
+  const lengths = segmentLengths(params);
+  const volumes = segmentVolumes(params);
+  const density = MATERIALS[model.material].density * model.fill;
+  const result = {} as Record<SegmentId, SegmentProperties>;
+  for (const id of SEGMENT_IDS) {
+    const row = ANTHROPOMETRIC_TABLE[id];
+    const length = lengths[id] / 100;
+    if (model.source === "material") {
+      // Segmento homogéneo: centro de masa al medio e inercia de cilindro / bloque
+      const mass = volumes[id] * density;
+      const side = id === "foot" ? ankleHeight(params) / 100 : params.legThickness / 100;
+      const inertia =
+        id === "foot"
+          ? (mass * (length ** 2 + side ** 2)) / 12
+          : mass * (length ** 2 / 12 + side ** 2 / 16);
+      result[id] = { mass, length, comFraction: 0.5, inertia };
+      continue;
+    }
+    const mass =
+      model.source === "custom" ? model.masses[id] : subject.bodyMass * row.massFraction;
+    result[id] = {
+      mass,
+      length,
+      comFraction: row.comFraction,
+      inertia: mass * (row.gyration * length) ** 2,
+    };
+  }
+  return result;
+}
+
+/** Lee un modelo de masas guardado; valores inválidos vuelven al defecto */
+export function parseMassModel(value: unknown): MassModel {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<MassModel>;
+  const clamp = (v: unknown, range: { min: number; max: number }, fallback: number) => {
+    const n = Number(v);
+    return Number.isFinite(n) ? Math.max(range.min, Math.min(range.max, n)) : fallback;
+  };
+  const masses = (raw.masses && typeof raw.masses === "object" ? raw.masses : {}) as Partial<
+    Record<SegmentId, number>
+  >;
+  return {
+    source: MASS_SOURCES.includes(raw.source as MassSource)
+      ? (raw.source as MassSource)
+      : DEFAULT_MASS_MODEL.source,
+    material:
+      raw.material && raw.material in MATERIALS ? raw.material : DEFAULT_MASS_MODEL.material,
+    fill: clamp(raw.fill, FILL_RANGE, DEFAULT_MASS_MODEL.fill),
+    masses: {
+      thigh: clamp(masses.thigh, MASS_RANGE, DEFAULT_MASS_MODEL.masses.thigh),
+      shank: clamp(masses.shank, MASS_RANGE, DEFAULT_MASS_MODEL.masses.shank),
+      foot: clamp(masses.foot, MASS_RANGE, DEFAULT_MASS_MODEL.masses.foot),
+    },
+  };
+}
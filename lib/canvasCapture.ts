@@ -0,0 +1,27 @@
+// src/lib/canvasCapture.ts
+// Acceso al canvas WebGL de la escena para generar miniaturas.
+// CanvasScene registra su elemento al crearse (requiere preserveDrawingBuffer).
+
+let target: HTMLCanvasElement | null = null;
+
+export function registerCaptureCanvas(canvas: HTMLCanvasElement | null) {
+  target = canvas;
+}
+
+/** Devuelve una miniatura JPEG del canvas 3D, o undefined si no hay escena */
+export function captureThumbnail(width = 160, quality = 0.7): string | undefined {
+  if (!target || target.width === 0 || target.height === 0) return undefined;
+  try {
+    const height = Math.round((width * target.height) / target.width);
+    const thumb = document.createElement("canvas");
+    thumb.width = width;
+    thumb.height = height;
+    const ctx = thumb.getContext("2d");
+    if (!ctx) return undefined;
+    ctx.drawImage(target, 0, 0, width, height);
+    return thumb.toDataURL("image/jpeg", quality);
+  } catch (e) {
+    console.warn("[canvasCapture] no se pudo capturar la miniatura", e);
+    return undefined;
+  }
+}
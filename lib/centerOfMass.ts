@@ -0,0 +1,64 @@
+// src/lib/centerOfMass.ts
+// Centros de masa de muslo, tibia y pie y el de la pierna completa, en el
+// marco de lib/kinematics (cm, con la guiñada aplicada). Las masas y la
+// posición del centro dentro de cada segmento salen del modelo de masas.
+import type { LegParams } from "@/lib/types";
+import type { Subject } from "@/lib/subject";
+import { forwardKinematics, type Vec3 } from "@/lib/kinematics";
+import {
+  DEFAULT_MASS_MODEL,
+  SEGMENT_IDS,
+  segmentProperties,
+  type MassModel,
+  type SegmentId,
+} from "@/lib/anthropometry";
+
+export type MassPoint = {
+  /** kg */
+  mass: number;
+  /** cm */
+  position: Vec3;
+};
+
+export type LegCenterOfMass = {
+  segments: Record<SegmentId, MassPoint>;
+  leg: MassPoint;
+};
+
+function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+export function centerOfMass(
+  params: LegParams,
+  subject: Subject,
+  model: MassModel = DEFAULT_MASS_MODEL
+): LegCenterOfMass {
+  const { hip, knee, ankle, heel, toe } = forwardKinematics(params).joints;
+  const props = segmentProperties(params, subject, model);
+  // Extremos proximal y distal; el pie va del talón a la punta
+  const ends: Record<SegmentId, [Vec3, Vec3]> = {
+    thigh: [hip, knee],
+    shank: [knee, ankle],
+    foot: [heel, toe],
+  };
+
+  const segments = {} as Record<SegmentId, MassPoint>;
+  let total = 0;
+  const sum: Vec3 = [0, 0, 0];
+  for (const id of SEGMENT_IDS) {
+    const { mass, comFraction } = props[id];
+    const position = lerp(ends[id][0], ends[id][1], comFraction);
+    segments[id] = { mass, position };
+    total += mass;
+    for (let k = 0; k < 3; k++) sum[k] += mass * position[k];
+  }
+
+  return {
+    segments,
+    leg: {
+      mass: total,
+      position: total > 0 ? [sum[0] / total, sum[1] / total, sum[2] / total] : hip,
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// src/lib/designImport.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import { encodeStoredParams } from "@/lib/paramsStorage";
+import { DesignImportError, diffParams, parseDesignImport } from "@/lib/designImport";
+
+const params = { ...defaultParams, kneeAngle: 40, footLength: 24 };
+
+const parse = (doc: unknown) => parseDesignImport(JSON.stringify(doc), defaultParams);
+
+describe("parseDesignImport", () => {
+  it("reconoce la exportación JSON del informe con sus metadatos", () => {
+    const design = parse({
+      metadata: { exported: "2025-12-01T10:00:00.000Z", version: "2.0" },
+      teamMembers: ["Ana", "Luis"],
+      parameters: params,
+      gltfUrl: "https://example.com/pierna.glb",
+      reflection: "Funciona",
+    });
+    expect(design.format).toBe("report-export");
+    expect(design.exportVersion).toBe("2.0");
+    expect(design.exportedAt).toBe("2025-12-01T10:00:00.000Z");
+    expect(design.params).toEqual(params);
+    expect(design.gltfUrl).toBe("https://example.com/pierna.glb");
+    expect(design.teamMembers).toEqual(["Ana", "Luis"]);
+    expect(design.reflection).toBe("Funciona");
+  });
+
+  it("lee el equipo como texto separado por comas de las versiones 1.x", () => {
+    const design = parse({ metadata: { version: "1.0" }, teamMembers: "Ana, Luis,", parameters: params });
+    expect(design.teamMembers).toEqual(["Ana", "Luis"]);
+  });
+
+  it("reconoce los datos copiados al portapapeles", () => {
+    const design = parse({ params, functions: {} });
+    expect(design.format).toBe("clipboard");
+    expect(design.params).toEqual(params);
+  });
+
+  it("decodifica el envelope guardado aplicando sus migraciones", () => {
+    const stored = parseDesignImport(encodeStoredParams(params), defaultParams);
+    expect(stored.format).toBe("stored-envelope");
+    expect(stored.params).toEqual(params);
+
+    const { toeCount, ...rest } = params;
+    const legacy = parse({ version: 0, params: { ...rest, toes: 2 } });
+    expect(legacy.format).toBe("stored-envelope");
+    expect(legacy.params.toeCount).toBe(2);
+  });
+
+  it("acepta LegParams sueltos y completa los que faltan", () => {
+    const design = parse({ kneeAngle: 40 });
+    expect(design.format).toBe("raw-params");
+    expect(design.params).toEqual({ ...defaultParams, kneeAngle: 40 });
+    expect(design.issues.some((i) => i.kind === "missing")).toBe(true);
+  });
+
+  it.each([
+    ["un texto que no es JSON", "{ pierna"],
+    ["un JSON que no es un objeto", "[1, 2]"],
+    ["un objeto sin parámetros", JSON.stringify({ metadata: {} })],
+    ["parámetros no numéricos", JSON.stringify({ parameters: { ...params, kneeAngle: "mucho" } })],
+    ["parámetros sin ninguna clave conocida", JSON.stringify({ params: { rodilla: 40 } })],
+  ])("rechaza %s", (_, text) => {
+    expect(() => parseDesignImport(text, defaultParams)).toThrow(DesignImportError);
+  });
+});
+
+describe("diffParams", () => {
+  it("lista solo los parámetros que cambian", () => {
+    expect(diffParams(defaultParams, params)).toEqual([
+      { key: "kneeAngle", current: 5, incoming: 40 },
+      { key: "footLength", current: 26, incoming: 24 },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+// src/lib/designImport.ts
+// Lectura de los JSON que genera DataModal (exportación completa y "Copiar")
+// y de variantes más antiguas, para restaurar un diseño en la app.
+import type { LegParams } from "@/lib/types";
+import { PARAM_KEYS, type ParamIssue, type ParamKey } from "@/lib/paramRegistry";
+import { decodeParamsValue } from "@/lib/paramsStorage";
+
+export type ImportFormat =
+  | "report-export" // handleExport JSON: { metadata, parameters, teamMembers, ... }
+  | "clipboard" // botón "Copiar": { params, functions, ... }
+  | "stored-envelope" // { version, params } de localStorage
+  | "raw-params"; // LegParams sueltos de builds antiguas
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  "report-export": "Exportación JSON del informe",
+  clipboard: "Datos copiados al portapapeles",
+  "stored-envelope": "Diseño guardado (localStorage)",
+  "raw-params": "Parámetros sueltos (formato antiguo)",
+};
+
+export type ImportedDesign = {
+  format: ImportFormat;
+  /** metadata.version del informe, si existe */
+  exportVersion?: string;
+  exportedAt?: string;
+  params: LegParams;
+  gltfUrl?: string;
+  teamMembers: string[];
+  reflection: string;
+  /** Valores corregidos al validar (faltantes o fuera de rango) */
+  issues: ParamIssue[];
+};
+
+export class DesignImportError extends Error {}
+
+export type ParamDiff = { key: ParamKey; current: number; incoming: number };
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+// Las versiones 1.x guardaban el equipo como texto separado por comas
+function parseTeam(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((m): m is string => typeof m === "string" && m.trim() !== "");
+  }
+  if (typeof value === "string") {
+    return value.split(",").map((m) => m.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+function detect(doc: Record<string, unknown>): {
+  format: ImportFormat;
+  params: unknown;
+} {
+  if (asObject(doc.parameters)) return { format: "report-export", params: doc.parameters };
+  if (typeof doc.version === "number" && asObject(doc.params)) {
+    // El envelope se decodifica entero para aplicar sus migraciones
+    return { format: "stored-envelope", params: doc };
+  }
+  if (asObject(doc.params)) return { format: "clipboard", params: doc.params };
+  if (PARAM_KEYS.some((key) => typeof doc[key] === "number")) {
+    return { format: "raw-params", params: doc };
+  }
+  throw new DesignImportError(
+    "El archivo no contiene parámetros de la pierna (parameters/params)"
+  );
+}
+
+/** Valida un JSON importado. Lanza DesignImportError si no es utilizable */
+export function parseDesignImport(text: string, defaults: LegParams): ImportedDesign {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new DesignImportError("El archivo no es un JSON válido");
+  }
+  const doc = asObject(parsed);
+  if (!doc) throw new DesignImportError("El JSON debe ser un objeto");
+
+  const { format, params: rawParams } = detect(doc);
+
+  let decoded: ReturnType<typeof decodeParamsValue>;
+  try {
+    decoded = decodeParamsValue(rawParams, defaults);
+  } catch (e) {
+    throw new DesignImportError(
+      `Parámetros inválidos: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+  // Un archivo sin ningún parámetro reconocible no es un diseño
+  if (decoded.issues.filter((i) => i.kind === "missing").length === PARAM_KEYS.length) {
+    throw new DesignImportError("Ningún parámetro reconocido en el archivo");
+  }
+
+  const metadata = asObject(doc.metadata);
+  return {
+    format,
+    exportVersion: typeof metadata?.version === "string" ? metadata.version : undefined,
+    exportedAt: typeof metadata?.exported === "string" ? metadata.exported : undefined,
+    params: decoded.params,
+    gltfUrl: typeof doc.gltfUrl === "string" && doc.gltfUrl ? doc.gltfUrl : undefined,
+    teamMembers: parseTeam(doc.teamMembers),
+    reflection: typeof doc.reflection === "string" ? doc.reflection : "",
+    issues: decoded.issues,
+  };
+}
+
+/** Parámetros que cambian entre el diseño actual y el importado */
+export function diffParams(current: LegParams, incoming: LegParams): ParamDiff[] {
+  return PARAM_KEYS.filter((key) => Math.abs(current[key] - incoming[key]) > 1e-6).map(
+    (key) => ({ key, current: current[key], incoming: incoming[key] })
+  );
+}
@@ -0,0 +1,158 @@
+// src/lib/designLibrary.ts
+// Biblioteca de diseños guardados: varias configuraciones de LegParams con
+// nombre, fecha, modelo usado, miniatura del canvas y línea de tiempo. Los
+// diseños bilaterales guardan también la pierna derecha y su configuración.
+import type { BilateralConfig, LegParams } from "@/lib/types";
+import { hasKeyframes, parseTimeline, type Timeline } from "@/lib/timeline";
+import {
+  PARAMS_SCHEMA_VERSION,
+  decodeParamsValue,
+} from "@/lib/paramsStorage";
+import { decodeBilateral } from "@/lib/paramStore";
+
+export const DESIGNS_STORAGE_KEY = "pierna:designs";
+
+export type SavedDesign = {
+  id: string;
+  name: string;
+  /** Versión de esquema de `params` (mismas migraciones que pierna:params) */
+  version: number;
+  params: LegParams;
+  /** Pierna derecha; solo en diseños guardados en modo bilateral */
+  rightParams?: LegParams;
+  bilateral?: BilateralConfig;
+  gltfUrl?: string;
+  /** Miniatura JPEG como data URL */
+  thumbnail?: string;
+  /** Animación propia; solo si tiene keyframes */
+  timeline?: Timeline;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DesignExtra = {
+  gltfUrl?: string;
+  thumbnail?: string;
+  timeline?: Timeline;
+  /** Se guardan ambos o ninguno */
+  rightParams?: LegParams;
+  bilateral?: BilateralConfig;
+};
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createDesign(
+  name: string,
+  params: LegParams,
+  extra: DesignExtra = {}
+): SavedDesign {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    name: name.trim() || "Diseño sin nombre",
+    version: PARAMS_SCHEMA_VERSION,
+    params: { ...params },
+    ...(extra.rightParams && extra.bilateral
+      ? { rightParams: { ...extra.rightParams }, bilateral: { ...extra.bilateral } }
+      : {}),
+    gltfUrl: extra.gltfUrl || undefined,
+    thumbnail: extra.thumbnail,
+    timeline: extra.timeline && hasKeyframes(extra.timeline) ? extra.timeline : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function renameDesign(
+  designs: SavedDesign[],
+  id: string,
+  name: string
+): SavedDesign[] {
+  const trimmed = name.trim();
+  if (!trimmed) return designs;
+  return designs.map((d) =>
+    d.id === id ? { ...d, name: trimmed, updatedAt: new Date().toISOString() } : d
+  );
+}
+
+/** Copia un diseño justo después del original con el sufijo "(copia)" */
+export function duplicateDesign(designs: SavedDesign[], id: string): SavedDesign[] {
+  const index = designs.findIndex((d) => d.id === id);
+  if (index === -1) return designs;
+  const source = designs[index];
+  const copy = createDesign(`${source.name} (copia)`, source.params, {
+    gltfUrl: source.gltfUrl,
+    thumbnail: source.thumbnail,
+    timeline: source.timeline,
+    rightParams: source.rightParams,
+    bilateral: source.bilateral,
+  });
+  return [...designs.slice(0, index + 1), copy, ...designs.slice(index + 1)];
+}
+
+export function deleteDesign(designs: SavedDesign[], id: string): SavedDesign[] {
+  return designs.filter((d) => d.id !== id);
+}
+
+/**
+ * Lee la biblioteca. Cada diseño pasa por las migraciones de LegParams;
+ * los que no se pueden recuperar se descartan y se reportan en `skipped`.
+ */
+export function loadDesigns(
+  storage: Storage,
+  defaults: LegParams
+): { designs: SavedDesign[]; skipped: number } {
+  const raw = storage.getItem(DESIGNS_STORAGE_KEY);
+  if (!raw) return { designs: [], skipped: 0 };
+
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch {
+    return { designs: [], skipped: 1 };
+  }
+  if (!Array.isArray(list)) return { designs: [], skipped: 1 };
+
+  const designs: SavedDesign[] = [];
+  let skipped = 0;
+  for (const item of list) {
+    try {
+      const entry = item as Partial<SavedDesign>;
+      if (typeof entry.id !== "string" || typeof entry.name !== "string") {
+        throw new Error("Diseño sin id o nombre");
+      }
+      const { params } = decodeParamsValue(entry, defaults);
+      const right =
+        entry.rightParams && entry.bilateral
+          ? {
+              rightParams: decodeParamsValue(
+                { version: entry.version, params: entry.rightParams },
+                defaults
+              ).params,
+              bilateral: decodeBilateral(entry.bilateral),
+            }
+          : {};
+      designs.push({
+        id: entry.id,
+        name: entry.name,
+        version: PARAMS_SCHEMA_VERSION,
+        params,
+        ...right,
+        gltfUrl: typeof entry.gltfUrl === "string" ? entry.gltfUrl : undefined,
+        thumbnail: typeof entry.thumbnail === "string" ? entry.thumbnail : undefined,
+        timeline: entry.timeline ? parseTimeline(entry.timeline) : undefined,
+        createdAt: entry.createdAt ?? new Date(0).toISOString(),
+        updatedAt: entry.updatedAt ?? entry.createdAt ?? new Date(0).toISOString(),
+      });
+    } catch {
+      skipped++;
+    }
+  }
+  return { designs, skipped };
+}
+
+export function saveDesigns(storage: Storage, designs: SavedDesign[]) {
+  storage.setItem(DESIGNS_STORAGE_KEY, JSON.stringify(designs));
+}
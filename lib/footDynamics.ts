@@ -0,0 +1,183 @@
+// src/lib/footDynamics.ts
+// Modelo masa–resorte–amortiguador del talón y del arco bajo carga en la fase
+// de apoyo. springStiffness (0..1) se mapea a una rigidez física y
+// dampingFactor (0..1) es la razón de amortiguamiento ζ.
+// Internamente se integra en SI (m, N, s); las compresiones salen en cm.
+import type { LegParams } from "@/lib/types";
+import { DEFAULT_SUBJECT } from "@/lib/subject";
+
+const DEFAULT_BODY_MASS = DEFAULT_SUBJECT.bodyMass;
+
+// Rigidez del talón (N/m) para springStiffness = 0 y 1
+const K_MIN = 35_000;
+const K_MAX = 250_000;
+// El arco es más blando que la almohadilla del talón
+const ARCH_STIFFNESS_RATIO = 0.6;
+// Fracción de la masa corporal que actúa como inercia sobre el pie
+const EFFECTIVE_MASS_FRACTION = 0.1;
+// Compresión máxima como fracción del radio del talón / altura del arco
+const MAX_HEEL_COMPRESSION = 0.4;
+const MAX_ARCH_COMPRESSION = 0.5;
+// Paso de integración: el sistema oscila a ~20 Hz, los frames van a 60 Hz
+const SUB_STEP = 0.001;
+
+export type SpringConstants = {
+  /** Rigidez (N/m) */
+  k: number;
+  /** Coeficiente de amortiguamiento (N·s/m) */
+  c: number;
+  /** Razón de amortiguamiento */
+  zeta: number;
+  /** Frecuencia natural (Hz) */
+  frequency: number;
+  /** Masa efectiva (kg) */
+  mass: number;
+};
+
+export type PadState = {
+  /** Compresión (cm, positiva hacia abajo) */
+  compression: number;
+  /** Velocidad de compresión (cm/s) */
+  velocity: number;
+  /** Fuerza del resorte + amortiguador sobre el suelo (N) */
+  force: number;
+};
+
+export type FootCompression = {
+  heel: PadState;
+  arch: PadState;
+};
+
+export function springConstants(
+  params: LegParams,
+  bodyMass = DEFAULT_BODY_MASS,
+  ratio = 1
+): SpringConstants {
+  const k = (K_MIN + params.springStiffness * (K_MAX - K_MIN)) * ratio;
+  const mass = bodyMass * EFFECTIVE_MASS_FRACTION;
+  const zeta = Math.max(0.02, params.dampingFactor);
+  return {
+    k,
+    c: 2 * zeta * Math.sqrt(k * mass),
+    zeta,
+    frequency: Math.sqrt(k / mass) / (2 * Math.PI),
+    mass,
+  };
+}
+
+/**
+ * Reparto de la carga entre talón y arco: el talón recibe casi todo al
+ * contactar y el antepié/arco al despegar.
+ */
+export function heelShare(stanceProgress: number): number {
+  return Math.max(0, Math.min(1, 1 - stanceProgress * 1.4));
+}
+
+// Una almohadilla: solo empuja (sin tracción) y tiene un tope de compresión
+function createPad(constants: SpringConstants, maxCompressionM: number) {
+  let x = 0;
+  let v = 0;
+  let force = 0;
+
+  const step = (load: number, dt: number) => {
+    const steps = Math.max(1, Math.ceil(dt / SUB_STEP));
+    const h = dt / steps;
+    for (let i = 0; i < steps; i++) {
+      const spring = constants.k * x + constants.c * v;
+      force = x > 0 ? Math.max(0, spring) : 0;
+      const a = (load - force) / constants.mass;
+      // Euler semi-implícito: estable para el paso elegido
+      v += a * h;
+      x += v * h;
+      if (x < 0) {
+        x = 0;
+        v = Math.max(0, v);
+      } else if (x > maxCompressionM) {
+        x = maxCompressionM;
+        v = Math.min(0, v);
+      }
+    }
+  };
+
+  return {
+    step,
+    state: (): PadState => ({ compression: x * 100, velocity: v * 100, force }),
+  };
+}
+
+/**
+ * Resortes de talón y arco de un pie. `step` avanza `dt` segundos con la
+ * carga vertical total sobre el pie (N) y el progreso dentro del apoyo (0..1).
+ */
+export function createFootSpring(params: LegParams, bodyMass = DEFAULT_BODY_MASS) {
+  const heel = createPad(
+    springConstants(params, bodyMass),
+    (params.heelRadius * MAX_HEEL_COMPRESSION) / 100
+  );
+  const arch = createPad(
+    springConstants(params, bodyMass, ARCH_STIFFNESS_RATIO),
+    (params.archHeight * MAX_ARCH_COMPRESSION) / 100
+  );
+
+  return {
+    step(load: number, stanceProgress: number, dt: number): FootCompression {
+      const share = heelShare(stanceProgress);
+      heel.step(load * share, dt);
+      arch.step(load * (1 - share), dt);
+      return { heel: heel.state(), arch: arch.state() };
+    },
+  };
+}
+
+export type CompressionRow = {
+  /** % del ciclo de marcha */
+  pct: number;
+  load: number;
+  heelCompression: number;
+  archCompression: number;
+  heelForce: number;
+  archForce: number;
+  stance: boolean;
+};
+
+/**
+ * Respuesta periódica del pie a lo largo de un ciclo. Se simulan varios
+ * ciclos para llegar al régimen estable y se devuelve el último.
+ */
+export function simulateFootCycle(
+  params: LegParams,
+  options: {
+    cycleSeconds: number;
+    stanceEnd: number;
+    bodyMass?: number;
+    /** Carga vertical (N) en cada punto del ciclo, p. ej. la GRF */
+    load: (cycle: number) => number;
+    samples?: number;
+  }
+): CompressionRow[] {
+  const { cycleSeconds, stanceEnd, load, bodyMass = DEFAULT_BODY_MASS, samples = 100 } = options;
+  const spring = createFootSpring(params, bodyMass);
+  const dt = cycleSeconds / samples;
+  const rows: CompressionRow[] = [];
+
+  for (let cycle = 0; cycle < 3; cycle++) {
+    for (let i = 0; i < samples; i++) {
+      const progress = i / samples;
+      const stance = progress < stanceEnd;
+      const f = load(progress);
+      const state = spring.step(f, stance ? progress / stanceEnd : 1, dt);
+      if (cycle === 2) {
+        rows.push({
+          pct: progress * 100,
+          load: f,
+          heelCompression: state.heel.compression,
+          archCompression: state.arch.compression,
+          heelForce: state.heel.force,
+          archForce: state.arch.force,
+          stance,
+        });
+      }
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,34 @@
+// src/lib/gait.ts
+// Tiempos del ciclo de marcha compartidos por la animación, la grabación y
+// los modelos dinámicos (resortes del pie).
+
+/** Ciclos por animación; la duración de cada uno sale de la cadencia del sujeto */
+export const WALK_CYCLES = 2;
+
+/**
+ * Fin de cada fase de contacto como fracción del ciclo; después, balanceo.
+ * Valores de marcha normal: el pie apoya ~60 % del ciclo y balancea ~40 %.
+ */
+export const GAIT_TIMINGS = {
+  heelStrike: 0.1,
+  footFlat: 0.3,
+  heelRise: 0.5,
+  toeOff: 0.6,
+};
+
+/** Fracción del ciclo con el pie apoyado */
+export const STANCE_END = GAIT_TIMINGS.toeOff;
+
+/** Cadencia (pasos/min) a la que corresponden GAIT_TIMINGS */
+export const REFERENCE_CADENCE = 105;
+
+/**
+ * Fin del apoyo a otra cadencia: al caminar más rápido el apoyo ocupa menos
+ * parte del ciclo (~62 % a 80 pasos/min, ~58 % a 130). Los perfiles sin
+ * balanceo (apoyo en todo el ciclo) no cambian.
+ */
+export function stanceAtCadence(stanceEnd: number, cadence: number): number {
+  if (stanceEnd <= 0 || stanceEnd >= 1) return stanceEnd;
+  const scaled = stanceEnd * (1 - 0.0017 * (cadence - REFERENCE_CADENCE));
+  return Math.max(0.05, Math.min(0.95, scaled));
+}
@@ -0,0 +1,202 @@
+// src/lib/gaitEngine.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import { GAIT_TIMINGS, REFERENCE_CADENCE } from "@/lib/gait";
+import { JOINT_PROFILES, anatomicalAngles } from "@/lib/joints";
+import { DEFAULT_SUBJECT } from "@/lib/subject";
+import {
+  GAIT_PROFILES,
+  createGait,
+  gaitContact,
+  gaitStanceEnd,
+  phaseAt,
+  profileContact,
+  sampleTrack,
+  simulateGait,
+  stanceEnd,
+  type GaitProfile,
+  type GaitRunOptions,
+} from "@/lib/gaitEngine";
+
+const start = { left: defaultParams, right: defaultParams };
+
+const options: GaitRunOptions = {
+  jointProfile: JOINT_PROFILES.human,
+  subject: { ...DEFAULT_SUBJECT, cadence: REFERENCE_CADENCE },
+  twoLegs: true,
+  groundContact: false,
+};
+
+// Rodilla lineal de 0° a 40° en un ciclo de 1 s, sin suavizado
+const linearKnee: GaitProfile = {
+  id: "test",
+  label: "Prueba",
+  phases: [
+    { phase: "foot-flat", end: 0.5 },
+    { phase: "swing", end: 1 },
+  ],
+  tracks: {
+    knee: [
+      { at: 0, value: 0 },
+      { at: 1, value: 40 },
+    ],
+  },
+  smoothing: 1,
+  cycleSeconds: 1,
+};
+
+describe("phaseAt / stanceEnd", () => {
+  const walk = GAIT_PROFILES.walk;
+
+  it("cambia de fase al final de cada tramo de contacto", () => {
+    expect(phaseAt(walk, 0)).toBe("heel-strike");
+    expect(phaseAt(walk, GAIT_TIMINGS.heelStrike)).toBe("heel-strike");
+    expect(phaseAt(walk, GAIT_TIMINGS.heelStrike + 0.01)).toBe("foot-flat");
+    expect(phaseAt(walk, GAIT_TIMINGS.heelRise + 0.01)).toBe("toe-off");
+    expect(phaseAt(walk, GAIT_TIMINGS.toeOff + 0.01)).toBe("swing");
+    expect(phaseAt(walk, 1)).toBe("swing");
+  });
+
+  it("termina el apoyo en el despegue", () => {
+    expect(stanceEnd(walk)).toBe(GAIT_TIMINGS.toeOff);
+  });
+
+  it("solo cuenta el primer bloque de apoyo", () => {
+    expect(
+      stanceEnd({
+        phases: [
+          { phase: "foot-flat", end: 0.3 },
+          { phase: "swing", end: 0.6 },
+          { phase: "heel-strike", end: 1 },
+        ],
+      })
+    ).toBe(0.3);
+  });
+
+  it("acorta el apoyo al subir la cadencia salvo con ciclo fijo", () => {
+    const at = (cadence: number) => gaitStanceEnd(walk, { ...DEFAULT_SUBJECT, cadence });
+    expect(at(REFERENCE_CADENCE)).toBeCloseTo(GAIT_TIMINGS.toeOff);
+    expect(at(130)).toBeLessThan(at(REFERENCE_CADENCE));
+    expect(at(80)).toBeGreaterThan(at(REFERENCE_CADENCE));
+    const sixPhase = GAIT_PROFILES["six-phase"];
+    expect(gaitStanceEnd(sixPhase, { ...DEFAULT_SUBJECT, cadence: 130 })).toBe(stanceEnd(sixPhase));
+  });
+});
+
+describe("profileContact / gaitContact", () => {
+  it("une los bloques de apoyo seguidos y salta el balanceo", () => {
+    const contact = profileContact({
+      phases: [
+        { phase: "foot-flat", end: 0.2 },
+        { phase: "toe-off", end: 0.3 },
+        { phase: "swing", end: 0.6 },
+        { phase: "heel-strike", end: 1 },
+      ],
+    });
+    expect(contact.map((c) => [c.start, c.end])).toEqual([
+      [0, 0.3],
+      [0.6, 1],
+    ]);
+  });
+
+  it("estira los tramos con el apoyo a la cadencia", () => {
+    const walk = GAIT_PROFILES.walk;
+    const subject = { ...DEFAULT_SUBJECT, cadence: 130 };
+    const [span] = gaitContact(walk, subject);
+    expect(span.start).toBe(0);
+    expect(span.end).toBeCloseTo(gaitStanceEnd(walk, subject));
+  });
+});
+
+describe("sampleTrack", () => {
+  const track = [
+    { at: 0.2, value: 10 },
+    { at: 0.6, value: 30 },
+    { at: 1, value: "start" as const, ease: "step" as const },
+  ];
+
+  it("interpola linealmente entre keyframes", () => {
+    expect(sampleTrack(track, 0.4, 0)).toBeCloseTo(20);
+  });
+
+  it("mantiene el valor fuera de los extremos", () => {
+    expect(sampleTrack(track, 0, 0)).toBe(10);
+    expect(sampleTrack(track, 1.2, 5)).toBe(5);
+  });
+
+  it("resuelve 'start' con la pose inicial y salta en los tramos step", () => {
+    expect(sampleTrack(track, 0.61, 5)).toBe(5);
+  });
+
+  it("las transiciones suaves pasan por el punto medio", () => {
+    const eased = [
+      { at: 0, value: 0 },
+      { at: 1, value: 10, ease: "ease" as const },
+    ];
+    expect(sampleTrack(eased, 0.5, 0)).toBeCloseTo(5);
+    expect(sampleTrack(eased, 0.25, 0)).toBeLessThan(2.5);
+  });
+});
+
+describe("createGait", () => {
+  it("sigue las curvas del perfil frame a frame", () => {
+    const gait = createGait(start, linearKnee, options);
+    let current = start;
+    for (const time of [0.1, 0.25, 0.5]) {
+      const frame = gait.frame(current, time);
+      current = { left: frame.left, right: frame.right ?? current.right };
+      expect(anatomicalAngles(frame.left).knee).toBeCloseTo(40 * time);
+    }
+  });
+
+  it("desfasa media zancada la pierna derecha", () => {
+    const frame = createGait(start, linearKnee, options).frame(start, 0.1);
+    expect(frame.sample.left.cycle).toBeCloseTo(0.1);
+    expect(frame.sample.right?.cycle).toBeCloseTo(0.6);
+    expect(frame.sample.left.phase).toBe("foot-flat");
+    expect(frame.sample.right?.phase).toBe("swing");
+  });
+
+  it("sin modo bilateral no anima la derecha", () => {
+    const frame = createGait(start, linearKnee, { ...options, twoLegs: false }).frame(start, 0.1);
+    expect(frame.right).toBeNull();
+    expect(frame.sample.right).toBeUndefined();
+  });
+});
+
+describe("simulateGait", () => {
+  const simulate = (profile: GaitProfile, cycles: number, fps = 60) =>
+    simulateGait(start, profile, { ...options, cycles, pelvisWidth: 20, fps });
+
+  it("genera los frames de los ciclos pedidos", () => {
+    const samples = simulate(linearKnee, 3, 30);
+    expect(samples).toHaveLength(90);
+    expect(samples[0].time).toBe(0);
+    expect(samples[samples.length - 1].time).toBeCloseTo(89 / 30);
+    // El ciclo de la izquierda vuelve a 0 al empezar cada ciclo nuevo
+    const wraps = samples.filter((s, i) => i > 0 && s.left.cycle < samples[i - 1].left.cycle);
+    expect(wraps).toHaveLength(2);
+  });
+
+  it("la duración sale de la cadencia si el perfil no la fija", () => {
+    const samples = simulate(GAIT_PROFILES.walk, 2);
+    const cycle = 120 / options.subject.cadence;
+    expect(samples).toHaveLength(Math.round(cycle * 2 * 60));
+  });
+
+  it("la marcha humana llega a extender la cadera", () => {
+    const samples = simulate(GAIT_PROFILES.walk, 2);
+    const hips = samples.map((s) => anatomicalAngles(s.left.params).hip);
+    expect(Math.min(...hips)).toBeLessThan(0);
+  });
+
+  it("las fases grabadas coinciden con el fin del apoyo a la cadencia", () => {
+    const fast = { ...options, subject: { ...DEFAULT_SUBJECT, cadence: 130 } };
+    const samples = simulateGait(start, GAIT_PROFILES.walk, { ...fast, cycles: 1, pelvisWidth: 20 });
+    const end = samples[0].left.contact[0].end;
+    expect(end).toBeLessThan(GAIT_TIMINGS.toeOff);
+    for (const s of samples) {
+      expect(s.left.phase === "swing").toBe(s.left.cycle > end);
+    }
+  });
+});
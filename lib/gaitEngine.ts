@@ -0,0 +1,520 @@
+// src/lib/gaitEngine.ts
+// Motor de marcha único. Un perfil describe de forma declarativa las fases de
+// contacto y las curvas (keyframes) de cada canal a lo largo del ciclo; el
+// motor las muestrea frame a frame, limita las articulaciones al perfil
+// articular, suaviza y apoya en el suelo. La compresión de los resortes del
+// pie bajo la carga la aplica el modelo 3D al dibujar (GLTFModel).
+// La animación de la página y `simulateGait` (grabaciones sin tiempo real,
+// exportaciones) comparten este mismo camino. Las demás actividades (correr,
+// escaleras, sentadilla, salto, patada) son perfiles generados en
+// lib/activities.
+//
+// Los canales de articulación usan ángulos anatómicos (lib/joints): flexión
+// de cadera y rodilla y plantarflexión del tobillo, en grados.
+import type { GaitPhase, LegPair, LegParams, LegSide } from "@/lib/types";
+import { clampParam } from "@/lib/paramRegistry";
+import {
+  anatomicalAngles,
+  constrainToProfile,
+  fromAnatomical,
+  type JointId,
+  type JointProfile,
+} from "@/lib/joints";
+import { groundContactShift, placeOnGround } from "@/lib/groundContact";
+import { GAIT_TIMINGS, stanceAtCadence } from "@/lib/gait";
+import type { GroundContact } from "@/lib/groundReaction";
+import { cycleSeconds, type Subject } from "@/lib/subject";
+import type { LegSample, MotionSample } from "@/lib/motionRecorder";
+
+export type Ease = "linear" | "ease" | "cubic" | "step";
+
+/** "start" = el valor de la pose con la que empieza la animación */
+export type KeyValue = number | "start";
+
+/** `ease` es la transición desde el keyframe anterior hasta este */
+export type Keyframe = { at: number; value: KeyValue; ease?: Ease };
+
+export type GaitChannel = JointId | "stepAngle" | "verticalShift";
+
+export type GaitProfileId = "walk" | "six-phase";
+
+export type GaitTracks = Partial<Record<GaitChannel, Keyframe[]>>;
+
+export type GaitPhases = { phase: GaitPhase; end: number }[];
+
+export type GaitProfile = {
+  id: string;
+  label: string;
+  /** Fin de cada fase (fracción del ciclo), en orden; la última termina en 1 */
+  phases: GaitPhases;
+  /** Curvas por canal; un canal sin curva mantiene la pose inicial */
+  tracks: GaitTracks;
+  /** Desfase de la pierna derecha (fracción del ciclo); 0.5 por defecto, 0 = a la vez */
+  legOffset?: number;
+  /**
+   * Tramos de apoyo y su carga (GRF); por defecto cada bloque de fases de
+   * apoyo con la curva de la marcha
+   */
+  contact?: GroundContact;
+  /** Fases, curvas y apoyo propios de la pierna derecha (p. ej. la de apoyo al patear), sin desfase */
+  support?: { phases: GaitPhases; tracks: GaitTracks; contact?: GroundContact };
+  /** Elevación del cuerpo (cm) sobre la que deja el contacto con el suelo: vuelo al saltar o correr */
+  lift?: Keyframe[];
+  /** Fases en que el pie queda plantado: el tobillo se fija y el arco baja */
+  footLock?: { phases: GaitPhase[]; archDrop: number };
+  /** Fracción del camino hacia el objetivo por frame (1 = sin suavizado) */
+  smoothing: number;
+  /** Duración fija del ciclo (s); por defecto sale de la cadencia del sujeto */
+  cycleSeconds?: number;
+};
+
+const EASINGS: Record<Ease, (t: number) => number> = {
+  linear: (t) => t,
+  ease: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  cubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  // Salta al valor del keyframe al empezar el tramo
+  step: () => 1,
+};
+
+export const GAIT_PROFILES: Record<GaitProfileId, GaitProfile> = {
+  walk: {
+    id: "walk",
+    label: "Marcha",
+    phases: [
+      { phase: "heel-strike", end: GAIT_TIMINGS.heelStrike },
+      { phase: "foot-flat", end: GAIT_TIMINGS.footFlat },
+      { phase: "heel-rise", end: GAIT_TIMINGS.heelRise },
+      { phase: "toe-off", end: GAIT_TIMINGS.toeOff },
+      { phase: "swing", end: 1 },
+    ],
+    tracks: {
+      hip: [
+        { at: 0, value: 0 },
+        { at: 0.25, value: -8, ease: "ease" },
+        { at: 0.75, value: 8, ease: "ease" },
+        { at: 1, value: 0, ease: "ease" },
+      ],
+      // Flexión máxima a mitad del balanceo
+      knee: [
+        { at: 0, value: "start" },
+        { at: GAIT_TIMINGS.heelStrike, value: "start" },
+        { at: GAIT_TIMINGS.toeOff, value: 40, ease: "ease" },
+        { at: 0.73, value: 70, ease: "ease" },
+        { at: 1, value: "start", ease: "ease" },
+      ],
+      // Dorsiflexión ligera al contactar, plantarflexión fuerte al despegar y
+      // vuelta a neutro en el balanceo para no arrastrar los dedos
+      ankle: [
+        { at: 0, value: "start" },
+        { at: GAIT_TIMINGS.heelStrike, value: -6, ease: "ease" },
+        { at: GAIT_TIMINGS.footFlat, value: 6, ease: "ease" },
+        { at: GAIT_TIMINGS.heelRise, value: 10, ease: "ease" },
+        { at: GAIT_TIMINGS.toeOff, value: 40, ease: "ease" },
+        { at: 0.8, value: "start", ease: "ease" },
+        { at: 1, value: "start" },
+      ],
+      stepAngle: [
+        { at: 0, value: 12 },
+        { at: 0.5, value: -12, ease: "ease" },
+        { at: 1, value: 12, ease: "ease" },
+      ],
+      verticalShift: [
+        { at: 0, value: 0 },
+        { at: 0.25, value: 0 },
+        { at: 0.75, value: 8, ease: "ease" },
+        { at: 1, value: 0, ease: "ease" },
+      ],
+    },
+    footLock: { phases: ["foot-flat", "heel-rise"], archDrop: 1.4 },
+    smoothing: 0.14,
+  },
+  // Curvas del antiguo WalkingAnimator: seis tramos y ciclo fijo de 2 s
+  "six-phase": {
+    id: "six-phase",
+    label: "Marcha en seis tramos",
+    phases: [
+      { phase: "heel-strike", end: 0.1 },
+      { phase: "foot-flat", end: 0.3 },
+      { phase: "toe-off", end: 0.5 },
+      { phase: "swing", end: 1 },
+    ],
+    tracks: {
+      hip: [
+        { at: 0, value: -10 },
+        { at: 0.1, value: -5, ease: "cubic" },
+        { at: 0.3, value: 10, ease: "cubic" },
+        { at: 0.5, value: 20, ease: "cubic" },
+        { at: 0.65, value: 30, ease: "cubic" },
+        { at: 0.85, value: 10, ease: "cubic" },
+        { at: 1, value: -10, ease: "cubic" },
+      ],
+      knee: [
+        { at: 0, value: 5 },
+        { at: 0.1, value: 10 },
+        { at: 0.3, value: 15, ease: "ease" },
+        { at: 0.5, value: 40, ease: "ease" },
+        { at: 0.65, value: 70, ease: "ease" },
+        { at: 0.85, value: 50, ease: "ease" },
+        { at: 1, value: 5, ease: "ease" },
+      ],
+      ankle: [
+        { at: 0, value: -5 },
+        { at: 0.1, value: 0 },
+        { at: 0.3, value: 10 },
+        { at: 0.5, value: 20 },
+        { at: 0.65, value: 10 },
+        { at: 0.85, value: -5 },
+        { at: 1, value: -5 },
+      ],
+      stepAngle: [
+        { at: 0, value: -5 },
+        { at: 0.1, value: 0 },
+        { at: 0.3, value: 3 },
+        { at: 0.5, value: 10 },
+        { at: 0.65, value: 5 },
+        { at: 0.85, value: 0 },
+        { at: 1, value: -5 },
+      ],
+      verticalShift: [
+        { at: 0, value: 0 },
+        { at: 0.1, value: 0.5 },
+        { at: 0.3, value: 1 },
+        { at: 0.5, value: 2 },
+        { at: 0.65, value: 4 },
+        { at: 0.85, value: 2 },
+        { at: 1, value: 0 },
+      ],
+    },
+    smoothing: 1,
+    cycleSeconds: 2,
+  },
+};
+
+export const GAIT_PROFILE_IDS = Object.keys(GAIT_PROFILES) as GaitProfileId[];
+
+/** Valor de una curva en `cycle` (0..1); fuera de los extremos se mantiene */
+export function sampleTrack(track: Keyframe[], cycle: number, start: number): number {
+  const value = (key: Keyframe) => (key.value === "start" ? start : key.value);
+  if (track.length === 0) return start;
+  if (cycle <= track[0].at) return value(track[0]);
+  for (let i = 1; i < track.length; i++) {
+    const key = track[i];
+    if (cycle <= key.at) {
+      const prev = track[i - 1];
+      const t = (cycle - prev.at) / Math.max(1e-6, key.at - prev.at);
+      const eased = EASINGS[key.ease ?? "linear"](t);
+      return value(prev) + (value(key) - value(prev)) * eased;
+    }
+  }
+  return value(track[track.length - 1]);
+}
+
+export function phaseAt(profile: GaitProfile, cycle: number): GaitPhase {
+  const found = profile.phases.find((p) => cycle <= p.end);
+  return (found ?? profile.phases[profile.phases.length - 1]).phase;
+}
+
+/**
+ * Fin del apoyo con que empieza el ciclo: el despegue que se ajusta a la
+ * cadencia. Los demás tramos de apoyo (p. ej. la recepción de un salto) están
+ * en `profileContact`.
+ */
+export function stanceEnd(profile: Pick<GaitProfile, "phases">): number {
+  let end = 0;
+  for (const p of profile.phases) {
+    if (p.phase === "swing") break;
+    end = p.end;
+  }
+  return end;
+}
+
+export function profileCycleSeconds(profile: GaitProfile, subject: Subject): number {
+  return profile.cycleSeconds ?? cycleSeconds(subject);
+}
+
+/**
+ * Fin del apoyo durante la animación: el del perfil, ajustado a la cadencia
+ * del sujeto cuando el ciclo sale de ella.
+ */
+export function gaitStanceEnd(profile: GaitProfile, subject: Subject): number {
+  const end = stanceEnd(profile);
+  return profile.cycleSeconds ? end : stanceAtCadence(end, subject.cadence);
+}
+
+/** Ciclo del perfil para un ciclo real cuyo apoyo termina en `stance` */
+function profileCycle(cycle: number, stance: number, profileStance: number): number {
+  if (stance === profileStance) return cycle;
+  return cycle < stance
+    ? (cycle / stance) * profileStance
+    : profileStance + ((cycle - stance) / (1 - stance)) * (1 - profileStance);
+}
+
+/**
+ * Tramos de apoyo del perfil en su propio ciclo: los declarados o, si no,
+ * cada bloque seguido de fases de apoyo con la carga de la marcha.
+ */
+export function profileContact(profile: Pick<GaitProfile, "phases" | "contact">): GroundContact {
+  if (profile.contact) return profile.contact;
+  const contact: GroundContact = [];
+  let start = 0;
+  for (const p of profile.phases) {
+    if (p.phase === "swing") {
+      start = p.end;
+      continue;
+    }
+    const last = contact[contact.length - 1];
+    if (last && last.end === start) last.end = p.end;
+    else contact.push({ start, end: p.end, load: { kind: "gait" } });
+    start = p.end;
+  }
+  return contact;
+}
+
+/**
+ * Tramos de apoyo durante la animación, estirados como las fases para que el
+ * primer despegue coincida con el fin del apoyo a la cadencia del sujeto.
+ */
+export function gaitContact(profile: GaitProfile, subject: Subject): GroundContact {
+  const profileStance = stanceEnd(profile);
+  const stance = gaitStanceEnd(profile, subject);
+  const contact = profileContact(profile);
+  if (stance === profileStance) return contact;
+  // Inversa de profileCycle
+  const real = (at: number) =>
+    at <= profileStance
+      ? (at / profileStance) * stance
+      : stance + ((at - profileStance) / (1 - profileStance)) * (1 - stance);
+  return contact.map((c) => ({ ...c, start: real(c.start), end: real(c.end) }));
+}
+
+// Cuánto se acerca el tobillo a la pose de contacto con el pie plantado
+const PLANT_SNAP = 0.92;
+const MIN_CONTACT_ARCH = 2;
+// La cadera sigue más despacio que el resto
+const HIP_SMOOTHING = 0.6;
+
+export type GaitOptions = {
+  jointProfile: JointProfile;
+  subject: Subject;
+};
+
+/**
+ * Una pierna: `step` avanza un frame con el progreso del ciclo de ESA pierna
+ * y `restore` vuelve suavemente a la pose inicial. `phase`/`inStance`
+ * exponen la fase actual (grabación y contacto con el suelo).
+ */
+export function createGaitLeg(startParams: LegParams, profile: GaitProfile, options: GaitOptions) {
+  const { jointProfile, subject } = options;
+  // Las fases y curvas del perfil se estiran para que el despegue coincida
+  // con el fin del apoyo a esta cadencia
+  const profileStance = stanceEnd(profile);
+  const stance = gaitStanceEnd(profile, subject);
+  const contact = gaitContact(profile, subject);
+  const startAngles = anatomicalAngles(startParams);
+  const state = {
+    phase: profile.phases[0].phase,
+    // Tobillo fijado al plantar el pie
+    lockedAnkle: null as number | null,
+    // Arco del pie plantado (suavizado)
+    nominalArch: startParams.archHeight,
+  };
+
+  const sample = (channel: GaitChannel, cycle: number, start: number) => {
+    const track = profile.tracks[channel];
+    return track ? sampleTrack(track, cycle, start) : start;
+  };
+
+  const step = (prev: LegParams, realProgress: number): LegParams => {
+    const cycleProgress = profileCycle(realProgress, stance, profileStance);
+    state.phase = phaseAt(profile, cycleProgress);
+
+    let ankle = sample("ankle", cycleProgress, startAngles.ankle);
+    let arch = startParams.archHeight;
+    const lock = profile.footLock;
+    if (lock && lock.phases.includes(state.phase)) {
+      // Al plantar se fija el tobillo en la pose de contacto
+      state.lockedAnkle ??= ankle;
+      ankle += (state.lockedAnkle - ankle) * PLANT_SNAP;
+      const contactArch = Math.max(MIN_CONTACT_ARCH, startParams.archHeight - lock.archDrop);
+      arch += (contactArch - arch) * PLANT_SNAP;
+    } else {
+      state.lockedAnkle = null;
+    }
+
+    // Las articulaciones se limitan al perfil activo (ROM y colisiones)
+    const target = constrainToProfile(
+      {
+        ...prev,
+        hipAngle: fromAnatomical("hip", sample("hip", cycleProgress, startAngles.hip)),
+        kneeAngle: fromAnatomical("knee", sample("knee", cycleProgress, startAngles.knee)),
+        ankleAngle: fromAnatomical("ankle", ankle),
+      },
+      jointProfile
+    ).params;
+
+    const s = profile.smoothing;
+    state.nominalArch += (clampParam("archHeight", arch) - state.nominalArch) * Math.min(1, s * 1.1);
+
+    const toward = (from: number, to: number, t: number) => from + (to - from) * t;
+    return {
+      ...prev,
+      ankleAngle: toward(prev.ankleAngle, target.ankleAngle, s),
+      kneeAngle: toward(prev.kneeAngle, target.kneeAngle, s),
+      hipAngle: toward(prev.hipAngle, target.hipAngle, s * HIP_SMOOTHING),
+      stepAngle: toward(
+        prev.stepAngle,
+        clampParam("stepAngle", sample("stepAngle", cycleProgress, startParams.stepAngle)),
+        s
+      ),
+      verticalShift: toward(
+        prev.verticalShift,
+        sample("verticalShift", cycleProgress, startParams.verticalShift),
+        s
+      ),
+      archHeight: clampParam("archHeight", state.nominalArch),
+    };
+  };
+
+  const restore = (prev: LegParams, eased: number): LegParams => {
+    const toward = (key: keyof LegParams) => prev[key] + (startParams[key] - prev[key]) * eased;
+    return {
+      ...prev,
+      kneeAngle: toward("kneeAngle"),
+      ankleAngle: toward("ankleAngle"),
+      hipAngle: toward("hipAngle"),
+      stepAngle: toward("stepAngle"),
+      verticalShift: toward("verticalShift"),
+      archHeight: toward("archHeight"),
+      heelRadius: toward("heelRadius"),
+    };
+  };
+
+  // El pie apoya desde el contacto del talón hasta el despegue
+  const inStance = () => state.phase !== "swing";
+  const phase = () => state.phase;
+
+  return { step, restore, inStance, phase, contact };
+}
+
+export type GaitRunOptions = GaitOptions & {
+  /** Animar también la pierna derecha, media zancada desfasada */
+  twoLegs: boolean;
+  /** Ajustar la elevación para que el pie de apoyo toque el suelo */
+  groundContact: boolean;
+};
+
+export type GaitFrame = {
+  left: LegParams;
+  /** null sin modo bilateral */
+  right: LegParams | null;
+  sample: { left: LegSample; right?: LegSample };
+};
+
+/** Perfil que sigue cada pierna: la derecha usa el de apoyo si lo hay */
+export function sideProfile(profile: GaitProfile, side: LegSide): GaitProfile {
+  if (side === "left" || !profile.support) return profile;
+  return { ...profile, contact: undefined, ...profile.support, footLock: undefined };
+}
+
+/**
+ * Ambas piernas de una animación. `frame` avanza con el tiempo (s) desde el
+ * inicio a partir de la pose actual; `restore` mezcla hacia la pose inicial.
+ */
+export function createGait(start: LegPair, profile: GaitProfile, options: GaitRunOptions) {
+  const left = createGaitLeg(start.left, profile, options);
+  const right = createGaitLeg(start.right, sideProfile(profile, "right"), options);
+  const cycle = profileCycleSeconds(profile, options.subject);
+  const offset = profile.support ? 0 : profile.legOffset ?? 0.5;
+
+  // La elevación se suma después del contacto con el suelo; se descuenta la
+  // del frame anterior para que el suavizado de cada pierna no la acumule
+  let lastLift = 0;
+  const lifted = (params: LegParams, lift: number) =>
+    lift === 0
+      ? params
+      : { ...params, verticalShift: clampParam("verticalShift", params.verticalShift + lift) };
+
+  // Contacto con el suelo: la cadera baja hasta el pie de apoyo más bajo.
+  // Si ninguno apoya (balanceo de una sola pierna) se mantiene la altura.
+  let groundShift: number | null = null;
+  const ground = (
+    nextLeft: LegParams,
+    nextRight: LegParams | null,
+    stance = { left: true, right: true }
+  ) => {
+    if (!options.groundContact) return { left: nextLeft, right: nextRight };
+    const support = [
+      ...(stance.left ? [nextLeft] : []),
+      ...(nextRight && stance.right ? [nextRight] : []),
+    ];
+    if (support.length > 0) groundShift = groundContactShift(support);
+    if (groundShift == null) return { left: nextLeft, right: nextRight };
+    return {
+      left: placeOnGround(nextLeft, groundShift),
+      right: nextRight && placeOnGround(nextRight, groundShift),
+    };
+  };
+
+  return {
+    cycleSeconds: cycle,
+    frame(current: LegPair, time: number): GaitFrame {
+      const leftCycle = (time % cycle) / cycle;
+      const rightCycle = (leftCycle + offset) % 1;
+      const nextLeft = left.step(lifted(current.left, -lastLift), leftCycle);
+      const nextRight = options.twoLegs ? right.step(lifted(current.right, -lastLift), rightCycle) : null;
+      const grounded = ground(nextLeft, nextRight, {
+        left: left.inStance(),
+        right: right.inStance(),
+      });
+      lastLift = profile.lift ? sampleTrack(profile.lift, leftCycle, 0) : 0;
+      const legs = {
+        left: lifted(grounded.left, lastLift),
+        right: grounded.right && lifted(grounded.right, lastLift),
+      };
+      return {
+        ...legs,
+        sample: {
+          left: { params: legs.left, phase: left.phase(), cycle: leftCycle, contact: left.contact },
+          right: legs.right
+            ? { params: legs.right, phase: right.phase(), cycle: rightCycle, contact: right.contact }
+            : undefined,
+        },
+      };
+    },
+    restore(current: LegPair, eased: number) {
+      const lift = lastLift;
+      lastLift = 0;
+      return ground(
+        left.restore(lifted(current.left, -lift), eased),
+        options.twoLegs ? right.restore(lifted(current.right, -lift), eased) : null
+      );
+    },
+  };
+}
+
+/**
+ * Marcha completa sin tiempo real, a `fps` fijos: las mismas muestras que
+ * graba la animación de la página.
+ */
+export function simulateGait(
+  start: LegPair,
+  profile: GaitProfile,
+  options: GaitRunOptions & { cycles: number; pelvisWidth: number; fps?: number }
+): MotionSample[] {
+  const gait = createGait(start, profile, options);
+  const fps = options.fps ?? 60;
+  const frames = Math.round(gait.cycleSeconds * options.cycles * fps);
+  const samples: MotionSample[] = [];
+  let current = start;
+  for (let i = 0; i < frames; i++) {
+    const time = i / fps;
+    const next = gait.frame(current, time);
+    current = { left: next.left, right: next.right ?? current.right };
+    samples.push({
+      time,
+      ...next.sample,
+      pelvisWidth: options.pelvisWidth,
+    });
+  }
+  return samples;
+}
@@ -0,0 +1,168 @@
+// src/lib/gltfAnimation.ts
+// Horneado de LegParams animados en un AnimationClip sobre el esqueleto del
+// modelo glTF cargado y exportación del modelo con el clip como GLB.
+// GLTFModel registra su modelo al cargarse (como CanvasScene registra el
+// canvas en lib/canvasCapture). Cada frame se posa una copia del modelo con
+// applyLegPose (lib/legRig), la misma función que usa GLTFModel, y se
+// muestrean las transformaciones del nodo raíz y de los huesos.
+import * as THREE from "three";
+import { GLTFExporter, SkeletonUtils } from "three-stdlib";
+import type { LegParams } from "@/lib/types";
+import type { MotionSample } from "@/lib/motionRecorder";
+import { evaluateTimeline, type Timeline } from "@/lib/timeline";
+import { applyLegPose, type LegBones, type LegRig } from "@/lib/legRig";
+import { createFootSpring, type FootCompression } from "@/lib/footDynamics";
+import { footLoad } from "@/lib/groundReaction";
+import type { Subject } from "@/lib/subject";
+
+/** Modelo de GLTFModel: su escena y los datos de LegRig salvo el grupo raíz */
+export type BakeRig = Omit<LegRig, "root"> & {
+  /** Escena del glTF tal como la muestra GLTFModel */
+  scene: THREE.Object3D;
+};
+
+export type BakeFrame = { time: number; params: LegParams; compression?: FootCompression };
+
+/** Nodo que envuelve al modelo exportado y lleva la traslación */
+export const ROOT_NODE_NAME = "PiernaRaiz";
+
+export const BAKE_FPS = 30;
+
+let rig: BakeRig | null = null;
+
+export function registerBakeRig(next: BakeRig | null) {
+  rig = next;
+}
+
+export function getBakeRig(): BakeRig | null {
+  return rig;
+}
+
+/** Recorre dos jerarquías idénticas (original y copia) a la vez */
+function pairNodes(a: THREE.Object3D, b: THREE.Object3D, map: Map<THREE.Object3D, THREE.Object3D>) {
+  map.set(a, b);
+  a.children.forEach((child, i) => pairNodes(child, b.children[i], map));
+}
+
+/** Copia del modelo bajo un nodo raíz, con los huesos de la copia */
+function cloneRig(target: BakeRig): LegRig {
+  const root = new THREE.Group();
+  root.name = ROOT_NODE_NAME;
+  const scene = SkeletonUtils.clone(target.scene);
+  root.add(scene);
+
+  const map = new Map<THREE.Object3D, THREE.Object3D>();
+  pairNodes(target.scene, scene, map);
+  const find = (bone: THREE.Bone | null) => (bone ? ((map.get(bone) as THREE.Bone) ?? null) : null);
+  const bones: LegBones = {
+    hip: find(target.bones.hip),
+    knee: find(target.bones.knee),
+    ankle: find(target.bones.ankle),
+    foot: find(target.bones.foot),
+    thigh: find(target.bones.thigh),
+    calf: find(target.bones.calf),
+    toes: target.bones.toes.map(find).filter((b): b is THREE.Bone => b !== null),
+    heel: find(target.bones.heel),
+  };
+  return { ...target, root, bones };
+}
+
+/** Compresión del pie frame a frame bajo la carga de cada uno (como GLTFModel) */
+function withCompression(
+  frames: BakeFrame[],
+  loads: ReturnType<typeof footLoad>[],
+  subject: Subject
+): BakeFrame[] {
+  if (frames.length === 0) return frames;
+  const spring = createFootSpring(frames[0].params, subject.bodyMass);
+  return frames.map((frame, i) => {
+    const dt = i === 0 ? 0 : frame.time - frames[i - 1].time;
+    const compression = spring.step(loads[i].vertical, loads[i].stanceProgress, dt);
+    return { ...frame, compression };
+  });
+}
+
+/** Frames de la última marcha grabada (pierna izquierda), desde t = 0 */
+export function framesFromRecording(samples: MotionSample[], subject: Subject): BakeFrame[] {
+  if (samples.length === 0) return [];
+  const start = samples[0].time;
+  return withCompression(
+    samples.map((s) => ({ time: s.time - start, params: s.left.params })),
+    samples.map((s) => footLoad(s.left.cycle, subject, s.left.contact)),
+    subject
+  );
+}
+
+/** Frames de la línea de tiempo a `fps` fijos sobre la pose `base`, de pie */
+export function framesFromTimeline(
+  timeline: Timeline,
+  base: LegParams,
+  subject: Subject,
+  fps = BAKE_FPS
+): BakeFrame[] {
+  const count = Math.max(2, Math.round(timeline.duration * fps) + 1);
+  const frames = Array.from({ length: count }, (_, i) => {
+    const time = Math.min(timeline.duration, i / fps);
+    return { time, params: evaluateTimeline(timeline, time, base) };
+  });
+  return withCompression(frames, frames.map(() => footLoad(null, subject)), subject);
+}
+
+/**
+ * Clip con un keyframe por frame para la raíz y cada hueso de la pierna. glTF
+ * no anima la visibilidad: los dedos ocultos se hornean con escala 0.
+ */
+function bakeLegClip(name: string, frames: BakeFrame[], target: LegRig): THREE.AnimationClip {
+  const times = frames.map((f) => f.time);
+  const { bones } = target;
+  const nodes = [
+    target.root,
+    bones.hip,
+    bones.thigh,
+    bones.knee,
+    bones.calf,
+    bones.ankle,
+    bones.foot,
+    bones.heel,
+    ...bones.toes,
+  ].filter((node, i, all): node is THREE.Object3D => !!node?.name && all.indexOf(node) === i);
+
+  const values = nodes.map(() => ({ position: [] as number[], quaternion: [] as number[], scale: [] as number[] }));
+  for (const frame of frames) {
+    applyLegPose(target, frame.params, frame.compression);
+    nodes.forEach((node, i) => {
+      values[i].position.push(...node.position.toArray());
+      values[i].quaternion.push(...node.quaternion.toArray());
+      values[i].scale.push(...(node.visible ? node.scale.toArray() : [0, 0, 0]));
+    });
+  }
+
+  const tracks = nodes.flatMap((node, i) => [
+    new THREE.VectorKeyframeTrack(`${node.name}.position`, times, values[i].position),
+    new THREE.QuaternionKeyframeTrack(`${node.name}.quaternion`, times, values[i].quaternion),
+    new THREE.VectorKeyframeTrack(`${node.name}.scale`, times, values[i].scale),
+  ]);
+  return new THREE.AnimationClip(name, times[times.length - 1] ?? 0, tracks);
+}
+
+/**
+ * GLB con una copia del modelo bajo el nodo raíz y el clip horneado. La
+ * copia conserva el esqueleto (SkeletonUtils) y la escena no se toca; queda
+ * en la pose del primer frame.
+ */
+export async function exportAnimatedGlb(name: string, frames: BakeFrame[], target: BakeRig): Promise<Blob> {
+  if (frames.length < 2) throw new Error("Hacen falta al menos dos frames");
+  const copy = cloneRig(target);
+  const clip = bakeLegClip(name, frames, copy);
+  // El exportador omite los nodos ocultos: los dedos quedan visibles a escala 0
+  applyLegPose(copy, frames[0].params, frames[0].compression);
+  for (const toe of copy.bones.toes) {
+    if (toe.visible) continue;
+    toe.visible = true;
+    toe.scale.setScalar(0);
+  }
+
+  const result = await new GLTFExporter().parseAsync(copy.root, { binary: true, animations: [clip] });
+  if (!(result instanceof ArrayBuffer)) throw new Error("El exportador no devolvió un GLB");
+  return new Blob([result], { type: "model/gltf-binary" });
+}
@@ -0,0 +1,24 @@
+// src/lib/groundContact.ts
+// Contacto automático con el suelo: calcula el verticalShift con el que el
+// punto más bajo del pie de apoyo (talón o punta) queda en y = 0, usando la
+// cinemática directa. Con varias piernas de apoyo manda la más baja.
+import type { LegParams } from "@/lib/types";
+import { clampParam } from "@/lib/paramRegistry";
+import { forwardKinematics } from "@/lib/kinematics";
+
+/** verticalShift compartido que apoya en el suelo la pierna más baja */
+export function groundContactShift(stance: LegParams[]): number {
+  if (stance.length === 0) return 0;
+  // Holgura con la cadera sin desplazar: el desplazamiento la cancela
+  const lowest = Math.min(
+    ...stance.map((p) => forwardKinematics({ ...p, verticalShift: 0 }).clearance)
+  );
+  return clampParam("verticalShift", +(-lowest).toFixed(3));
+}
+
+/** Aplica el desplazamiento sin crear un objeto nuevo si no cambia */
+export function placeOnGround(params: LegParams, shift: number): LegParams {
+  return Math.abs(params.verticalShift - shift) < 1e-3
+    ? params
+    : { ...params, verticalShift: shift };
+}
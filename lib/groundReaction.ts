@@ -0,0 +1,166 @@
+// src/lib/groundReaction.ts
+// Estimación de las fuerzas de reacción del suelo (GRF) de una pierna a lo
+// largo del ciclo. La vertical es la clásica curva de doble joroba (impacto
+// y despegue con un valle en apoyo medio) y la anteroposterior frena en la
+// primera mitad del apoyo y propulsa en la segunda. Los picos crecen con la
+// cadencia, como al caminar más rápido, y el apoyo se acorta.
+// Las demás actividades declaran sus propios tramos de apoyo y su carga
+// (lib/activities): peso repartido con los pies plantados o un único pico
+// de impacto al correr o caer de un salto.
+import { STANCE_END, stanceAtCadence } from "@/lib/gait";
+import { bodyWeight, type Subject } from "@/lib/subject";
+
+export type GroundReaction = {
+  /** Fuerza vertical (N, hacia arriba) */
+  vertical: number;
+  /** Fuerza anteroposterior (N, positiva hacia adelante) */
+  anteroPosterior: number;
+  /** Progreso dentro del apoyo (0..1) o null en balanceo */
+  stanceProgress: number | null;
+};
+
+export type GrfShape = {
+  /** Picos de la vertical (× peso corporal) */
+  peak: number;
+  /** Valle de apoyo medio (× peso corporal) */
+  valley: number;
+  /** Pico anteroposterior (× peso corporal) */
+  shear: number;
+};
+
+/** Carga vertical de un tramo de apoyo */
+export type LoadShape =
+  /** Doble joroba de la marcha, según la cadencia del sujeto */
+  | { kind: "gait" }
+  /** Fracción constante del peso corporal (pies plantados) */
+  | { kind: "static"; share: number }
+  /**
+   * Una sola joroba desde `base` hasta `peak` (× peso corporal) a mitad del
+   * tramo; `shear` es el pico anteroposterior
+   */
+  | { kind: "impact"; peak: number; base?: number; shear?: number };
+
+/** Tramo del ciclo (fracciones 0..1) con el pie apoyado */
+export type ContactSpan = { start: number; end: number; load: LoadShape };
+
+/** Tramos de apoyo de una pierna a lo largo del ciclo, en orden */
+export type GroundContact = ContactSpan[];
+
+const GAIT_LOAD: LoadShape = { kind: "gait" };
+
+/** Un único apoyo de marcha desde el contacto del talón hasta `stanceEnd` */
+export function stanceContact(stanceEnd: number): GroundContact {
+  return [{ start: 0, end: stanceEnd, load: GAIT_LOAD }];
+}
+
+/** Apoyo de la marcha a la cadencia del sujeto */
+export function walkingContact(subject: Subject): GroundContact {
+  return stanceContact(stanceAtCadence(STANCE_END, subject.cadence));
+}
+
+/** Forma de la curva para una cadencia (valores típicos a 100–120 pasos/min) */
+export function grfShape(cadence: number): GrfShape {
+  const speed = cadence - 70;
+  return {
+    peak: 1 + 0.004 * speed,
+    valley: Math.max(0.5, 0.95 - 0.004 * speed),
+    shear: 0.15 + 0.002 * speed,
+  };
+}
+
+// Vertical normalizada en el apoyo: subida, pico, valle, pico, descarga
+function verticalProfile(s: number, { peak, valley }: GrfShape): number {
+  const half = (a: number) => (1 - Math.cos(Math.PI * a)) / 2;
+  if (s < 0.25) return peak * Math.sin((Math.PI / 2) * (s / 0.25));
+  if (s < 0.5) return peak - (peak - valley) * half((s - 0.25) / 0.25);
+  if (s < 0.75) return valley + (peak - valley) * half((s - 0.5) / 0.25);
+  return peak * Math.cos((Math.PI / 2) * ((s - 0.75) / 0.25));
+}
+
+// Vertical y anteroposterior (× peso corporal) en el progreso `s` de un tramo
+function spanReaction(s: number, load: LoadShape, cadence: number) {
+  switch (load.kind) {
+    case "gait": {
+      const shape = grfShape(cadence);
+      return {
+        vertical: verticalProfile(s, shape),
+        anteroPosterior: -shape.shear * Math.sin(2 * Math.PI * s),
+      };
+    }
+    case "static":
+      return { vertical: load.share, anteroPosterior: 0 };
+    case "impact": {
+      const base = load.base ?? 0;
+      return {
+        vertical: base + (load.peak - base) * Math.sin(Math.PI * s),
+        anteroPosterior: -(load.shear ?? 0) * Math.sin(2 * Math.PI * s),
+      };
+    }
+  }
+}
+
+/**
+ * GRF de una pierna en un punto del ciclo (0..1) según sus tramos de apoyo;
+ * por defecto el de la marcha a la cadencia del sujeto. Con carga estática
+ * el centro de presión queda a mitad del pie, como de pie.
+ */
+export function groundReaction(
+  cycle: number,
+  subject: Subject,
+  contact: GroundContact = walkingContact(subject)
+): GroundReaction {
+  const span = contact.find((c) => cycle >= c.start && cycle < c.end);
+  if (!span) return { vertical: 0, anteroPosterior: 0, stanceProgress: null };
+  const s = (cycle - span.start) / (span.end - span.start);
+  const weight = bodyWeight(subject);
+  const grf = spanReaction(s, span.load, subject.cadence);
+  return {
+    vertical: weight * grf.vertical,
+    anteroPosterior: weight * grf.anteroPosterior,
+    stanceProgress: span.load.kind === "static" ? 0.5 : s,
+  };
+}
+
+/**
+ * Carga vertical sobre un pie y progreso del apoyo para los resortes: la GRF
+ * durante la animación o, de pie (`cycle` null), el peso repartido entre las
+ * piernas de apoyo.
+ */
+export function footLoad(
+  cycle: number | null,
+  subject: Subject,
+  contact?: GroundContact,
+  supportLegs = 1
+): { vertical: number; stanceProgress: number } {
+  if (cycle == null) return { vertical: bodyWeight(subject) / supportLegs, stanceProgress: 0.5 };
+  const grf = groundReaction(cycle, subject, contact);
+  return { vertical: grf.vertical, stanceProgress: grf.stanceProgress ?? 1 };
+}
+
+export type GrfRow = {
+  pct: number;
+  vertical: number;
+  anteroPosterior: number;
+  stance: boolean;
+};
+
+/**
+ * Curvas de un ciclo completo muestreadas cada 1 %, con los tramos de apoyo
+ * de la actividad (por defecto los de la marcha)
+ */
+export function grfCycle(
+  subject: Subject,
+  contact: GroundContact = walkingContact(subject),
+  samples = 100
+): GrfRow[] {
+  return Array.from({ length: samples }, (_, i) => {
+    const cycle = i / samples;
+    const grf = groundReaction(cycle, subject, contact);
+    return {
+      pct: cycle * 100,
+      vertical: grf.vertical,
+      anteroPosterior: grf.anteroPosterior,
+      stance: grf.stanceProgress != null,
+    };
+  });
+}
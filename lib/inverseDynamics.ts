@@ -0,0 +1,261 @@
+// src/lib/inverseDynamics.ts
+// Dinámica inversa en el plano sagital (Newton–Euler de abajo hacia arriba:
+// pie → tibia → muslo) sobre la marcha grabada. Las aceleraciones salen por
+// diferencias finitas y la carga externa es la GRF estimada en el centro de
+// presión. Las masas e inercias salen del modelo de masas elegido.
+// Todo en SI: momentos en N·m y potencias en W.
+//
+// Signos de los momentos: extensor de cadera, extensor de rodilla y
+// plantarflexor de tobillo positivos, como en las curvas clásicas de marcha.
+// Potencia positiva = la articulación genera energía; negativa = la absorbe.
+import type { LegSide } from "@/lib/types";
+import { anatomicalAngles, type JointId } from "@/lib/joints";
+import { sagittalChain, standingHipHeight, type Point2 } from "@/lib/kinematics";
+import {
+  DEFAULT_MASS_MODEL,
+  segmentProperties,
+  type MassModel,
+  type SegmentId,
+} from "@/lib/anthropometry";
+import { groundReaction } from "@/lib/groundReaction";
+import { GRAVITY, type Subject } from "@/lib/subject";
+import type { MotionSample } from "@/lib/motionRecorder";
+
+const DEG = Math.PI / 180;
+const CM = 0.01;
+
+export type JointLoad = {
+  /** Momento neto (N·m) */
+  moment: number;
+  /** Potencia (W) */
+  power: number;
+};
+
+export type DynamicsFrame = {
+  time: number;
+  /** Progreso del ciclo de la pierna (0..1) */
+  cycle: number;
+  stance: boolean;
+  hip: JointLoad;
+  knee: JointLoad;
+  ankle: JointLoad;
+};
+
+// Pose de un frame: articulaciones (m), centros de masa y orientaciones (rad,
+// antihorario con x adelante e y arriba)
+type FramePose = {
+  hip: Point2;
+  knee: Point2;
+  ankle: Point2;
+  cop: Point2;
+  com: Record<SegmentId, Point2>;
+  theta: Record<SegmentId, number>;
+};
+
+type Force = Point2;
+
+const scale = (p: Point2): Point2 => ({ x: p.x * CM, y: p.y * CM });
+const lerp = (a: Point2, b: Point2, t: number): Point2 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+const sub = (a: Point2, b: Point2): Point2 => ({ x: a.x - b.x, y: a.y - b.y });
+const neg = (f: Force): Force => ({ x: -f.x, y: -f.y });
+const cross = (r: Point2, f: Force) => r.x * f.y - r.y * f.x;
+
+/** Derivada por diferencias centradas (extremos: diferencias laterales) */
+function derivative(values: number[], times: number[]): number[] {
+  const n = values.length;
+  return values.map((_, i) => {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    const dt = times[b] - times[a];
+    return dt > 1e-6 ? (values[b] - values[a]) / dt : 0;
+  });
+}
+
+const secondDerivative = (values: number[], times: number[]) =>
+  derivative(derivative(values, times), times);
+
+/**
+ * Momentos y potencias netas de cadera, rodilla y tobillo de una pierna en
+ * cada muestra grabada. La pelvis se considera sin rotación.
+ */
+export function inverseDynamics(
+  samples: MotionSample[],
+  side: LegSide,
+  subject: Subject,
+  model: MassModel = DEFAULT_MASS_MODEL
+): DynamicsFrame[] {
+  const legs = samples
+    .map((sample) => ({
+      time: sample.time,
+      leg: side === "right" ? sample.right : sample.left,
+    }))
+    .filter((s): s is typeof s & { leg: NonNullable<typeof s.leg> } => s.leg != null);
+  if (legs.length < 3) return [];
+
+  const times = legs.map((s) => s.time);
+  const grfs = legs.map((s) => groundReaction(s.leg.cycle, subject, s.leg.contact));
+  const poses: FramePose[] = legs.map(({ leg }, i) => {
+    const { params } = leg;
+    const angles = anatomicalAngles(params);
+    const hipY = standingHipHeight(params) + params.verticalShift;
+    const chain = sagittalChain(params, hipY, angles.hip, angles.knee, angles.ankle);
+    const props = segmentProperties(params, subject, model);
+    const hip = scale({ x: 0, y: hipY });
+    const knee = scale(chain.knee);
+    const ankle = scale(chain.ankle);
+    const heel = scale(chain.heel);
+    const toe = scale(chain.toe);
+    // Mismas orientaciones que sagittalChain, medidas desde la vertical
+    const thigh = angles.hip * DEG;
+    const shank = thigh - angles.knee * DEG;
+    return {
+      hip,
+      knee,
+      ankle,
+      // El centro de presión avanza del talón a la punta durante el apoyo
+      cop: lerp(heel, toe, grfs[i].stanceProgress ?? 0),
+      com: {
+        thigh: lerp(hip, knee, props.thigh.comFraction),
+        shank: lerp(knee, ankle, props.shank.comFraction),
+        foot: lerp(heel, toe, props.foot.comFraction),
+      },
+      theta: { thigh, shank, foot: shank - angles.ankle * DEG },
+    };
+  });
+
+  const series = (pick: (pose: FramePose) => number) => poses.map(pick);
+  const segments: SegmentId[] = ["thigh", "shank", "foot"];
+  const kin = Object.fromEntries(
+    segments.map((id) => [
+      id,
+      {
+        ax: secondDerivative(series((p) => p.com[id].x), times),
+        ay: secondDerivative(series((p) => p.com[id].y), times),
+        omega: derivative(series((p) => p.theta[id]), times),
+        alpha: secondDerivative(series((p) => p.theta[id]), times),
+      },
+    ])
+  ) as Record<SegmentId, { ax: number[]; ay: number[]; omega: number[]; alpha: number[] }>;
+
+  return legs.map(({ time, leg }, i) => {
+    const pose = poses[i];
+    const props = segmentProperties(leg.params, subject, model);
+    const grf = grfs[i];
+
+    // Un segmento: conocidas la fuerza y el momento en su extremo distal,
+    // despeja los de su extremo proximal (ejercidos SOBRE el segmento)
+    const solve = (id: SegmentId, proximal: Point2, distal: Point2, fd: Force, md: number) => {
+      const { mass, inertia } = props[id];
+      const com = pose.com[id];
+      const fp = {
+        x: mass * kin[id].ax[i] - fd.x,
+        y: mass * (kin[id].ay[i] + GRAVITY) - fd.y,
+      };
+      const mp =
+        inertia * kin[id].alpha[i] -
+        md -
+        cross(sub(distal, com), fd) -
+        cross(sub(proximal, com), fp);
+      return { force: fp, moment: mp };
+    };
+
+    const ground = { x: grf.anteroPosterior, y: grf.vertical };
+    const foot = solve("foot", pose.ankle, pose.cop, ground, 0);
+    const shank = solve("shank", pose.knee, pose.ankle, neg(foot.force), -foot.moment);
+    const thigh = solve("thigh", pose.hip, pose.knee, neg(shank.force), -shank.moment);
+
+    // Potencia = momento sobre el segmento distal × velocidad angular relativa
+    const omega = (id: SegmentId) => kin[id].omega[i];
+    return {
+      time,
+      cycle: leg.cycle,
+      stance: grf.stanceProgress != null,
+      hip: { moment: -thigh.moment, power: thigh.moment * omega("thigh") },
+      knee: { moment: shank.moment, power: shank.moment * (omega("shank") - omega("thigh")) },
+      ankle: { moment: -foot.moment, power: foot.moment * (omega("foot") - omega("shank")) },
+    };
+  });
+}
+
+export type DynamicsRow = {
+  /** Centro del tramo, % del ciclo */
+  pct: number;
+  hipMoment: number;
+  kneeMoment: number;
+  ankleMoment: number;
+  hipPower: number;
+  kneePower: number;
+  anklePower: number;
+  stance: boolean;
+};
+
+/** Promedio por tramos del ciclo (0–100 %), como cycleSeries */
+export function dynamicsSeries(frames: DynamicsFrame[], binPct = 2): DynamicsRow[] {
+  const bins = Math.ceil(100 / binPct);
+  const acc = Array.from({ length: bins }, () => ({
+    n: 0,
+    stance: 0,
+    hipMoment: 0,
+    kneeMoment: 0,
+    ankleMoment: 0,
+    hipPower: 0,
+    kneePower: 0,
+    anklePower: 0,
+  }));
+
+  for (const frame of frames) {
+    const bin = acc[Math.min(bins - 1, Math.floor((frame.cycle * 100) / binPct))];
+    bin.n++;
+    if (frame.stance) bin.stance++;
+    bin.hipMoment += frame.hip.moment;
+    bin.kneeMoment += frame.knee.moment;
+    bin.ankleMoment += frame.ankle.moment;
+    bin.hipPower += frame.hip.power;
+    bin.kneePower += frame.knee.power;
+    bin.anklePower += frame.ankle.power;
+  }
+
+  const rows: DynamicsRow[] = [];
+  acc.forEach((bin, i) => {
+    if (bin.n === 0) return;
+    rows.push({
+      pct: (i + 0.5) * binPct,
+      hipMoment: bin.hipMoment / bin.n,
+      kneeMoment: bin.kneeMoment / bin.n,
+      ankleMoment: bin.ankleMoment / bin.n,
+      hipPower: bin.hipPower / bin.n,
+      kneePower: bin.kneePower / bin.n,
+      anklePower: bin.anklePower / bin.n,
+      stance: bin.stance * 2 >= bin.n,
+    });
+  });
+  return rows;
+}
+
+export type JointPeaks = {
+  /** Momento de mayor magnitud, con su signo (N·m) */
+  moment: number;
+  /** Máxima potencia generada (W) */
+  generated: number;
+  /** Máxima potencia absorbida (W, negativa) */
+  absorbed: number;
+};
+
+/** Picos por articulación para dimensionar los actuadores */
+export function dynamicsPeaks(frames: DynamicsFrame[]): Record<JointId, JointPeaks> {
+  const peaks = {} as Record<JointId, JointPeaks>;
+  for (const joint of ["hip", "knee", "ankle"] as JointId[]) {
+    const result: JointPeaks = { moment: 0, generated: 0, absorbed: 0 };
+    for (const frame of frames) {
+      const { moment, power } = frame[joint];
+      if (Math.abs(moment) > Math.abs(result.moment)) result.moment = moment;
+      result.generated = Math.max(result.generated, power);
+      result.absorbed = Math.min(result.absorbed, power);
+    }
+    peaks[joint] = result;
+  }
+  return peaks;
+}
@@ -0,0 +1,55 @@
+// src/lib/inverseKinematics.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import { anatomicalAngles, fromAnatomical } from "@/lib/joints";
+import { forwardKinematics, type Vec3 } from "@/lib/kinematics";
+import { solveLegIK } from "@/lib/inverseKinematics";
+
+// Pose con cadera y rodilla flexionadas y algo de giro del pie
+const bent = {
+  ...defaultParams,
+  hipAngle: fromAnatomical("hip", 30),
+  kneeAngle: fromAnatomical("knee", 45),
+  ankleAngle: fromAnatomical("ankle", 10),
+  footRotation: 20,
+};
+
+const expectClose = (a: Vec3, b: Vec3) => a.forEach((v, i) => expect(v).toBeCloseTo(b[i], 6));
+
+describe("solveLegIK", () => {
+  it("lleva el tobillo al objetivo de una pose conocida", () => {
+    const target = forwardKinematics(bent).joints.ankle;
+    const result = solveLegIK({ ...defaultParams, footRotation: bent.footRotation }, target);
+    expect(result.reachable).toBe(true);
+    expectClose(result.ankle, target);
+    expectClose(forwardKinematics(result.params).joints.ankle, target);
+    expect(anatomicalAngles(result.params).hip).toBeCloseTo(30, 6);
+    expect(anatomicalAngles(result.params).knee).toBeCloseTo(45, 6);
+  });
+
+  it("la rodilla hacia atrás alcanza el mismo tobillo con la flexión opuesta", () => {
+    const target = forwardKinematics(bent).joints.ankle;
+    const result = solveLegIK(bent, target, { kneeDirection: -1 });
+    expectClose(forwardKinematics(result.params).joints.ankle, target);
+    expect(anatomicalAngles(result.params).knee).toBeCloseTo(-45, 6);
+  });
+
+  it("conserva la orientación del pie salvo que se pida lo contrario", () => {
+    const footAngle = (p: typeof bent) => {
+      const a = anatomicalAngles(p);
+      return a.hip - a.knee - a.ankle;
+    };
+    const target: Vec3 = [10, 20, 0];
+    expect(footAngle(solveLegIK(bent, target).params)).toBeCloseTo(footAngle(bent), 6);
+    const free = solveLegIK(bent, target, { keepFootOrientation: false });
+    expect(free.params.ankleAngle).toBe(bent.ankleAngle);
+  });
+
+  it("acerca al límite los objetivos fuera de alcance", () => {
+    const result = solveLegIK(defaultParams, [200, 0, 0]);
+    expect(result.reachable).toBe(false);
+    // Casi recta: el margen evita la singularidad
+    expect(Math.abs(anatomicalAngles(result.params).knee)).toBeLessThan(1);
+    expect(result.ankle[0]).toBeLessThan(defaultParams.femurLength + defaultParams.tibiaLength);
+  });
+});
@@ -0,0 +1,84 @@
+// src/lib/inverseKinematics.ts
+// Cinemática inversa analítica de dos huesos (fémur + tibia) en el plano
+// sagital. Recibe la posición deseada del tobillo en el marco de
+// lib/kinematics y devuelve los ángulos de cadera y rodilla en LegParams.
+import type { LegParams } from "@/lib/types";
+import { anatomicalAngles, fromAnatomical } from "@/lib/joints";
+import { standingHipHeight, type Vec3 } from "@/lib/kinematics";
+
+/** 1: rodilla hacia adelante (humana), -1: hacia atrás (tipo ave) */
+export type KneeDirection = 1 | -1;
+
+export type IKOptions = {
+  kneeDirection?: KneeDirection;
+  /** Mantener la orientación del pie en el mundo ajustando el tobillo */
+  keepFootOrientation?: boolean;
+};
+
+export type IKResult = {
+  params: LegParams;
+  /** false si el objetivo estaba fuera del alcance y se acercó al límite */
+  reachable: boolean;
+  /** Objetivo efectivamente alcanzado (cm, marco mundial) */
+  ankle: Vec3;
+};
+
+const DEG = Math.PI / 180;
+// Margen para no llegar a la singularidad de pierna totalmente recta
+const EPSILON = 1e-3;
+
+export function solveLegIK(
+  params: LegParams,
+  target: Vec3,
+  options: IKOptions = {}
+): IKResult {
+  const { kneeDirection = 1, keepFootOrientation = true } = options;
+  const f = params.femurLength;
+  const t = params.tibiaLength;
+  const yaw = params.footRotation * DEG;
+  const hipY = standingHipHeight(params) + params.verticalShift;
+
+  // Objetivo al plano sagital de la pierna (deshace la guiñada)
+  const x = target[0] * Math.cos(yaw) - target[2] * Math.sin(yaw);
+  const dx = x;
+  const dy = target[1] - hipY;
+
+  const rawDist = Math.hypot(dx, dy);
+  const minDist = Math.abs(f - t) + EPSILON;
+  const maxDist = f + t - EPSILON;
+  const dist = Math.max(minDist, Math.min(maxDist, rawDist));
+  const reachable = rawDist >= minDist && rawDist <= maxDist;
+
+  // Ley de cosenos: flexión de rodilla y ángulo del fémur respecto a la recta cadera–tobillo
+  const cosKnee = (dist * dist - f * f - t * t) / (2 * f * t);
+  const knee = Math.acos(Math.max(-1, Math.min(1, cosKnee)));
+  const cosBeta = (f * f + dist * dist - t * t) / (2 * f * dist);
+  const beta = Math.acos(Math.max(-1, Math.min(1, cosBeta)));
+  // Dirección de la recta cadera–tobillo medida desde la vertical hacia abajo
+  const alpha = rawDist > 0 ? Math.atan2(dx, -dy) : 0;
+
+  const thigh = alpha + kneeDirection * beta;
+  const kneeFlexion = kneeDirection * knee;
+
+  const before = anatomicalAngles(params);
+  const next: LegParams = {
+    ...params,
+    hipAngle: fromAnatomical("hip", thigh / DEG),
+    kneeAngle: fromAnatomical("knee", kneeFlexion / DEG),
+  };
+
+  if (keepFootOrientation) {
+    // foot = shank − plantarflexión (ver lib/kinematics): conservar `foot`
+    const footBefore = before.hip - before.knee - before.ankle;
+    const shank = thigh / DEG - kneeFlexion / DEG;
+    next.ankleAngle = fromAnatomical("ankle", shank - footBefore);
+  }
+
+  const ax = Math.sin(alpha) * dist;
+  const ay = hipY - Math.cos(alpha) * dist;
+  return {
+    params: next,
+    reachable,
+    ankle: [ax * Math.cos(yaw), ay, -ax * Math.sin(yaw)],
+  };
+}
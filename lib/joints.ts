@@ -0,0 +1,209 @@
+// src/lib/joints.ts
+// Límites de rango articular (ROM) por perfil de pierna.
+// Los parámetros guardan ángulos "del modelo" (hipAngle 180 y ankleAngle -85
+// son la pose de pie); aquí se traducen a ángulos anatómicos:
+// - Cadera: flexión (+) / extensión (−)   = 180 − hipAngle
+// - Rodilla: flexión                        = kneeAngle
+// - Tobillo: plantarflexión (+) / dorsiflexión (−) = ankleAngle + 85
+import type { LegParams } from "@/lib/types";
+import { PARAM_META, type ParamKey } from "@/lib/paramRegistry";
+import { DEFAULT_UNITS, formatAngle, type UnitPrefs } from "@/lib/units";
+
+export type JointId = "hip" | "knee" | "ankle";
+
+export type JointProfileId = "human" | "prosthetic" | "robot";
+
+export type JointRange = { min: number; max: number };
+
+export type JointProfile = {
+  id: JointProfileId;
+  label: string;
+  description: string;
+  /** Rangos anatómicos en grados */
+  limits: Record<JointId, JointRange>;
+  /** Ángulo mínimo pie–tibia antes de que el pie atraviese la pierna */
+  footClearance: number;
+};
+
+export type LimitViolation = {
+  /** Articulación fuera de rango o colisión entre segmentos */
+  id: JointId | "foot-shin" | "knee-fold";
+  /** Parámetro que hay que mover para resolverla */
+  param: ParamKey;
+  message: string;
+};
+
+export const HIP_NEUTRAL = 180;
+export const ANKLE_NEUTRAL = -85;
+
+export const JOINT_PARAM: Record<JointId, "hipAngle" | "kneeAngle" | "ankleAngle"> = {
+  hip: "hipAngle",
+  knee: "kneeAngle",
+  ankle: "ankleAngle",
+};
+
+export const JOINT_LABELS: Record<JointId, string> = {
+  hip: "Flexión de cadera",
+  knee: "Flexión de rodilla",
+  ankle: "Plantarflexión",
+};
+
+export const JOINT_PROFILES: Record<JointProfileId, JointProfile> = {
+  human: {
+    id: "human",
+    label: "Humano",
+    description: "Rangos activos de un adulto sano (AAOS)",
+    limits: {
+      hip: { min: -20, max: 120 },
+      knee: { min: 0, max: 135 },
+      ankle: { min: -20, max: 50 },
+    },
+    footClearance: 20,
+  },
+  prosthetic: {
+    id: "prosthetic",
+    label: "Prótesis",
+    description: "Rodilla policéntrica y pie de respuesta dinámica",
+    limits: {
+      hip: { min: -15, max: 110 },
+      knee: { min: 0, max: 150 },
+      ankle: { min: -10, max: 25 },
+    },
+    footClearance: 25,
+  },
+  robot: {
+    id: "robot",
+    label: "Robot",
+    description: "Servos con topes mecánicos amplios",
+    limits: {
+      hip: { min: -30, max: 150 },
+      knee: { min: 0, max: 140 },
+      ankle: { min: -45, max: 90 },
+    },
+    footClearance: 10,
+  },
+};
+
+export const JOINT_PROFILE_IDS = Object.keys(JOINT_PROFILES) as JointProfileId[];
+
+/** Ángulo del modelo → ángulo anatómico */
+export function toAnatomical(joint: JointId, value: number): number {
+  if (joint === "hip") return HIP_NEUTRAL - value;
+  if (joint === "ankle") return value - ANKLE_NEUTRAL;
+  return value;
+}
+
+/** Ángulo anatómico → ángulo del modelo */
+export function fromAnatomical(joint: JointId, angle: number): number {
+  if (joint === "hip") return HIP_NEUTRAL - angle;
+  if (joint === "ankle") return angle + ANKLE_NEUTRAL;
+  return angle;
+}
+
+export function anatomicalAngles(params: LegParams): Record<JointId, number> {
+  return {
+    hip: toAnatomical("hip", params.hipAngle),
+    knee: toAnatomical("knee", params.kneeAngle),
+    ankle: toAnatomical("ankle", params.ankleAngle),
+  };
+}
+
+function jointOf(key: ParamKey): JointId | null {
+  const entry = (Object.keys(JOINT_PARAM) as JointId[]).find((j) => JOINT_PARAM[j] === key);
+  return entry ?? null;
+}
+
+/**
+ * Rango del parámetro que permite el perfil, dentro de los límites del
+ * registro. Para parámetros que no son articulaciones devuelve el del registro.
+ */
+export function paramRange(profile: JointProfile, key: ParamKey): JointRange {
+  const meta = PARAM_META[key];
+  const joint = jointOf(key);
+  if (!joint) return { min: meta.min, max: meta.max };
+  const a = fromAnatomical(joint, profile.limits[joint].min);
+  const b = fromAnatomical(joint, profile.limits[joint].max);
+  return {
+    min: Math.max(meta.min, Math.min(a, b)),
+    max: Math.min(meta.max, Math.max(a, b)),
+  };
+}
+
+/** Flexión de rodilla (°) a la que la pantorrilla toca el muslo */
+export function kneeFoldLimit(params: LegParams) {
+  const shortest = Math.min(params.femurLength, params.tibiaLength);
+  const contact = 2 * Math.atan2(params.legThickness, shortest / 2) * (180 / Math.PI);
+  return 180 - contact;
+}
+
+/** Poses fuera del perfil o con segmentos que se atraviesan */
+export function checkLimits(
+  params: LegParams,
+  profile: JointProfile,
+  units: UnitPrefs = DEFAULT_UNITS
+): LimitViolation[] {
+  const angles = anatomicalAngles(params);
+  const fmt = (deg: number) => formatAngle(deg, units);
+  const violations: LimitViolation[] = [];
+
+  for (const joint of Object.keys(JOINT_PARAM) as JointId[]) {
+    const { min, max } = profile.limits[joint];
+    const angle = angles[joint];
+    if (angle < min - 1e-6 || angle > max + 1e-6) {
+      violations.push({
+        id: joint,
+        param: JOINT_PARAM[joint],
+        message: `${JOINT_LABELS[joint]} ${fmt(angle)} fuera de [${fmt(min)}, ${fmt(max)}]`,
+      });
+    }
+  }
+
+  // Pie–tibia: 90° en posición neutra; cerca de 0° o 180° el pie entra en la pierna
+  const footShank = 90 + angles.ankle;
+  if (footShank < profile.footClearance || footShank > 180 - profile.footClearance) {
+    violations.push({
+      id: "foot-shin",
+      param: "ankleAngle",
+      message: `El pie atraviesa la tibia (ángulo pie–tibia ${fmt(footShank)})`,
+    });
+  }
+
+  const fold = kneeFoldLimit(params);
+  if (angles.knee > fold) {
+    violations.push({
+      id: "knee-fold",
+      param: "kneeAngle",
+      message: `La pantorrilla atraviesa el muslo por encima de ${fmt(fold)} de flexión`,
+    });
+  }
+
+  return violations;
+}
+
+/** Lleva la pose al rango del perfil. Devuelve qué parámetros se ajustaron */
+export function constrainToProfile(
+  params: LegParams,
+  profile: JointProfile
+): { params: LegParams; adjusted: ParamKey[] } {
+  const next = { ...params };
+  const adjusted: ParamKey[] = [];
+
+  for (const joint of Object.keys(JOINT_PARAM) as JointId[]) {
+    const key = JOINT_PARAM[joint];
+    let { min, max } = paramRange(profile, key);
+    if (joint === "ankle") {
+      // Además del ROM, el pie no puede atravesar la tibia
+      min = Math.max(min, fromAnatomical("ankle", profile.footClearance - 90));
+      max = Math.min(max, fromAnatomical("ankle", 90 - profile.footClearance));
+    } else if (joint === "knee") {
+      max = Math.min(max, kneeFoldLimit(params));
+    }
+    const clamped = Math.max(min, Math.min(max, next[key]));
+    if (clamped !== next[key]) {
+      next[key] = clamped;
+      adjusted.push(key);
+    }
+  }
+
+  return { params: adjusted.length ? next : params, adjusted };
+}
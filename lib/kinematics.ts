@@ -0,0 +1,147 @@
+// src/lib/kinematics.ts
+// Cinemática directa de la pierna: de LegParams a posiciones 3D (cm).
+// Marco: y hacia arriba (suelo en y = 0), x hacia adelante y z lateral.
+// La cadena se resuelve en el plano sagital y luego se gira con footRotation
+// alrededor del eje vertical de la cadera, igual que el modelo 3D.
+// Los ángulos se leen con la convención anatómica de lib/joints.
+import type { LegParams } from "@/lib/types";
+import { anatomicalAngles } from "@/lib/joints";
+
+export type Vec3 = [number, number, number];
+
+export type LegJoints = {
+  hip: Vec3;
+  knee: Vec3;
+  ankle: Vec3;
+  heel: Vec3;
+  toe: Vec3;
+};
+
+export type LegKinematics = {
+  joints: LegJoints;
+  /** Distancia cadera–tobillo máxima (rodilla en su mínima flexión) */
+  reach: number;
+  /** Distancia cadera–tobillo en la pose actual */
+  hipAnkleDistance: number;
+  /** Cuánto se eleva el tobillo respecto a la postura de pie */
+  stepHeight: number;
+  /** Altura del punto más bajo del pie sobre el suelo (negativa = lo atraviesa) */
+  clearance: number;
+};
+
+export type KinematicsOptions = {
+  /** Flexión mínima de rodilla (°) para el alcance; por defecto 0 (recta) */
+  minKneeFlexion?: number;
+};
+
+const DEG = Math.PI / 180;
+
+/** Altura del tobillo sobre la planta con el pie apoyado */
+export function ankleHeight(params: LegParams) {
+  return params.heelRadius + params.archHeight;
+}
+
+/** Altura de la cadera con la pierna recta y el pie apoyado */
+export function standingHipHeight(params: LegParams) {
+  return params.femurLength + params.tibiaLength + ankleHeight(params);
+}
+
+/** Distancia cadera–tobillo para una flexión de rodilla dada (ley de cosenos) */
+export function hipAnkleDistance(femur: number, tibia: number, kneeFlexionDeg: number) {
+  const c = Math.cos(kneeFlexionDeg * DEG);
+  return Math.sqrt(femur * femur + tibia * tibia + 2 * femur * tibia * c);
+}
+
+/** Punto del plano sagital (x adelante, y arriba) girado con la guiñada */
+export function toWorld(x: number, y: number, yaw: number): Vec3 {
+  return [x * Math.cos(yaw), y, -x * Math.sin(yaw)];
+}
+
+export type Point2 = { x: number; y: number };
+
+export type SagittalChain = {
+  knee: Point2;
+  ankle: Point2;
+  heel: Point2;
+  toe: Point2;
+};
+
+/**
+ * Cadena en el plano sagital para ángulos anatómicos dados (°), con la
+ * cadera en (0, hipY). Base de la cinemática directa y del espacio de trabajo.
+ */
+export function sagittalChain(
+  params: LegParams,
+  hipY: number,
+  hipDeg: number,
+  kneeDeg: number,
+  ankleDeg: number
+): SagittalChain {
+  const ah = ankleHeight(params);
+
+  // Direcciones de los segmentos: ángulo respecto a la vertical hacia abajo
+  const thigh = hipDeg * DEG;
+  const shank = thigh - kneeDeg * DEG;
+  // El pie es perpendicular a la tibia en neutro; la plantarflexión baja la punta
+  const foot = shank - ankleDeg * DEG;
+
+  const knee = {
+    x: params.femurLength * Math.sin(thigh),
+    y: hipY - params.femurLength * Math.cos(thigh),
+  };
+  const ankle = {
+    x: knee.x + params.tibiaLength * Math.sin(shank),
+    y: knee.y - params.tibiaLength * Math.cos(shank),
+  };
+  // Ejes del pie: u hacia la punta, w hacia la planta
+  const u = { x: Math.cos(foot), y: Math.sin(foot) };
+  const w = { x: Math.sin(foot), y: -Math.cos(foot) };
+  const toeLength = params.footLength - params.heelRadius;
+  return {
+    knee,
+    ankle,
+    heel: {
+      x: ankle.x - params.heelRadius * u.x + ah * w.x,
+      y: ankle.y - params.heelRadius * u.y + ah * w.y,
+    },
+    toe: {
+      x: ankle.x + toeLength * u.x + ah * w.x,
+      y: ankle.y + toeLength * u.y + ah * w.y,
+    },
+  };
+}
+
+export function forwardKinematics(
+  params: LegParams,
+  options: KinematicsOptions = {}
+): LegKinematics {
+  const angles = anatomicalAngles(params);
+  const ah = ankleHeight(params);
+  const hipY = standingHipHeight(params) + params.verticalShift;
+  const { knee, ankle, heel, toe } = sagittalChain(
+    params,
+    hipY,
+    angles.hip,
+    angles.knee,
+    angles.ankle
+  );
+
+  const yaw = params.footRotation * DEG;
+  return {
+    joints: {
+      hip: toWorld(0, hipY, yaw),
+      knee: toWorld(knee.x, knee.y, yaw),
+      ankle: toWorld(ankle.x, ankle.y, yaw),
+      heel: toWorld(heel.x, heel.y, yaw),
+      toe: toWorld(toe.x, toe.y, yaw),
+    },
+    reach: hipAnkleDistance(
+      params.femurLength,
+      params.tibiaLength,
+      options.minKneeFlexion ?? 0
+    ),
+    hipAnkleDistance: hipAnkleDistance(params.femurLength, params.tibiaLength, angles.knee),
+    stepHeight: ankle.y - ah,
+    clearance: Math.min(heel.y, toe.y),
+  };
+}
@@ -0,0 +1,120 @@
+// src/lib/legRig.ts
+// Pose de LegParams sobre el esqueleto de un glTF. GLTFModel la aplica en
+// cada frame y lib/gltfAnimation la reutiliza sobre una copia del modelo
+// para hornear el clip.
+import * as THREE from "three";
+import type { Bone, Object3D } from "three";
+import type { LegParams } from "@/lib/types";
+import type { FootCompression } from "@/lib/footDynamics";
+
+export interface LegBones {
+  hip: Bone | null;
+  knee: Bone | null;
+  ankle: Bone | null;
+  foot: Bone | null;
+  thigh: Bone | null;
+  calf: Bone | null;
+  toes: Bone[];
+  heel: Bone | null;
+}
+
+export const EMPTY_LEG_BONES: LegBones = {
+  hip: null,
+  knee: null,
+  ankle: null,
+  foot: null,
+  thigh: null,
+  calf: null,
+  toes: [],
+  heel: null,
+};
+
+export type LegRig = {
+  /** Grupo que envuelve la escena: elevación, rotación y escala global */
+  root: Object3D;
+  bones: LegBones;
+  /** Giro de 180° aplicado a modelos invertidos */
+  baseRotationZ: number;
+  /** Offsets locales cuando no se pudo reparentar ankle -> calf / foot -> ankle */
+  ankleOffset: THREE.Vector3 | null;
+  footOffset: THREE.Vector3 | null;
+};
+
+const DEG = Math.PI / 180;
+const tmpV = new THREE.Vector3();
+const tmpQ = new THREE.Quaternion();
+
+/** Coloca `child` en el punto `offset` del espacio de `anchor`, con su orientación */
+function followBone(child: Bone, anchor: Bone, offset: THREE.Vector3) {
+  anchor.getWorldPosition(tmpV);
+  anchor.getWorldQuaternion(tmpQ);
+  const desiredWorld = offset.clone().applyQuaternion(tmpQ).add(tmpV);
+  if (child.parent) child.parent.worldToLocal(desiredWorld);
+  child.position.copy(desiredWorld);
+
+  const desiredQuat = tmpQ.clone();
+  if (child.parent) {
+    const parentWorldQuat = child.parent.getWorldQuaternion(new THREE.Quaternion());
+    desiredQuat.premultiply(parentWorldQuat.invert());
+  }
+  child.quaternion.copy(desiredQuat);
+}
+
+/**
+ * Aplica los parámetros al grupo raíz y a los huesos encontrados. La
+ * compresión de los resortes del pie baja el arco y aplasta el talón.
+ */
+export function applyLegPose(rig: LegRig, params: LegParams, compression?: FootCompression | null) {
+  const { root, bones } = rig;
+
+  // Elevación, escala y rotación global
+  root.position.y = params.verticalShift;
+  root.scale.set(
+    params.footLength / 26,
+    (params.tibiaLength + params.femurLength) / 83,
+    params.legThickness / 6
+  );
+  root.rotation.set(0, params.footRotation * DEG, rig.baseRotationZ);
+
+  const hipRad = params.hipAngle * DEG;
+  const kneeRad = params.kneeAngle * DEG;
+  const ankleRad = params.ankleAngle * DEG;
+  const stepRad = params.stepAngle * DEG;
+
+  // Cadera: flexión hacia adelante; el muslo hereda de ella
+  bones.hip?.rotation.set(hipRad, 0, 0);
+  bones.thigh?.rotation.set(0, 0, 0);
+
+  // Rodilla: negativo = doblar; la pantorrilla hereda de ella
+  bones.knee?.rotation.set(-kneeRad, 0, 0);
+  bones.calf?.rotation.set(0, 0, 0);
+
+  // El tobillo no se anima; si no es hijo del calf solo se mantiene unido
+  if (bones.ankle && bones.calf && rig.ankleOffset && bones.ankle.parent !== bones.calf) {
+    followBone(bones.ankle, bones.calf, rig.ankleOffset);
+  }
+
+  // El pie lleva el movimiento: flexión en X, paso lateral en Z y el arco encima
+  if (bones.foot) {
+    const archHeight = params.archHeight - (compression?.arch.compression ?? 0);
+    const archRotation = (archHeight - 4) * 0.01;
+    if (bones.ankle && bones.foot.parent !== bones.ankle && rig.footOffset) {
+      followBone(bones.foot, bones.ankle, rig.footOffset);
+      bones.foot.rotateX(-ankleRad);
+      bones.foot.rotateZ(stepRad);
+    } else {
+      bones.foot.rotation.set(-ankleRad, 0, stepRad);
+    }
+    bones.foot.rotateX(archRotation);
+    bones.foot.scale.set(1, 1, params.footLength / 26);
+  }
+
+  if (bones.heel) {
+    const heelRadius = params.heelRadius - (compression?.heel.compression ?? 0);
+    bones.heel.scale.setScalar(heelRadius / 5);
+  }
+
+  bones.toes.forEach((toe, idx) => {
+    toe.visible = idx < params.toeCount;
+  });
+}
@@ -0,0 +1,200 @@
+// src/lib/motionRecorder.ts
+// Grabación de la animación de marcha: una muestra por frame con la pose de
+// cada pierna y su fase. Las trayectorias y el CSV se derivan de las muestras
+// con la cinemática directa (cm, marco de lib/kinematics).
+import type { GaitPhase, LegParams, LegSide } from "@/lib/types";
+import { anatomicalAngles } from "@/lib/joints";
+import { forwardKinematics, type LegJoints, type Vec3 } from "@/lib/kinematics";
+import type { GroundContact } from "@/lib/groundReaction";
+
+export type TracePoint = keyof LegJoints;
+
+export const TRACE_POINTS: TracePoint[] = ["hip", "knee", "ankle", "heel", "toe"];
+
+export const TRACE_LABELS: Record<TracePoint, string> = {
+  hip: "Cadera",
+  knee: "Rodilla",
+  ankle: "Tobillo",
+  heel: "Talón",
+  toe: "Punta",
+};
+
+export const PHASE_LABELS: Record<GaitPhase, string> = {
+  "heel-strike": "Contacto de talón",
+  "foot-flat": "Pie plano",
+  "heel-rise": "Elevación de talón",
+  "toe-off": "Despegue",
+  swing: "Balanceo",
+};
+
+export type LegSample = {
+  params: LegParams;
+  phase: GaitPhase;
+  /** Progreso del ciclo de ESTA pierna (0..1) */
+  cycle: number;
+  /** Tramos de apoyo y carga de esta pierna en la actividad grabada */
+  contact: GroundContact;
+};
+
+export type MotionSample = {
+  /** Segundos desde el inicio de la grabación */
+  time: number;
+  left: LegSample;
+  /** Solo en modo bilateral */
+  right?: LegSample;
+  /** Separación entre caderas (cm) para ubicar la pierna derecha */
+  pelvisWidth: number;
+};
+
+export type MotionRecording = {
+  samples: MotionSample[];
+  recording: boolean;
+};
+
+export type MotionRecorder = ReturnType<typeof createMotionRecorder>;
+
+const EMPTY: MotionRecording = { samples: [], recording: false };
+
+export function createMotionRecorder() {
+  const listeners = new Set<() => void>();
+  let state = EMPTY;
+
+  const setState = (next: MotionRecording) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getState: () => state,
+    /** Empieza una grabación nueva descartando la anterior */
+    start() {
+      setState({ samples: [], recording: true });
+    },
+    record(sample: MotionSample) {
+      if (!state.recording) return;
+      setState({ ...state, samples: [...state.samples, sample] });
+    },
+    stop() {
+      if (state.recording) setState({ ...state, recording: false });
+    },
+    clear() {
+      setState(EMPTY);
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// La pierna izquierda está en -z y la derecha en +z (ver CanvasScene)
+function sideOffset(sample: MotionSample, side: LegSide) {
+  if (!sample.right) return 0;
+  return ((side === "right" ? 1 : -1) * sample.pelvisWidth) / 2;
+}
+
+function legSample(sample: MotionSample, side: LegSide) {
+  return side === "right" ? sample.right : sample.left;
+}
+
+/** Trayectoria de un punto en el marco de su pierna (cm, sin la separación de caderas) */
+export function tracePath(samples: MotionSample[], side: LegSide, point: TracePoint): Vec3[] {
+  const path: Vec3[] = [];
+  for (const sample of samples) {
+    const leg = legSample(sample, side);
+    if (leg) path.push(forwardKinematics(leg.params).joints[point]);
+  }
+  return path;
+}
+
+const CSV_HEADER = ["time_s", "cycle_pct", "side", "phase", "point", "x_cm", "y_cm", "z_cm"];
+
+/** Una fila por muestra, pierna y punto: tiempo, fase y posición (cm) */
+export function motionToCsv(samples: MotionSample[], points: TracePoint[]): string {
+  const rows = [CSV_HEADER.join(",")];
+  for (const sample of samples) {
+    for (const side of ["left", "right"] as const) {
+      const leg = legSample(sample, side);
+      if (!leg) continue;
+      const joints = forwardKinematics(leg.params).joints;
+      const dz = sideOffset(sample, side);
+      for (const point of points) {
+        const [x, y, z] = joints[point];
+        rows.push(
+          [
+            sample.time.toFixed(4),
+            (leg.cycle * 100).toFixed(1),
+            side,
+            leg.phase,
+            point,
+            x.toFixed(3),
+            y.toFixed(3),
+            (z + dz).toFixed(3),
+          ].join(",")
+        );
+      }
+    }
+  }
+  return rows.join("\n");
+}
+
+export type CycleRow = {
+  /** Centro del tramo, % del ciclo de marcha */
+  pct: number;
+  /** Ángulos anatómicos (°): flexión de cadera y rodilla, plantarflexión */
+  hip: number;
+  knee: number;
+  ankle: number;
+  stepAngle: number;
+  verticalShift: number;
+  /** La mayoría de las muestras del tramo tenían el pie apoyado */
+  stance: boolean;
+};
+
+/**
+ * Promedia las muestras de una pierna por tramos del ciclo (0–100 %), de modo
+ * que varios ciclos grabados se superponen en una sola curva.
+ */
+export function cycleSeries(samples: MotionSample[], side: LegSide, binPct = 2): CycleRow[] {
+  const bins = Math.ceil(100 / binPct);
+  const acc = Array.from({ length: bins }, () => ({
+    n: 0,
+    stance: 0,
+    hip: 0,
+    knee: 0,
+    ankle: 0,
+    stepAngle: 0,
+    verticalShift: 0,
+  }));
+
+  for (const sample of samples) {
+    const leg = legSample(sample, side);
+    if (!leg) continue;
+    const bin = acc[Math.min(bins - 1, Math.floor((leg.cycle * 100) / binPct))];
+    const angles = anatomicalAngles(leg.params);
+    bin.n++;
+    if (leg.phase !== "swing") bin.stance++;
+    bin.hip += angles.hip;
+    bin.knee += angles.knee;
+    bin.ankle += angles.ankle;
+    bin.stepAngle += leg.params.stepAngle;
+    bin.verticalShift += leg.params.verticalShift;
+  }
+
+  const rows: CycleRow[] = [];
+  acc.forEach((bin, i) => {
+    if (bin.n === 0) return;
+    rows.push({
+      pct: (i + 0.5) * binPct,
+      hip: bin.hip / bin.n,
+      knee: bin.knee / bin.n,
+      ankle: bin.ankle / bin.n,
+      stepAngle: bin.stepAngle / bin.n,
+      verticalShift: bin.verticalShift / bin.n,
+      stance: bin.stance * 2 >= bin.n,
+    });
+  });
+  return rows;
+}
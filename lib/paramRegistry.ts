@@ -0,0 +1,294 @@
+// src/lib/paramRegistry.ts
+// Registro central de metadatos de LegParams: rangos, pasos, unidades,
+// etiquetas y grupos. ControlPanel, el almacenamiento, DataModal e InfoCard
+// leen de aquí, así que agregar un parámetro es un cambio en un solo lugar.
+import type { LegParams } from "@/lib/types";
+import {
+  DEFAULT_UNITS,
+  displayDigits,
+  displaySymbol,
+  toDisplay,
+  type UnitPrefs,
+} from "@/lib/units";
+
+export type ParamKey = keyof LegParams;
+
+export type ParamUnit = "cm" | "°" | "";
+
+export type ParamGroupId = "joints" | "transforms" | "foot" | "leg" | "dynamics";
+
+export type ParamColor = "purple" | "blue" | "green" | "amber";
+
+export type ParamMeta = {
+  label: string;
+  /** Etiqueta corta con icono para tablas y reportes */
+  shortLabel: string;
+  unit: ParamUnit;
+  min: number;
+  max: number;
+  step: number;
+  group: ParamGroupId;
+  description: string;
+  /** Solo acepta valores enteros (p. ej. número de dedos) */
+  integer?: boolean;
+  color?: ParamColor;
+};
+
+export type ParamGroup = {
+  id: ParamGroupId;
+  title: string;
+  badge?: string;
+};
+
+export const PARAM_GROUPS: ParamGroup[] = [
+  { id: "joints", title: "🦴 Control de Articulaciones", badge: "Principal" },
+  { id: "transforms", title: "🔄 Transformaciones" },
+  { id: "foot", title: "🦶 Dimensiones del Pie", badge: "Morfología" },
+  { id: "leg", title: "🦵 Dimensiones de Pierna" },
+  { id: "dynamics", title: "🔧 Sistema de Amortiguación", badge: "Física" },
+];
+
+export const PARAM_META: Record<ParamKey, ParamMeta> = {
+  hipAngle: {
+    label: "Ángulo de Cadera",
+    shortLabel: "🔄 Cadera",
+    unit: "°",
+    min: -30,
+    // Por encima de 180 (neutro) la cadera se extiende: cubre el perfil más amplio (robot, −30°)
+    max: 210,
+    step: 1,
+    group: "joints",
+    description: "Flexión de cadera",
+    color: "blue",
+  },
+  kneeAngle: {
+    label: "Ángulo de Rodilla",
+    shortLabel: "🔄 Rodilla",
+    unit: "°",
+    min: 0,
+    max: 140,
+    step: 1,
+    group: "joints",
+    description: "Flexión de rodilla",
+    color: "green",
+  },
+  ankleAngle: {
+    label: "Ángulo de Tobillo",
+    shortLabel: "🔄 Tobillo",
+    unit: "°",
+    // Por debajo de -85 (neutro) el tobillo va en dorsiflexión: cubre el robot (−45°)
+    min: -130,
+    max: 45,
+    step: 1,
+    group: "joints",
+    description: "Dorsiflexión/plantarflexión",
+    color: "purple",
+  },
+  footRotation: {
+    label: "Rotación del Pie",
+    shortLabel: "🔄 Rotación pie",
+    unit: "°",
+    min: -45,
+    max: 45,
+    step: 1,
+    group: "transforms",
+    description: "Rotación en Y",
+  },
+  stepAngle: {
+    label: "Ángulo de Pisada",
+    shortLabel: "👟 Ángulo de paso",
+    unit: "°",
+    min: -45,
+    max: 45,
+    step: 1,
+    group: "transforms",
+    description: "Rotación Z en tobillo",
+  },
+  verticalShift: {
+    label: "Elevación Vertical",
+    shortLabel: "⬆️ Shift vertical",
+    unit: "cm",
+    min: -50,
+    max: 20,
+    step: 0.5,
+    group: "transforms",
+    description: "Traslación en Y (negativa baja la cadera)",
+  },
+  footLength: {
+    label: "Longitud del Pie",
+    shortLabel: "📏 Longitud pie",
+    unit: "cm",
+    min: 20,
+    max: 35,
+    step: 0.5,
+    group: "foot",
+    description: "Distancia del talón a la punta",
+  },
+  archHeight: {
+    label: "Altura del Arco",
+    shortLabel: "🌉 Altura arco",
+    unit: "cm",
+    min: 2,
+    max: 8,
+    step: 0.2,
+    group: "foot",
+    description: "Altura máxima del arco plantar",
+  },
+  heelRadius: {
+    label: "Radio del Talón",
+    shortLabel: "⚪ Radio talón",
+    unit: "cm",
+    min: 3,
+    max: 7,
+    step: 0.2,
+    group: "foot",
+    description: "Radio de la base circular del talón",
+  },
+  toeCount: {
+    label: "Número de Dedos",
+    shortLabel: "👣 Dedos",
+    unit: "",
+    min: 0,
+    max: 5,
+    step: 1,
+    group: "foot",
+    description: "Dedos visibles en el modelo",
+    integer: true,
+  },
+  tibiaLength: {
+    label: "Longitud de Tibia",
+    shortLabel: "🦴 Tibia",
+    unit: "cm",
+    min: 30,
+    max: 50,
+    step: 1,
+    group: "leg",
+    description: "Segmento rodilla–tobillo",
+  },
+  femurLength: {
+    label: "Longitud de Fémur",
+    shortLabel: "🦴 Fémur",
+    unit: "cm",
+    min: 35,
+    max: 55,
+    step: 1,
+    group: "leg",
+    description: "Segmento cadera–rodilla",
+  },
+  legThickness: {
+    label: "Grosor General",
+    shortLabel: "📐 Grosor",
+    unit: "cm",
+    min: 4,
+    max: 10,
+    step: 0.5,
+    group: "leg",
+    description: "Grosor de los segmentos de la pierna",
+  },
+  springStiffness: {
+    label: "Rigidez del Resorte (k)",
+    shortLabel: "💪 Rigidez (k)",
+    unit: "",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    group: "dynamics",
+    description: "Rigidez normalizada del talón/arco",
+    color: "amber",
+  },
+  dampingFactor: {
+    label: "Amortiguamiento (c)",
+    shortLabel: "🌊 Damping (c)",
+    unit: "",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    group: "dynamics",
+    description: "Factor de amortiguamiento normalizado",
+    color: "amber",
+  },
+};
+
+export const PARAM_KEYS = Object.keys(PARAM_META) as ParamKey[];
+
+export function paramsInGroup(group: ParamGroupId): ParamKey[] {
+  return PARAM_KEYS.filter((key) => PARAM_META[key].group === group);
+}
+
+export function clampParam(key: ParamKey, value: number): number {
+  const meta = PARAM_META[key];
+  const v = Math.max(meta.min, Math.min(meta.max, value));
+  return meta.integer ? Math.round(v) : v;
+}
+
+/** Decimales que implica el paso canónico de un parámetro */
+export function stepDigits(key: ParamKey): number {
+  const step = PARAM_META[key].step;
+  return step < 1 ? (step < 0.1 ? 2 : 1) : 0;
+}
+
+/**
+ * Formatea un valor canónico con los decimales que implica su paso, en las
+ * unidades de presentación elegidas (cm y grados por defecto).
+ */
+export function formatParam(
+  key: ParamKey,
+  value: number,
+  units: UnitPrefs = DEFAULT_UNITS
+): string {
+  const meta = PARAM_META[key];
+  const text = toDisplay(meta.unit, value, units).toFixed(
+    displayDigits(meta.unit, stepDigits(key), units)
+  );
+  const symbol = displaySymbol(meta.unit, units);
+  if (!symbol) return text;
+  return symbol === "°" ? `${text}°` : `${text} ${symbol}`;
+}
+
+export type ParamIssue = {
+  key: ParamKey;
+  kind: "missing" | "invalid" | "out-of-range";
+  value: unknown;
+};
+
+export type SanitizeResult = {
+  /** null solo en modo "strict" cuando hubo algún problema */
+  params: LegParams | null;
+  issues: ParamIssue[];
+};
+
+/**
+ * Valida un objeto arbitrario contra el registro.
+ * - "clamp": completa faltantes con `fallback` y recorta valores fuera de rango.
+ * - "strict": rechaza (params = null) si hay cualquier problema.
+ */
+export function sanitizeParams(
+  input: unknown,
+  fallback: LegParams,
+  mode: "clamp" | "strict" = "clamp"
+): SanitizeResult {
+  const issues: ParamIssue[] = [];
+  const source =
+    input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const result = { ...fallback };
+
+  for (const key of PARAM_KEYS) {
+    const raw = source[key];
+    if (raw === undefined) {
+      issues.push({ key, kind: "missing", value: raw });
+      continue;
+    }
+    if (typeof raw !== "number" || !Number.isFinite(raw)) {
+      issues.push({ key, kind: "invalid", value: raw });
+      continue;
+    }
+    const clamped = clampParam(key, raw);
+    if (clamped !== raw) issues.push({ key, kind: "out-of-range", value: raw });
+    result[key] = clamped;
+  }
+
+  if (mode === "strict" && issues.length > 0) {
+    return { params: null, issues };
+  }
+  return { params: result, issues };
+}
@@ -0,0 +1,426 @@
+// src/lib/paramStore.ts
+// Store único y suscribible de los parámetros de la pierna, el modelo activo,
+// la línea de tiempo y las preferencias globales.
+// - Restaura la última sesión de localStorage al crearse (en el cliente).
+// - Persiste con debounce en el envelope versionado de paramsStorage.
+// - Sincroniza en vivo entre pestañas con BroadcastChannel y, como respaldo,
+//   con eventos `storage`.
+import type { BilateralConfig, LegParams, LegSide } from "@/lib/types";
+import {
+  PARAMS_STORAGE_KEY,
+  decodeStoredParams,
+  encodeStoredParams,
+  loadStoredParams,
+  saveStoredParams,
+  type LoadResult,
+} from "@/lib/paramsStorage";
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_STORAGE_KEY,
+  parsePreferences,
+  type Preferences,
+} from "@/lib/preferences";
+import {
+  DEFAULT_TIMELINE,
+  TIMELINE_STORAGE_KEY,
+  parseTimeline,
+  type Timeline,
+} from "@/lib/timeline";
+
+export const GLTF_STORAGE_KEY = "pierna:gltf";
+export const RIGHT_PARAMS_STORAGE_KEY = "pierna:params:right";
+export const BILATERAL_STORAGE_KEY = "pierna:bilateral";
+
+export const DEFAULT_BILATERAL: BilateralConfig = {
+  enabled: false,
+  link: "mirror",
+  pelvisWidth: 20,
+  activeSide: "left",
+};
+
+export const PELVIS_WIDTH_RANGE = { min: 10, max: 40, step: 1 };
+const SYNC_CHANNEL = "pierna:sync";
+const PERSIST_DELAY_MS = 250;
+
+export type StoredRecovery = Pick<
+  LoadResult,
+  "status" | "fromVersion" | "quarantineKey" | "reason"
+>;
+
+export type ParamStoreState = {
+  /** Pierna principal (izquierda en modo bilateral) */
+  params: LegParams;
+  /** Pierna derecha; igual a `params` cuando bilateral.link es "mirror" */
+  rightParams: LegParams;
+  bilateral: BilateralConfig;
+  preferences: Preferences;
+  gltfUrl: string;
+  /** Keyframes de la animación propia del diseño */
+  timeline: Timeline;
+  recovery: StoredRecovery;
+};
+
+export type SetParamsOptions = {
+  /**
+   * Escritura de alta frecuencia (frames de animación): actualiza la vista
+   * pero no se persiste ni se envía a otras pestañas.
+   */
+  transient?: boolean;
+};
+
+type SyncMessage =
+  | { type: "params"; source: string; params: LegParams; rightParams: LegParams }
+  | { type: "bilateral"; source: string; bilateral: BilateralConfig }
+  | { type: "preferences"; source: string; preferences: Preferences }
+  | { type: "gltf"; source: string; gltfUrl: string }
+  | { type: "timeline"; source: string; timeline: Timeline }
+  | { type: "reset"; source: string };
+
+type ParamsUpdate = LegParams | ((prev: LegParams) => LegParams);
+
+export type ParamStore = ReturnType<typeof createParamStore>;
+
+function sameParams(a: LegParams, b: LegParams) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Las URLs blob: solo existen en la pestaña que las creó
+function isShareableUrl(url: string) {
+  return !url.startsWith("blob:");
+}
+
+function readTimeline(raw: string | null): Timeline {
+  if (!raw) return DEFAULT_TIMELINE;
+  try {
+    return parseTimeline(JSON.parse(raw));
+  } catch {
+    return DEFAULT_TIMELINE;
+  }
+}
+
+/** Configuración bilateral saneada (también la de los diseños guardados) */
+export function decodeBilateral(value: unknown): BilateralConfig {
+  const parsed = (value ?? {}) as Partial<BilateralConfig>;
+  const width = Number(parsed.pelvisWidth);
+  return {
+    enabled: parsed.enabled === true,
+    link: parsed.link === "independent" ? "independent" : "mirror",
+    pelvisWidth: Number.isFinite(width)
+      ? Math.max(PELVIS_WIDTH_RANGE.min, Math.min(PELVIS_WIDTH_RANGE.max, width))
+      : DEFAULT_BILATERAL.pelvisWidth,
+    activeSide: parsed.activeSide === "right" ? "right" : "left",
+  };
+}
+
+function parseBilateral(raw: string | null): BilateralConfig {
+  if (!raw) return DEFAULT_BILATERAL;
+  try {
+    return decodeBilateral(JSON.parse(raw));
+  } catch {
+    return DEFAULT_BILATERAL;
+  }
+}
+
+export function createParamStore(defaults: LegParams) {
+  const tabId = Math.random().toString(36).slice(2);
+  const listeners = new Set<() => void>();
+  let state: ParamStoreState = {
+    params: defaults,
+    rightParams: defaults,
+    bilateral: DEFAULT_BILATERAL,
+    preferences: DEFAULT_PREFERENCES,
+    gltfUrl: "",
+    timeline: DEFAULT_TIMELINE,
+    recovery: { status: "empty" },
+  };
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+  let channel: BroadcastChannel | null = null;
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const setState = (patch: Partial<ParamStoreState>) => {
+    state = { ...state, ...patch };
+    emit();
+  };
+
+  const persistParams = () => {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      writeParams();
+    }, PERSIST_DELAY_MS);
+  };
+
+  const writeParams = () => {
+    try {
+      saveStoredParams(localStorage, state.params);
+      localStorage.setItem(RIGHT_PARAMS_STORAGE_KEY, encodeStoredParams(state.rightParams));
+    } catch (e) {
+      console.warn("[paramStore] error saving params", e);
+    }
+  };
+
+  const post = (message: SyncMessage) => {
+    try {
+      channel?.postMessage(message);
+    } catch (e) {
+      console.warn("[paramStore] error broadcasting", e);
+    }
+  };
+
+  // Restaurar la última sesión (solo en el cliente)
+  if (typeof window !== "undefined") {
+    try {
+      const loaded = loadStoredParams(localStorage, defaults);
+      if (loaded.status === "quarantined") {
+        console.warn(
+          `[paramStore] entrada corrupta apartada en ${loaded.quarantineKey}: ${loaded.reason}`
+        );
+      } else if (loaded.issues.length > 0) {
+        console.warn("[paramStore] parámetros guardados corregidos", loaded.issues);
+      }
+      const bilateral = parseBilateral(localStorage.getItem(BILATERAL_STORAGE_KEY));
+      let rightParams = loaded.params;
+      const rawRight = localStorage.getItem(RIGHT_PARAMS_STORAGE_KEY);
+      if (bilateral.link === "independent" && rawRight) {
+        try {
+          rightParams = decodeStoredParams(rawRight, defaults).params;
+        } catch (e) {
+          console.warn("[paramStore] pierna derecha inválida, se copia la izquierda", e);
+        }
+      }
+      state = {
+        params: loaded.params,
+        rightParams,
+        bilateral,
+        preferences: parsePreferences(localStorage.getItem(PREFERENCES_STORAGE_KEY)),
+        gltfUrl: localStorage.getItem(GLTF_STORAGE_KEY) ?? "",
+        timeline: readTimeline(localStorage.getItem(TIMELINE_STORAGE_KEY)),
+        recovery: {
+          status: loaded.status,
+          fromVersion: loaded.fromVersion,
+          quarantineKey: loaded.quarantineKey,
+          reason: loaded.reason,
+        },
+      };
+    } catch (e) {
+      console.warn("[paramStore] error loading params", e);
+    }
+  }
+
+  const applyRemoteParams = (params: LegParams, rightParams: LegParams) => {
+    if (sameParams(params, state.params) && sameParams(rightParams, state.rightParams)) {
+      return;
+    }
+    setState({ params, rightParams });
+  };
+
+  const applyRemoteBilateral = (bilateral: BilateralConfig) => {
+    if (JSON.stringify(bilateral) !== JSON.stringify(state.bilateral)) setState({ bilateral });
+  };
+
+  const applyRemotePreferences = (preferences: Preferences) => {
+    if (JSON.stringify(preferences) !== JSON.stringify(state.preferences)) {
+      setState({ preferences });
+    }
+  };
+
+  // Escribe ambas piernas; en modo "mirror" la derecha siempre copia la izquierda
+  const commitLegs = (
+    params: LegParams,
+    rightParams: LegParams,
+    options: SetParamsOptions
+  ) => {
+    if (params === state.params && rightParams === state.rightParams) return;
+    setState({ params, rightParams });
+    if (options.transient) return;
+    persistParams();
+    post({ type: "params", source: tabId, params, rightParams });
+  };
+
+  const resolve = (next: ParamsUpdate, prev: LegParams) =>
+    typeof next === "function" ? next(prev) : next;
+
+  /** Pierna principal; en modo "mirror" también actualiza la derecha */
+  const setParams = (next: ParamsUpdate, options: SetParamsOptions = {}) => {
+    const params = resolve(next, state.params);
+    const mirror = state.bilateral.link === "mirror";
+    commitLegs(params, mirror ? params : state.rightParams, options);
+  };
+
+  const applyRemoteGltf = (gltfUrl: string) => {
+    if (gltfUrl !== state.gltfUrl) setState({ gltfUrl });
+  };
+
+  const applyRemoteTimeline = (timeline: Timeline) => {
+    if (JSON.stringify(timeline) !== JSON.stringify(state.timeline)) setState({ timeline });
+  };
+
+  // Vuelve a los valores por defecto sin escribir nada: lo pendiente se descarta
+  const applyReset = () => {
+    if (persistTimer) {
+      clearTimeout(persistTimer);
+      persistTimer = null;
+    }
+    setState({
+      params: defaults,
+      rightParams: defaults,
+      bilateral: DEFAULT_BILATERAL,
+      gltfUrl: "",
+      timeline: DEFAULT_TIMELINE,
+      recovery: { status: "empty" },
+    });
+  };
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.storageArea !== localStorage) return;
+    if (
+      (e.key === PARAMS_STORAGE_KEY || e.key === RIGHT_PARAMS_STORAGE_KEY) &&
+      e.newValue
+    ) {
+      try {
+        const params = decodeStoredParams(e.newValue, defaults).params;
+        if (e.key === PARAMS_STORAGE_KEY) {
+          applyRemoteParams(
+            params,
+            state.bilateral.link === "mirror" ? params : state.rightParams
+          );
+        } else {
+          applyRemoteParams(state.params, params);
+        }
+      } catch (err) {
+        console.warn("[paramStore] ignoring invalid params from another tab", err);
+      }
+    } else if (e.key === BILATERAL_STORAGE_KEY) {
+      applyRemoteBilateral(parseBilateral(e.newValue));
+    } else if (e.key === PREFERENCES_STORAGE_KEY) {
+      applyRemotePreferences(parsePreferences(e.newValue));
+    } else if (e.key === GLTF_STORAGE_KEY && e.newValue !== null) {
+      applyRemoteGltf(e.newValue);
+    } else if (e.key === TIMELINE_STORAGE_KEY) {
+      applyRemoteTimeline(readTimeline(e.newValue));
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    setParams,
+
+    /** Edita un lado; la derecha enlazada en "mirror" redirige a la izquierda */
+    setSideParams(side: LegSide, next: ParamsUpdate, options: SetParamsOptions = {}) {
+      if (side === "left" || state.bilateral.link === "mirror") {
+        setParams(next, options);
+        return;
+      }
+      commitLegs(state.params, resolve(next, state.rightParams), options);
+    },
+
+    /** Escribe ambas piernas tal cual (animación desfasada, deshacer) */
+    setLegs(params: LegParams, rightParams: LegParams, options: SetParamsOptions = {}) {
+      commitLegs(params, rightParams, options);
+    },
+
+    setBilateral(patch: Partial<BilateralConfig>) {
+      const bilateral = { ...state.bilateral, ...patch };
+      // Al volver a enlazar, la derecha vuelve a copiar la izquierda
+      const relink = bilateral.link === "mirror" && state.bilateral.link !== "mirror";
+      setState({ bilateral });
+      if (relink) commitLegs(state.params, state.params, {});
+      try {
+        localStorage.setItem(BILATERAL_STORAGE_KEY, JSON.stringify(bilateral));
+      } catch (e) {
+        console.warn("[paramStore] error saving bilateral config", e);
+      }
+      post({ type: "bilateral", source: tabId, bilateral });
+    },
+
+    setPreferences(patch: Partial<Preferences>) {
+      const preferences = { ...state.preferences, ...patch };
+      setState({ preferences });
+      try {
+        localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+      } catch (e) {
+        console.warn("[paramStore] error saving preferences", e);
+      }
+      post({ type: "preferences", source: tabId, preferences });
+    },
+
+    setGltfUrl(gltfUrl: string) {
+      if (gltfUrl === state.gltfUrl) return;
+      setState({ gltfUrl });
+      if (!isShareableUrl(gltfUrl)) return;
+      try {
+        localStorage.setItem(GLTF_STORAGE_KEY, gltfUrl);
+      } catch (e) {
+        console.warn("[paramStore] error saving gltf", e);
+      }
+      post({ type: "gltf", source: tabId, gltfUrl });
+    },
+
+    setTimeline(timeline: Timeline) {
+      if (timeline === state.timeline) return;
+      setState({ timeline });
+      try {
+        localStorage.setItem(TIMELINE_STORAGE_KEY, JSON.stringify(timeline));
+      } catch (e) {
+        console.warn("[paramStore] error saving timeline", e);
+      }
+      post({ type: "timeline", source: tabId, timeline });
+    },
+
+    /** Borra lo guardado y vuelve a los valores por defecto */
+    clear() {
+      try {
+        localStorage.removeItem(PARAMS_STORAGE_KEY);
+        localStorage.removeItem(RIGHT_PARAMS_STORAGE_KEY);
+        localStorage.removeItem(BILATERAL_STORAGE_KEY);
+        localStorage.removeItem(GLTF_STORAGE_KEY);
+        localStorage.removeItem(TIMELINE_STORAGE_KEY);
+      } catch (e) {}
+      applyReset();
+      post({ type: "reset", source: tabId });
+    },
+
+    /** Empieza a escuchar cambios de otras pestañas; devuelve la limpieza */
+    connect() {
+      if (typeof BroadcastChannel !== "undefined") {
+        channel = new BroadcastChannel(SYNC_CHANNEL);
+        channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+          const message = e.data;
+          if (!message || message.source === tabId) return;
+          if (message.type === "params") {
+            applyRemoteParams(message.params, message.rightParams);
+          } else if (message.type === "bilateral") {
+            applyRemoteBilateral(message.bilateral);
+          } else if (message.type === "preferences") {
+            applyRemotePreferences(message.preferences);
+          } else if (message.type === "gltf") {
+            applyRemoteGltf(message.gltfUrl);
+          } else if (message.type === "timeline") {
+            applyRemoteTimeline(message.timeline);
+          } else if (message.type === "reset") applyReset();
+        };
+      }
+      window.addEventListener("storage", handleStorage);
+      return () => {
+        window.removeEventListener("storage", handleStorage);
+        channel?.close();
+        channel = null;
+        // Escribir lo pendiente antes de desmontar
+        if (persistTimer) {
+          clearTimeout(persistTimer);
+          persistTimer = null;
+          writeParams();
+        }
+      };
+    },
+  };
+}
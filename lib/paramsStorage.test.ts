@@ -0,0 +1,126 @@
+// src/lib/paramsStorage.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import {
+  CorruptEntryError,
+  PARAMS_SCHEMA_VERSION,
+  PARAMS_STORAGE_KEY,
+  QUARANTINE_PREFIX,
+  decodeParamsValue,
+  encodeStoredParams,
+  listQuarantined,
+  loadStoredParams,
+} from "@/lib/paramsStorage";
+
+/** localStorage en memoria para las pruebas en Node */
+function memoryStorage(entries: Record<string, string> = {}): Storage {
+  const data = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (i) => [...data.keys()][i] ?? null,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, String(value)),
+    removeItem: (key) => void data.delete(key),
+    clear: () => data.clear(),
+  };
+}
+
+const envelope = (params: Record<string, unknown>, version = PARAMS_SCHEMA_VERSION) => ({
+  version,
+  savedAt: "2024-01-01T00:00:00.000Z",
+  params,
+});
+
+describe("decodeParamsValue", () => {
+  it("acepta el envelope actual sin cambios", () => {
+    const decoded = decodeParamsValue(envelope({ ...defaultParams, kneeAngle: 30 }), defaultParams);
+    expect(decoded.fromVersion).toBe(PARAMS_SCHEMA_VERSION);
+    expect(decoded.params.kneeAngle).toBe(30);
+    expect(decoded.issues).toEqual([]);
+  });
+
+  it("migra los LegParams sin envelope y sus nombres antiguos", () => {
+    const { springStiffness, dampingFactor, footRotation, toeCount, ...rest } = defaultParams;
+    const legacy = { ...rest, stiffness: 0.8, damping: 0.1, rotation: 15, toes: 3 };
+    const decoded = decodeParamsValue(legacy, defaultParams);
+    expect(decoded.fromVersion).toBe(0);
+    expect(decoded.params).toMatchObject({
+      springStiffness: 0.8,
+      dampingFactor: 0.1,
+      footRotation: 15,
+      toeCount: 3,
+    });
+    expect(decoded.params).not.toHaveProperty("stiffness");
+  });
+
+  it("el nombre actual gana al antiguo si vienen los dos", () => {
+    const decoded = decodeParamsValue({ ...defaultParams, springStiffness: 0.2, stiffness: 0.9 }, defaultParams);
+    expect(decoded.params.springStiffness).toBe(0.2);
+  });
+
+  it("completa los faltantes y recorta los fuera de rango", () => {
+    const { kneeAngle: _, ...partial } = defaultParams;
+    const decoded = decodeParamsValue(envelope({ ...partial, toeCount: 9 }), defaultParams);
+    expect(decoded.params.kneeAngle).toBe(defaultParams.kneeAngle);
+    expect(decoded.params.toeCount).toBe(5);
+    expect(decoded.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ key: "kneeAngle", kind: "missing" }),
+        expect.objectContaining({ key: "toeCount", kind: "out-of-range" }),
+      ])
+    );
+  });
+
+  it.each([
+    ["un valor no numérico", envelope({ ...defaultParams, kneeAngle: "mucho" })],
+    ["una versión más nueva", envelope(defaultParams, PARAMS_SCHEMA_VERSION + 1)],
+    ["una versión no entera", envelope(defaultParams, 0.5)],
+    ["un envelope sin params", { version: 1, params: null }],
+    ["un array", [defaultParams]],
+  ])("rechaza %s como entrada corrupta", (_, value) => {
+    expect(() => decodeParamsValue(value, defaultParams)).toThrow(CorruptEntryError);
+  });
+});
+
+describe("loadStoredParams", () => {
+  it("sin nada guardado devuelve los valores por defecto", () => {
+    const result = loadStoredParams(memoryStorage(), defaultParams);
+    expect(result.status).toBe("empty");
+    expect(result.params).toBe(defaultParams);
+  });
+
+  it("reescribe en el formato actual lo que migra", () => {
+    const { toeCount, ...rest } = defaultParams;
+    const storage = memoryStorage({
+      [PARAMS_STORAGE_KEY]: JSON.stringify({ ...rest, toes: 2 }),
+    });
+    const result = loadStoredParams(storage, defaultParams);
+    expect(result.status).toBe("migrated");
+    expect(result.fromVersion).toBe(0);
+    const saved = JSON.parse(storage.getItem(PARAMS_STORAGE_KEY)!);
+    expect(saved.version).toBe(PARAMS_SCHEMA_VERSION);
+    expect(saved.params.toeCount).toBe(2);
+  });
+
+  it("no reescribe una entrada válida", () => {
+    const raw = encodeStoredParams(defaultParams);
+    const storage = memoryStorage({ [PARAMS_STORAGE_KEY]: raw });
+    expect(loadStoredParams(storage, defaultParams).status).toBe("ok");
+    expect(storage.getItem(PARAMS_STORAGE_KEY)).toBe(raw);
+  });
+
+  it("aparta las entradas corruptas en cuarentena sin perderlas", () => {
+    const raw = "{ no es json";
+    const storage = memoryStorage({ [PARAMS_STORAGE_KEY]: raw });
+    const result = loadStoredParams(storage, defaultParams);
+    expect(result.status).toBe("quarantined");
+    expect(result.params).toBe(defaultParams);
+    expect(result.reason).toBe("JSON inválido");
+    expect(result.quarantineKey?.startsWith(QUARANTINE_PREFIX)).toBe(true);
+    expect(storage.getItem(result.quarantineKey!)).toBe(raw);
+    expect(storage.getItem(PARAMS_STORAGE_KEY)).toBeNull();
+    expect(listQuarantined(storage)).toEqual([result.quarantineKey]);
+  });
+});
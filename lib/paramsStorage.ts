@@ -0,0 +1,185 @@
+// src/lib/paramsStorage.ts
+// Persistencia versionada de LegParams: envelope con versión de esquema,
+// cadena de migraciones, completado desde defaults y cuarentena de entradas
+// corruptas (se apartan en otra clave en lugar de perderse en silencio).
+import type { LegParams } from "@/lib/types";
+import { sanitizeParams, type ParamIssue } from "@/lib/paramRegistry";
+
+export const PARAMS_STORAGE_KEY = "pierna:params";
+export const QUARANTINE_PREFIX = "pierna:params:quarantine:";
+
+export const PARAMS_SCHEMA_VERSION = 1;
+
+export type StoredEnvelope = {
+  version: number;
+  savedAt: string;
+  params: LegParams;
+};
+
+type Migration = (params: Record<string, unknown>) => Record<string, unknown>;
+
+// Nombres usados por builds anteriores que ya no existen en LegParams
+const LEGACY_RENAMES: Record<string, keyof LegParams> = {
+  stiffness: "springStiffness",
+  damping: "dampingFactor",
+  rotation: "footRotation",
+  toes: "toeCount",
+};
+
+/**
+ * MIGRATIONS[n] convierte los params de la versión n a la n + 1.
+ * La versión 0 es el JSON crudo de LegParams que se guardaba sin envelope.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (params) => {
+    const next = { ...params };
+    for (const [from, to] of Object.entries(LEGACY_RENAMES)) {
+      if (from in next) {
+        if (next[to] === undefined) next[to] = next[from];
+        delete next[from];
+      }
+    }
+    return next;
+  },
+};
+
+export type LoadStatus = "empty" | "ok" | "migrated" | "repaired" | "quarantined";
+
+export type LoadResult = {
+  params: LegParams;
+  status: LoadStatus;
+  /** Versión encontrada en el almacenamiento (0 = formato sin envelope) */
+  fromVersion?: number;
+  /** Clave donde quedó apartada la entrada corrupta */
+  quarantineKey?: string;
+  reason?: string;
+  issues: ParamIssue[];
+};
+
+export class CorruptEntryError extends Error {}
+
+function unwrap(parsed: unknown): { version: number; params: Record<string, unknown> } {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new CorruptEntryError("El contenido no es un objeto");
+  }
+  const obj = parsed as Record<string, unknown>;
+  if ("version" in obj && "params" in obj) {
+    if (typeof obj.version !== "number" || !Number.isInteger(obj.version)) {
+      throw new CorruptEntryError("Versión de esquema inválida");
+    }
+    if (!obj.params || typeof obj.params !== "object") {
+      throw new CorruptEntryError("El envelope no contiene params");
+    }
+    return { version: obj.version, params: obj.params as Record<string, unknown> };
+  }
+  return { version: 0, params: obj };
+}
+
+/** Aplica la cadena de migraciones desde `version` hasta la actual */
+export function migrateParams(
+  params: Record<string, unknown>,
+  version: number
+): Record<string, unknown> {
+  if (version > PARAMS_SCHEMA_VERSION) {
+    throw new CorruptEntryError(
+      `Versión ${version} más nueva que la soportada (${PARAMS_SCHEMA_VERSION})`
+    );
+  }
+  let current = params;
+  for (let v = version; v < PARAMS_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new CorruptEntryError(`Falta la migración v${v} → v${v + 1}`);
+    current = migrate(current);
+  }
+  return current;
+}
+
+/**
+ * Convierte un valor ya parseado (envelope de cualquier versión o LegParams
+ * crudo) en LegParams válidos. Lanza si el contenido es irrecuperable.
+ */
+export function decodeParamsValue(
+  parsed: unknown,
+  defaults: LegParams
+): { params: LegParams; fromVersion: number; issues: ParamIssue[] } {
+  const { version, params } = unwrap(parsed);
+  const migrated = migrateParams(params, version);
+  const { params: sanitized, issues } = sanitizeParams(migrated, defaults);
+  // Un valor no numérico indica corrupción, no un campo faltante
+  const invalid = issues.filter((i) => i.kind === "invalid");
+  if (!sanitized || invalid.length > 0) {
+    throw new CorruptEntryError(
+      `Valores inválidos: ${invalid.map((i) => i.key).join(", ")}`
+    );
+  }
+  return { params: sanitized, fromVersion: version, issues };
+}
+
+/** Igual que decodeParamsValue pero a partir del texto guardado */
+export function decodeStoredParams(
+  raw: string,
+  defaults: LegParams
+): { params: LegParams; fromVersion: number; issues: ParamIssue[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new CorruptEntryError("JSON inválido");
+  }
+  return decodeParamsValue(parsed, defaults);
+}
+
+export function encodeStoredParams(params: LegParams): string {
+  const envelope: StoredEnvelope = {
+    version: PARAMS_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    params,
+  };
+  return JSON.stringify(envelope);
+}
+
+function quarantine(storage: Storage, raw: string): string {
+  const key = `${QUARANTINE_PREFIX}${Date.now()}`;
+  storage.setItem(key, raw);
+  storage.removeItem(PARAMS_STORAGE_KEY);
+  return key;
+}
+
+export function loadStoredParams(storage: Storage, defaults: LegParams): LoadResult {
+  const raw = storage.getItem(PARAMS_STORAGE_KEY);
+  if (raw === null) return { params: defaults, status: "empty", issues: [] };
+
+  try {
+    const { params, fromVersion, issues } = decodeStoredParams(raw, defaults);
+    let status: LoadStatus = "ok";
+    if (fromVersion < PARAMS_SCHEMA_VERSION) status = "migrated";
+    else if (issues.length > 0) status = "repaired";
+    // Reescribir en el formato actual para no migrar en cada carga
+    if (status !== "ok") storage.setItem(PARAMS_STORAGE_KEY, encodeStoredParams(params));
+    return { params, status, fromVersion, issues };
+  } catch (e) {
+    if (!(e instanceof CorruptEntryError)) throw e;
+    const quarantineKey = quarantine(storage, raw);
+    return {
+      params: defaults,
+      status: "quarantined",
+      quarantineKey,
+      reason: e.message,
+      issues: [],
+    };
+  }
+}
+
+export function saveStoredParams(storage: Storage, params: LegParams) {
+  storage.setItem(PARAMS_STORAGE_KEY, encodeStoredParams(params));
+}
+
+/** Claves de entradas apartadas, de la más reciente a la más antigua */
+export function listQuarantined(storage: Storage): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(QUARANTINE_PREFIX)) keys.push(key);
+  }
+  return keys.sort().reverse();
+}
@@ -0,0 +1,35 @@
+// src/lib/posePresets.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import {
+  POSE_KEYS,
+  POSE_PRESETS,
+  POSE_PRESET_IDS,
+  applyPose,
+  blendPoses,
+  poseFromParams,
+} from "@/lib/posePresets";
+
+describe("applyPose", () => {
+  it.each(POSE_PRESET_IDS)("aplica %s sin recortar ningún ángulo", (id) => {
+    const preset = POSE_PRESETS[id];
+    const pose = poseFromParams(applyPose(defaultParams, preset));
+    for (const key of POSE_KEYS) {
+      expect(Math.abs(pose[key] - preset[key]), key).toBeLessThanOrEqual(0.5);
+    }
+  });
+
+  it("no toca los parámetros que no son de pose", () => {
+    const next = applyPose(defaultParams, POSE_PRESETS.sitting);
+    expect(next.footLength).toBe(defaultParams.footLength);
+    expect(next.springStiffness).toBe(defaultParams.springStiffness);
+  });
+});
+
+describe("blendPoses", () => {
+  it("pondera hacia la segunda pose", () => {
+    const mid = blendPoses(POSE_PRESETS.standing, POSE_PRESETS.sitting, 0.5);
+    expect(mid.hip).toBe(45);
+    expect(blendPoses(POSE_PRESETS.standing, POSE_PRESETS.sitting, 2).hip).toBe(90);
+  });
+});
@@ -0,0 +1,190 @@
+// src/lib/posePresets.ts
+// Poses estáticas de referencia y poses guardadas por el usuario. Los
+// ángulos son anatómicos (lib/joints): flexión de cadera y rodilla y
+// plantarflexión del tobillo, 0° = de pie. Al aplicarlas se convierten a
+// los ángulos del modelo (hipAngle 180 = de pie) y se recortan al registro.
+import type { LegParams } from "@/lib/types";
+import { clampParam } from "@/lib/paramRegistry";
+import { anatomicalAngles, fromAnatomical } from "@/lib/joints";
+
+export const CUSTOM_POSES_STORAGE_KEY = "pierna:poses";
+
+export type Pose = {
+  hip: number;
+  knee: number;
+  ankle: number;
+  footRotation: number;
+  stepAngle: number;
+  verticalShift: number;
+};
+
+export const POSE_KEYS = [
+  "hip",
+  "knee",
+  "ankle",
+  "footRotation",
+  "stepAngle",
+  "verticalShift",
+] as const satisfies readonly (keyof Pose)[];
+
+export const POSE_PRESETS = {
+  standing: {
+    hip: 0,
+    knee: 0,
+    ankle: 0,
+    footRotation: 0,
+    stepAngle: 0,
+    verticalShift: 0,
+  },
+  walking_contact: {
+    hip: -10,
+    knee: 5,
+    ankle: -5,
+    footRotation: 0,
+    stepAngle: -5,
+    verticalShift: 0,
+  },
+  walking_midstance: {
+    hip: 10,
+    knee: 15,
+    ankle: 10,
+    footRotation: 0,
+    stepAngle: 3,
+    verticalShift: 1,
+  },
+  walking_pushoff: {
+    hip: 20,
+    knee: 40,
+    ankle: 20,
+    footRotation: 0,
+    stepAngle: 10,
+    verticalShift: 2,
+  },
+  walking_swing: {
+    hip: 30,
+    knee: 70,
+    ankle: 10,
+    footRotation: 0,
+    stepAngle: 5,
+    verticalShift: 4,
+  },
+  sitting: {
+    hip: 90,
+    knee: 90,
+    ankle: 0,
+    footRotation: 0,
+    stepAngle: 0,
+    verticalShift: 0,
+  },
+  // En cuclillas el tobillo va en dorsiflexión (negativo)
+  squatting: {
+    hip: 70,
+    knee: 120,
+    ankle: -30,
+    footRotation: 0,
+    stepAngle: 0,
+    verticalShift: 0,
+  },
+} satisfies Record<string, Pose>;
+
+export type PosePreset = keyof typeof POSE_PRESETS;
+
+export const POSE_PRESET_IDS = Object.keys(POSE_PRESETS) as PosePreset[];
+
+export const POSE_PRESET_LABELS: Record<PosePreset, string> = {
+  standing: "De pie",
+  walking_contact: "Contacto del talón",
+  walking_midstance: "Apoyo medio",
+  walking_pushoff: "Impulso",
+  walking_swing: "Balanceo",
+  sitting: "Sentado",
+  squatting: "En cuclillas",
+};
+
+export type CustomPose = {
+  id: string;
+  name: string;
+  pose: Pose;
+  createdAt: string;
+};
+
+/** Pose actual de una pierna en ángulos anatómicos */
+export function poseFromParams(params: LegParams): Pose {
+  const angles = anatomicalAngles(params);
+  return {
+    ...angles,
+    footRotation: params.footRotation,
+    stepAngle: params.stepAngle,
+    verticalShift: params.verticalShift,
+  };
+}
+
+/** Aplica una pose a la pierna; el resto de parámetros no cambia */
+export function applyPose(params: LegParams, pose: Pose): LegParams {
+  return {
+    ...params,
+    hipAngle: clampParam("hipAngle", fromAnatomical("hip", pose.hip)),
+    kneeAngle: clampParam("kneeAngle", fromAnatomical("knee", pose.knee)),
+    ankleAngle: clampParam("ankleAngle", fromAnatomical("ankle", pose.ankle)),
+    footRotation: clampParam("footRotation", pose.footRotation),
+    stepAngle: clampParam("stepAngle", pose.stepAngle),
+    verticalShift: clampParam("verticalShift", pose.verticalShift),
+  };
+}
+
+/** Mezcla lineal: `weight` es el peso de `b` (0 = solo `a`, 1 = solo `b`) */
+export function blendPoses(a: Pose, b: Pose, weight: number): Pose {
+  const w = Math.max(0, Math.min(1, weight));
+  const pose = { ...a };
+  for (const key of POSE_KEYS) pose[key] = a[key] + (b[key] - a[key]) * w;
+  return pose;
+}
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCustomPose(name: string, pose: Pose): CustomPose {
+  return {
+    id: newId(),
+    name: name.trim() || "Pose sin nombre",
+    pose: { ...pose },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function deleteCustomPose(poses: CustomPose[], id: string): CustomPose[] {
+  return poses.filter((p) => p.id !== id);
+}
+
+/** Lee las poses guardadas; las dañadas se descartan */
+export function loadCustomPoses(storage: Storage): CustomPose[] {
+  const raw = storage.getItem(CUSTOM_POSES_STORAGE_KEY);
+  if (!raw) return [];
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(list)) return [];
+
+  const poses: CustomPose[] = [];
+  for (const item of list) {
+    const entry = (item ?? {}) as Partial<CustomPose>;
+    if (typeof entry.id !== "string" || typeof entry.name !== "string") continue;
+    const source = (entry.pose ?? {}) as Partial<Pose>;
+    if (!POSE_KEYS.every((key) => Number.isFinite(source[key]))) continue;
+    poses.push({
+      id: entry.id,
+      name: entry.name,
+      pose: Object.fromEntries(POSE_KEYS.map((key) => [key, Number(source[key])])) as Pose,
+      createdAt: entry.createdAt ?? new Date(0).toISOString(),
+    });
+  }
+  return poses;
+}
+
+export function saveCustomPoses(storage: Storage, poses: CustomPose[]) {
+  storage.setItem(CUSTOM_POSES_STORAGE_KEY, JSON.stringify(poses));
+}
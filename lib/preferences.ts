@@ -0,0 +1,69 @@
+// src/lib/preferences.ts
+// Preferencias globales de la app (no forman parte del diseño): se guardan
+// aparte de los parámetros y se sincronizan entre pestañas con el store.
+import { JOINT_PROFILES, type JointProfileId } from "@/lib/joints";
+import { DEFAULT_UNITS, parseUnits, type UnitPrefs } from "@/lib/units";
+import { DEFAULT_SUBJECT, parseSubject, type Subject } from "@/lib/subject";
+import { DEFAULT_MASS_MODEL, parseMassModel, type MassModel } from "@/lib/anthropometry";
+import {
+  ACTIVITIES,
+  parseActivitySettings,
+  type ActivityId,
+  type ActivitySettingsMap,
+} from "@/lib/activities";
+
+export const PREFERENCES_STORAGE_KEY = "pierna:prefs";
+
+export type Preferences = {
+  /** Perfil de límites articulares que respetan sliders, animación e importación */
+  jointProfile: JointProfileId;
+  /** Unidades de presentación; lo guardado sigue en cm y grados */
+  units: UnitPrefs;
+  /** Ajustar verticalShift para que el pie de apoyo toque el suelo */
+  groundContact: boolean;
+  /** Masa y cadencia para las fuerzas y los resortes del pie */
+  subject: Subject;
+  /** De dónde salen las masas de los segmentos (centro de masa, dinámica) */
+  massModel: MassModel;
+  /** Actividad que reproduce "Animar" */
+  activity: ActivityId;
+  /** Parámetros ajustados de cada actividad (las ausentes usan su defecto) */
+  activitySettings: ActivitySettingsMap;
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  jointProfile: "human",
+  units: DEFAULT_UNITS,
+  groundContact: false,
+  subject: DEFAULT_SUBJECT,
+  massModel: DEFAULT_MASS_MODEL,
+  activity: "walk",
+  activitySettings: {},
+};
+
+/** Lee las preferencias guardadas; valores desconocidos vuelven al defecto */
+export function parsePreferences(raw: string | null): Preferences {
+  if (!raw) return DEFAULT_PREFERENCES;
+  try {
+    // gaitProfile: nombre anterior de la actividad (solo marchas)
+    const parsed = JSON.parse(raw) as Partial<Preferences> & { gaitProfile?: string };
+    const activity = parsed.activity ?? parsed.gaitProfile;
+    return {
+      jointProfile:
+        parsed.jointProfile && parsed.jointProfile in JOINT_PROFILES
+          ? parsed.jointProfile
+          : DEFAULT_PREFERENCES.jointProfile,
+      units: parseUnits(parsed.units),
+      groundContact: parsed.groundContact === true,
+      subject: parseSubject(parsed.subject),
+      massModel: parseMassModel(parsed.massModel),
+      activity:
+        activity && activity in ACTIVITIES
+          ? (activity as ActivityId)
+          : DEFAULT_PREFERENCES.activity,
+      activitySettings: parseActivitySettings(parsed.activitySettings),
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
@@ -0,0 +1,134 @@
+// src/lib/shareLink.ts
+// Enlaces compartibles: codifica LegParams, el modelo y la pose de cámara en
+// el hash de la URL (no llega al servidor). Ej.:
+//   /#v=1&fl=26&ah=4&...&m=%2Fmodels%2Fleg.glb&cam=60,40,60,0,20,0
+// En modo bilateral añade `bi=<enlace>,<pelvis>,<lado>` y, si las piernas son
+// independientes, la derecha con los mismos códigos prefijados con "r":
+//   ...&bi=i,20,l&rfl=25&rah=4&...
+import type { BilateralConfig, CameraPose, LegParams } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META, type ParamKey } from "@/lib/paramRegistry";
+import { PARAMS_SCHEMA_VERSION, decodeParamsValue } from "@/lib/paramsStorage";
+import { decodeBilateral } from "@/lib/paramStore";
+
+// Códigos cortos y estables: no reutilizar un código aunque se borre su parámetro
+const SHARE_CODES: Record<ParamKey, string> = {
+  footLength: "fl",
+  archHeight: "ah",
+  heelRadius: "hr",
+  toeCount: "tc",
+  tibiaLength: "tl",
+  femurLength: "fe",
+  legThickness: "lt",
+  kneeAngle: "ka",
+  ankleAngle: "aa",
+  hipAngle: "ha",
+  footRotation: "fr",
+  stepAngle: "sa",
+  verticalShift: "vs",
+  springStiffness: "ss",
+  dampingFactor: "df",
+};
+
+// Prefijo de los códigos de la pierna derecha
+const RIGHT_PREFIX = "r";
+
+export type SharedDesign = {
+  params: LegParams;
+  /** Solo en modo bilateral; sin `rightParams` la derecha copia la izquierda */
+  bilateral?: BilateralConfig;
+  rightParams?: LegParams;
+  gltfUrl?: string;
+  camera?: CameraPose;
+};
+
+// Redondea a los decimales que implica el paso del slider
+function compact(key: ParamKey, value: number): string {
+  const step = PARAM_META[key].step;
+  const digits = step < 1 ? Math.min(3, Math.ceil(-Math.log10(step)) + 1) : 1;
+  return String(+value.toFixed(digits));
+}
+
+function compactPose(pose: CameraPose): string {
+  return [...pose.position, ...pose.target].map((v) => +v.toFixed(1)).join(",");
+}
+
+export function encodeShareHash(design: SharedDesign): string {
+  const query = new URLSearchParams();
+  query.set("v", String(PARAMS_SCHEMA_VERSION));
+  for (const key of PARAM_KEYS) {
+    query.set(SHARE_CODES[key], compact(key, design.params[key]));
+  }
+  const { bilateral, rightParams } = design;
+  if (bilateral?.enabled) {
+    const link = bilateral.link === "independent" ? "i" : "m";
+    query.set("bi", [link, bilateral.pelvisWidth, bilateral.activeSide[0]].join(","));
+    if (bilateral.link === "independent" && rightParams) {
+      for (const key of PARAM_KEYS) {
+        query.set(RIGHT_PREFIX + SHARE_CODES[key], compact(key, rightParams[key]));
+      }
+    }
+  }
+  // Las URLs blob: solo existen en la pestaña que las creó
+  if (design.gltfUrl && !design.gltfUrl.startsWith("blob:")) {
+    query.set("m", design.gltfUrl);
+  }
+  if (design.camera) query.set("cam", compactPose(design.camera));
+  return query.toString();
+}
+
+export function buildShareUrl(design: SharedDesign, base = window.location.href): string {
+  const url = new URL(base);
+  url.hash = encodeShareHash(design);
+  return url.toString();
+}
+
+/**
+ * Decodifica un hash de enlace compartido. Devuelve null si el hash no es un
+ * enlace de diseño; valores fuera de rango se recortan y los faltantes salen
+ * de `defaults`.
+ */
+export function decodeShareHash(hash: string, defaults: LegParams): SharedDesign | null {
+  const query = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!query.has("v")) return null;
+
+  const version = Number(query.get("v"));
+  const readParams = (prefix: string): Record<string, unknown> | null => {
+    const raw: Record<string, unknown> = {};
+    for (const key of PARAM_KEYS) {
+      const value = query.get(prefix + SHARE_CODES[key]);
+      if (value !== null) raw[key] = Number(value);
+    }
+    return Object.keys(raw).length > 0 ? raw : null;
+  };
+
+  let params: LegParams;
+  let bilateral: BilateralConfig | undefined;
+  let rightParams: LegParams | undefined;
+  try {
+    params = decodeParamsValue({ version, params: readParams("") ?? {} }, defaults).params;
+    const bi = query.get("bi")?.split(",");
+    if (bi) {
+      bilateral = decodeBilateral({
+        enabled: true,
+        link: bi[0] === "i" ? "independent" : "mirror",
+        pelvisWidth: Number(bi[1]),
+        activeSide: bi[2] === "r" ? "right" : "left",
+      });
+      const right = readParams(RIGHT_PREFIX);
+      if (bilateral.link === "independent" && right) {
+        rightParams = decodeParamsValue({ version, params: right }, defaults).params;
+      }
+    }
+  } catch (e) {
+    console.warn("[shareLink] enlace inválido", e);
+    return null;
+  }
+
+  let camera: CameraPose | undefined;
+  const cam = query.get("cam")?.split(",").map(Number);
+  if (cam && cam.length === 6 && cam.every(Number.isFinite)) {
+    camera = { position: [cam[0], cam[1], cam[2]], target: [cam[3], cam[4], cam[5]] };
+  }
+
+  return { params, bilateral, rightParams, gltfUrl: query.get("m") || undefined, camera };
+}
@@ -0,0 +1,40 @@
+// src/lib/subject.ts
+// Datos del sujeto para los modelos dinámicos (fuerzas de reacción, resortes
+// del pie). Se guardan con las preferencias, no con el diseño.
+
+export type Subject = {
+  /** Masa corporal (kg) */
+  bodyMass: number;
+  /** Cadencia (pasos por minuto; un ciclo de marcha son dos pasos) */
+  cadence: number;
+};
+
+export const DEFAULT_SUBJECT: Subject = { bodyMass: 70, cadence: 100 };
+
+export const SUBJECT_RANGES: Record<keyof Subject, { min: number; max: number; step: number }> = {
+  bodyMass: { min: 30, max: 150, step: 1 },
+  cadence: { min: 60, max: 140, step: 1 },
+};
+
+export const GRAVITY = 9.81;
+
+/** Peso corporal (N) */
+export function bodyWeight(subject: Subject): number {
+  return subject.bodyMass * GRAVITY;
+}
+
+/** Duración de un ciclo de marcha (s) */
+export function cycleSeconds(subject: Subject): number {
+  return 120 / subject.cadence;
+}
+
+/** Lee un sujeto guardado; valores ausentes o inválidos vuelven al defecto */
+export function parseSubject(value: unknown): Subject {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<Subject>;
+  const read = (key: keyof Subject) => {
+    const v = Number(raw[key]);
+    const { min, max } = SUBJECT_RANGES[key];
+    return Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : DEFAULT_SUBJECT[key];
+  };
+  return { bodyMass: read("bodyMass"), cadence: read("cadence") };
+}
@@ -0,0 +1,98 @@
+// src/lib/timeline.test.ts
+import { describe, expect, it } from "vitest";
+import { defaultParams } from "@/lib/defaultParams";
+import {
+  DEFAULT_TIMELINE,
+  TIMELINE_DURATION_RANGE,
+  evaluateTimeline,
+  parseTimeline,
+  sampleTrack,
+  type TimelineKey,
+} from "@/lib/timeline";
+
+const keys = (interpolation: TimelineKey["interpolation"], bezier?: TimelineKey["bezier"]): TimelineKey[] => [
+  { time: 0, value: 0, interpolation, ...(bezier ? { bezier } : {}) },
+  { time: 2, value: 10, interpolation: "linear" },
+];
+
+describe("sampleTrack", () => {
+  it("mantiene el valor fuera de los extremos y sin keyframes devuelve null", () => {
+    expect(sampleTrack(keys("linear"), -1)).toBe(0);
+    expect(sampleTrack(keys("linear"), 5)).toBe(10);
+    expect(sampleTrack([], 1)).toBeNull();
+  });
+
+  it("la interpolación es la del keyframe de salida", () => {
+    expect(sampleTrack(keys("linear"), 0.5)).toBeCloseTo(2.5);
+    expect(sampleTrack(keys("step"), 1.99)).toBe(0);
+    expect(sampleTrack(keys("ease"), 0.5)).toBeLessThan(2.5);
+  });
+
+  it("bezier: las asas lineales dan la recta y la curva es monótona", () => {
+    expect(sampleTrack(keys("bezier", [1 / 3, 1 / 3, 2 / 3, 2 / 3]), 0.5)).toBeCloseTo(2.5, 4);
+    // Por defecto ease-in-out: simétrica respecto al punto medio
+    const track = keys("bezier");
+    expect(sampleTrack(track, 1)).toBeCloseTo(5, 3);
+    expect(sampleTrack(track, 0.5)).toBeLessThan(2.5);
+    const values = Array.from({ length: 21 }, (_, i) => sampleTrack(track, i / 10)!);
+    values.slice(1).forEach((v, i) => expect(v).toBeGreaterThanOrEqual(values[i]));
+  });
+
+  it("bezier: resuelve también asas que sobrepasan el rango", () => {
+    const overshoot = keys("bezier", [0.3, 1.6, 0.7, 1.6]);
+    expect(sampleTrack(overshoot, 1.6)!).toBeGreaterThan(10);
+    expect(sampleTrack(overshoot, 2)).toBe(10);
+  });
+});
+
+describe("evaluateTimeline", () => {
+  it("solo cambia los parámetros con pista y los recorta a su rango", () => {
+    const pose = evaluateTimeline(
+      { ...DEFAULT_TIMELINE, tracks: { kneeAngle: [{ time: 0, value: 500, interpolation: "linear" }] } },
+      1,
+      defaultParams
+    );
+    expect(pose).toEqual({ ...defaultParams, kneeAngle: 140 });
+  });
+});
+
+describe("parseTimeline", () => {
+  it("descarta pistas desconocidas y keyframes inválidos y ordena el resto", () => {
+    const timeline = parseTimeline({
+      duration: 3,
+      loop: false,
+      tracks: {
+        kneeAngle: [
+          { time: 2, value: 30, interpolation: "bezier", bezier: [0.1, 0.2, 0.3, 0.4] },
+          { time: "x", value: 10 },
+          { time: -1, value: 5, interpolation: "elastic" },
+        ],
+        rodilla: [{ time: 0, value: 1 }],
+      },
+    });
+    expect(timeline).toEqual({
+      duration: 3,
+      loop: false,
+      tracks: {
+        kneeAngle: [
+          { time: 0, value: 5, interpolation: "linear" },
+          { time: 2, value: 30, interpolation: "bezier", bezier: [0.1, 0.2, 0.3, 0.4] },
+        ],
+      },
+    });
+  });
+
+  it("ignora asas bezier mal formadas y limita la duración", () => {
+    const timeline = parseTimeline({
+      duration: 1000,
+      tracks: { hipAngle: [{ time: 0, value: 90, interpolation: "bezier", bezier: [0, 1] }] },
+    });
+    expect(timeline.duration).toBe(TIMELINE_DURATION_RANGE.max);
+    expect(timeline.loop).toBe(true);
+    expect(timeline.tracks.hipAngle?.[0]).not.toHaveProperty("bezier");
+  });
+
+  it("sin datos válidos devuelve la línea de tiempo vacía", () => {
+    expect(parseTimeline(null)).toEqual(DEFAULT_TIMELINE);
+  });
+});
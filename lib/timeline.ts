@@ -0,0 +1,211 @@
+// src/lib/timeline.ts
+// Línea de tiempo de keyframes para animar cualquier campo de LegParams.
+// Cada pista es una lista de keyframes ordenada por tiempo (s); la
+// interpolación de un keyframe rige el tramo que va de él al siguiente.
+// Se guarda junto al diseño (sesión y biblioteca).
+import type { LegParams } from "@/lib/types";
+import { PARAM_KEYS, clampParam, type ParamKey } from "@/lib/paramRegistry";
+
+export const TIMELINE_STORAGE_KEY = "pierna:timeline";
+
+export type Interpolation = "linear" | "ease" | "step" | "bezier";
+
+export const INTERPOLATIONS: Interpolation[] = ["linear", "ease", "step", "bezier"];
+
+export const INTERPOLATION_LABELS: Record<Interpolation, string> = {
+  linear: "Lineal",
+  ease: "Suave",
+  step: "Escalón",
+  bezier: "Bézier",
+};
+
+/** Puntos de control de una curva cúbica (x1, y1, x2, y2), como en CSS */
+export type BezierHandles = [number, number, number, number];
+
+export const DEFAULT_BEZIER: BezierHandles = [0.42, 0, 0.58, 1];
+
+export type TimelineKey = {
+  /** Segundos desde el inicio */
+  time: number;
+  value: number;
+  interpolation: Interpolation;
+  /** Solo con interpolación "bezier" */
+  bezier?: BezierHandles;
+};
+
+export type TimelineTracks = Partial<Record<ParamKey, TimelineKey[]>>;
+
+export type Timeline = {
+  /** Duración (s) */
+  duration: number;
+  loop: boolean;
+  tracks: TimelineTracks;
+};
+
+export const TIMELINE_DURATION_RANGE = { min: 0.5, max: 60, step: 0.5 };
+
+export const DEFAULT_TIMELINE: Timeline = { duration: 4, loop: true, tracks: {} };
+
+// Dos keyframes a menos de esto se consideran el mismo instante
+const SAME_TIME = 1e-3;
+
+/** x(t) de la curva → t por Newton con bisección de respaldo, luego y(t) */
+function cubicBezier([x1, y1, x2, y2]: BezierHandles, x: number): number {
+  const curve = (a: number, b: number, t: number) =>
+    3 * a * t * (1 - t) ** 2 + 3 * b * t * t * (1 - t) + t ** 3;
+  const slope = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) ** 2 + 6 * (b - a) * t * (1 - t) + 3 * (1 - b) * t * t;
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const d = slope(x1, x2, t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= (curve(x1, x2, t) - x) / d;
+  }
+  if (!(t >= 0 && t <= 1) || Math.abs(curve(x1, x2, t) - x) > 1e-4) {
+    let lo = 0;
+    let hi = 1;
+    t = x;
+    for (let i = 0; i < 30; i++) {
+      if (curve(x1, x2, t) < x) lo = t;
+      else hi = t;
+      t = (lo + hi) / 2;
+    }
+  }
+  return curve(y1, y2, t);
+}
+
+function easeSegment(key: TimelineKey, t: number): number {
+  switch (key.interpolation) {
+    case "step":
+      return 0;
+    case "ease":
+      return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+    case "bezier":
+      return cubicBezier(key.bezier ?? DEFAULT_BEZIER, t);
+    default:
+      return t;
+  }
+}
+
+/** Valor de una pista en `time`; antes del primero y después del último se mantiene */
+export function sampleTrack(keys: TimelineKey[], time: number): number | null {
+  if (keys.length === 0) return null;
+  if (time <= keys[0].time) return keys[0].value;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const a = keys[i];
+    const b = keys[i + 1];
+    if (time < b.time) {
+      const t = (time - a.time) / Math.max(1e-6, b.time - a.time);
+      return a.value + (b.value - a.value) * easeSegment(a, t);
+    }
+  }
+  return keys[keys.length - 1].value;
+}
+
+/** Pose en `time`: los campos sin pista conservan el valor de `base` */
+export function evaluateTimeline(timeline: Timeline, time: number, base: LegParams): LegParams {
+  const next = { ...base };
+  for (const key of Object.keys(timeline.tracks) as ParamKey[]) {
+    const value = sampleTrack(timeline.tracks[key] ?? [], time);
+    if (value != null) next[key] = clampParam(key, value);
+  }
+  return next;
+}
+
+/** Tiempo de reproducción: en bucle vuelve a 0, si no se queda al final */
+export function playbackTime(timeline: Timeline, elapsed: number): number {
+  if (timeline.loop) return elapsed % timeline.duration;
+  return Math.min(elapsed, timeline.duration);
+}
+
+export function hasKeyframes(timeline: Timeline): boolean {
+  return Object.values(timeline.tracks).some((keys) => keys && keys.length > 0);
+}
+
+function withTrack(timeline: Timeline, param: ParamKey, keys: TimelineKey[]): Timeline {
+  const tracks = { ...timeline.tracks };
+  if (keys.length > 0) tracks[param] = keys;
+  else delete tracks[param];
+  return { ...timeline, tracks };
+}
+
+/** Añade o reemplaza el keyframe de `param` en `time` (conserva su interpolación) */
+export function setKeyframe(
+  timeline: Timeline,
+  param: ParamKey,
+  time: number,
+  value: number
+): Timeline {
+  const keys = timeline.tracks[param] ?? [];
+  const at = Math.max(0, Math.min(timeline.duration, time));
+  const existing = keys.find((k) => Math.abs(k.time - at) < SAME_TIME);
+  const key: TimelineKey = existing
+    ? { ...existing, value }
+    : { time: at, value, interpolation: "linear" };
+  const next = keys.filter((k) => k !== existing).concat(key);
+  next.sort((a, b) => a.time - b.time);
+  return withTrack(timeline, param, next);
+}
+
+export function updateKeyframe(
+  timeline: Timeline,
+  param: ParamKey,
+  index: number,
+  patch: Partial<TimelineKey>
+): Timeline {
+  const keys = (timeline.tracks[param] ?? []).map((k, i) => (i === index ? { ...k, ...patch } : k));
+  keys.sort((a, b) => a.time - b.time);
+  return withTrack(timeline, param, keys);
+}
+
+export function removeKeyframe(timeline: Timeline, param: ParamKey, index: number): Timeline {
+  return withTrack(
+    timeline,
+    param,
+    (timeline.tracks[param] ?? []).filter((_, i) => i !== index)
+  );
+}
+
+/** Lee una línea de tiempo guardada; pistas o keyframes inválidos se descartan */
+export function parseTimeline(value: unknown): Timeline {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<Timeline>;
+  const duration = Number(raw.duration);
+  const tracks: TimelineTracks = {};
+  const rawTracks = (raw.tracks && typeof raw.tracks === "object" ? raw.tracks : {}) as Record<
+    string,
+    unknown
+  >;
+  for (const param of PARAM_KEYS) {
+    const list = rawTracks[param];
+    if (!Array.isArray(list)) continue;
+    const keys: TimelineKey[] = [];
+    for (const item of list) {
+      const k = (item ?? {}) as Partial<TimelineKey>;
+      const time = Number(k.time);
+      const v = Number(k.value);
+      if (!Number.isFinite(time) || !Number.isFinite(v)) continue;
+      const bezier =
+        Array.isArray(k.bezier) && k.bezier.length === 4 && k.bezier.every(Number.isFinite)
+          ? (k.bezier as BezierHandles)
+          : undefined;
+      keys.push({
+        time: Math.max(0, time),
+        value: v,
+        interpolation: INTERPOLATIONS.includes(k.interpolation as Interpolation)
+          ? (k.interpolation as Interpolation)
+          : "linear",
+        ...(bezier ? { bezier } : {}),
+      });
+    }
+    keys.sort((a, b) => a.time - b.time);
+    if (keys.length > 0) tracks[param] = keys;
+  }
+  return {
+    duration: Number.isFinite(duration)
+      ? Math.max(TIMELINE_DURATION_RANGE.min, Math.min(TIMELINE_DURATION_RANGE.max, duration))
+      : DEFAULT_TIMELINE.duration,
+    loop: raw.loop !== false,
+    tracks,
+  };
+}
@@ -17,3 +17,31 @@ export type LegParams = {
   springStiffness: number
   dampingFactor: number
 }
+
+// Pose de cámara: posición y punto al que apuntan los OrbitControls
+export type CameraPose = {
+  position: [number, number, number]
+  target: [number, number, number]
+}
+
+export type LegSide = "left" | "right"
+
+// Modo bilateral: la pierna izquierda usa `params` del store y la derecha
+// su propio juego, o lo copia en modo "mirror" (se dibuja reflejada).
+export type BilateralConfig = {
+  enabled: boolean
+  link: "mirror" | "independent"
+  /** Separación entre caderas (cm) */
+  pelvisWidth: number
+  /** Pierna que editan los sliders */
+  activeSide: LegSide
+}
+
+// Instantánea de ambas piernas (historial, animación)
+export type LegPair = {
+  left: LegParams
+  right: LegParams
+}
+
+// Fases del ciclo de marcha de una pierna (máquina de estados de contacto)
+export type GaitPhase = "heel-strike" | "foot-flat" | "heel-rise" | "toe-off" | "swing"
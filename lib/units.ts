@@ -0,0 +1,129 @@
+// src/lib/units.ts
+// Conversión de unidades de presentación. Los valores guardados siempre están
+// en cm y grados; solo la vista, la entrada y los reportes se convierten.
+import type { ParamUnit } from "@/lib/paramRegistry";
+
+export type LengthUnit = "cm" | "mm" | "in";
+export type AngleUnit = "deg" | "rad";
+
+export type UnitPrefs = {
+  length: LengthUnit;
+  angle: AngleUnit;
+};
+
+export const DEFAULT_UNITS: UnitPrefs = { length: "cm", angle: "deg" };
+
+export const LENGTH_UNITS: LengthUnit[] = ["cm", "mm", "in"];
+export const ANGLE_UNITS: AngleUnit[] = ["deg", "rad"];
+
+export const UNIT_LABELS: Record<LengthUnit | AngleUnit, string> = {
+  cm: "cm",
+  mm: "mm",
+  in: "in",
+  deg: "grados",
+  rad: "radianes",
+};
+
+// Unidades de presentación por cada cm
+const PER_CM: Record<LengthUnit, number> = { cm: 1, mm: 10, in: 1 / 2.54 };
+
+// Decimales extra respecto a cm: 1 mm = 0.1 cm pero 1 in ≈ 2.54 cm
+const EXTRA_DIGITS: Record<LengthUnit | AngleUnit, number> = {
+  cm: 0,
+  mm: -1,
+  in: 1,
+  deg: 0,
+  rad: 2,
+};
+
+export function toDisplayLength(cm: number, unit: LengthUnit): number {
+  return cm * PER_CM[unit];
+}
+
+export function fromDisplayLength(value: number, unit: LengthUnit): number {
+  return value / PER_CM[unit];
+}
+
+export function toDisplayAngle(deg: number, unit: AngleUnit): number {
+  return unit === "rad" ? (deg * Math.PI) / 180 : deg;
+}
+
+export function fromDisplayAngle(value: number, unit: AngleUnit): number {
+  return unit === "rad" ? (value * 180) / Math.PI : value;
+}
+
+export function lengthSymbol(units: UnitPrefs): string {
+  return units.length;
+}
+
+export function angleSymbol(units: UnitPrefs): string {
+  return units.angle === "rad" ? "rad" : "°";
+}
+
+function withSymbol(text: string, symbol: string) {
+  return symbol === "°" ? `${text}°` : `${text} ${symbol}`;
+}
+
+function digitsFor(baseDigits: number, unit: LengthUnit | AngleUnit) {
+  return Math.max(0, baseDigits + EXTRA_DIGITS[unit]);
+}
+
+/** Longitud canónica (cm) con la unidad preferida; `digits` se refiere a cm */
+export function formatLength(cm: number, units: UnitPrefs, digits = 1): string {
+  const text = toDisplayLength(cm, units.length).toFixed(digitsFor(digits, units.length));
+  return withSymbol(text, lengthSymbol(units));
+}
+
+/** Área canónica (cm²) con la unidad de longitud preferida al cuadrado */
+export function formatArea(cm2: number, units: UnitPrefs, digits = 0): string {
+  const factor = toDisplayLength(1, units.length) ** 2;
+  const text = (cm2 * factor).toFixed(digitsFor(digits, units.length));
+  return `${text} ${lengthSymbol(units)}²`;
+}
+
+/** Ángulo canónico (grados) con la unidad preferida; `digits` se refiere a grados */
+export function formatAngle(deg: number, units: UnitPrefs, digits = 0): string {
+  const text = toDisplayAngle(deg, units.angle).toFixed(digitsFor(digits, units.angle));
+  return withSymbol(text, angleSymbol(units));
+}
+
+/** Valor canónico de un parámetro → unidad de presentación */
+export function toDisplay(unit: ParamUnit, value: number, units: UnitPrefs): number {
+  if (unit === "cm") return toDisplayLength(value, units.length);
+  if (unit === "°") return toDisplayAngle(value, units.angle);
+  return value;
+}
+
+/** Unidad de presentación → valor canónico de un parámetro */
+export function fromDisplay(unit: ParamUnit, value: number, units: UnitPrefs): number {
+  if (unit === "cm") return fromDisplayLength(value, units.length);
+  if (unit === "°") return fromDisplayAngle(value, units.angle);
+  return value;
+}
+
+/** Símbolo con que se muestra una unidad canónica */
+export function displaySymbol(unit: ParamUnit, units: UnitPrefs): string {
+  if (unit === "cm") return lengthSymbol(units);
+  if (unit === "°") return angleSymbol(units);
+  return "";
+}
+
+/** Decimales para mostrar un valor cuyo paso canónico tiene `baseDigits` */
+export function displayDigits(unit: ParamUnit, baseDigits: number, units: UnitPrefs): number {
+  if (unit === "cm") return digitsFor(baseDigits, units.length);
+  if (unit === "°") return digitsFor(baseDigits, units.angle);
+  return baseDigits;
+}
+
+/** Lee unidades guardadas; valores desconocidos vuelven al defecto */
+export function parseUnits(value: unknown): UnitPrefs {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<UnitPrefs>;
+  return {
+    length: LENGTH_UNITS.includes(raw.length as LengthUnit)
+      ? (raw.length as LengthUnit)
+      : DEFAULT_UNITS.length,
+    angle: ANGLE_UNITS.includes(raw.angle as AngleUnit)
+      ? (raw.angle as AngleUnit)
+      : DEFAULT_UNITS.angle,
+  };
+}
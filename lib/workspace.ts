@@ -0,0 +1,117 @@
+// src/lib/workspace.ts
+// Espacio de trabajo alcanzable del pie en el plano sagital. Se barren los
+// ángulos dentro de los límites del perfil articular y se ocupa una rejilla;
+// el área es el número de celdas ocupadas por el área de cada celda.
+// Las posiciones son relativas a la cadera (cm, marco de lib/kinematics).
+import type { LegParams } from "@/lib/types";
+import {
+  JOINT_PARAM,
+  kneeFoldLimit,
+  paramRange,
+  toAnatomical,
+  type JointId,
+  type JointProfile,
+  type JointRange,
+} from "@/lib/joints";
+import { sagittalChain, type Point2 } from "@/lib/kinematics";
+
+export type WorkspaceRegion = {
+  /** Centros de las celdas ocupadas */
+  cells: Point2[];
+  /** Área ocupada (cm²) */
+  area: number;
+};
+
+export type LegWorkspace = {
+  ankle: WorkspaceRegion;
+  toe: WorkspaceRegion;
+  /** Lado de cada celda de la rejilla (cm) */
+  cellSize: number;
+};
+
+export const WORKSPACE_CELL_SIZE = 2;
+
+const DEG = Math.PI / 180;
+
+/** Rango anatómico que realmente puede recorrer una articulación */
+function jointSpan(params: LegParams, profile: JointProfile, joint: JointId): JointRange {
+  const range = paramRange(profile, JOINT_PARAM[joint]);
+  const a = toAnatomical(joint, range.min);
+  const b = toAnatomical(joint, range.max);
+  let min = Math.min(a, b);
+  let max = Math.max(a, b);
+  if (joint === "knee") {
+    max = Math.min(max, kneeFoldLimit(params));
+  } else if (joint === "ankle") {
+    // El pie no puede atravesar la tibia (ver checkLimits)
+    min = Math.max(min, profile.footClearance - 90);
+    max = Math.min(max, 90 - profile.footClearance);
+  }
+  return { min, max: Math.max(min, max) };
+}
+
+// Valores equiespaciados de un rango, incluidos los extremos
+function sweep(range: JointRange, step: number): number[] {
+  const count = Math.max(1, Math.ceil((range.max - range.min) / step));
+  return Array.from({ length: count + 1 }, (_, i) => range.min + ((range.max - range.min) * i) / count);
+}
+
+// Índices de celda empaquetados en un número (claves de texto son mucho más lentas)
+const GRID_OFFSET = 1 << 12;
+
+function createGrid(cellSize: number) {
+  const occupied = new Map<number, Point2>();
+  return {
+    add(p: Point2) {
+      const i = Math.floor(p.x / cellSize);
+      const j = Math.floor(p.y / cellSize);
+      const key = (i + GRID_OFFSET) * 2 * GRID_OFFSET + (j + GRID_OFFSET);
+      if (!occupied.has(key)) {
+        occupied.set(key, { x: (i + 0.5) * cellSize, y: (j + 0.5) * cellSize });
+      }
+    },
+    region(): WorkspaceRegion {
+      const cells = Array.from(occupied.values());
+      return { cells, area: cells.length * cellSize * cellSize };
+    },
+  };
+}
+
+/**
+ * Barre cadera y rodilla (y tobillo para la punta) dentro del perfil.
+ * El paso angular se ajusta a la longitud de cada brazo para que dos muestras
+ * vecinas no queden a más de una celda y la rejilla no tenga huecos.
+ */
+export function computeWorkspace(
+  params: LegParams,
+  profile: JointProfile,
+  cellSize = WORKSPACE_CELL_SIZE
+): LegWorkspace {
+  const legLength = params.femurLength + params.tibiaLength;
+  const toeLength = Math.hypot(params.footLength - params.heelRadius, params.heelRadius + params.archHeight);
+  const fineStep = cellSize / 2 / legLength / DEG;
+  const coarseStep = cellSize / (legLength + toeLength) / DEG;
+  const ankleStep = cellSize / Math.max(toeLength, 1) / DEG;
+
+  const hip = jointSpan(params, profile, "hip");
+  const knee = jointSpan(params, profile, "knee");
+  const ankle = jointSpan(params, profile, "ankle");
+
+  const ankleGrid = createGrid(cellSize);
+  for (const h of sweep(hip, fineStep)) {
+    for (const k of sweep(knee, fineStep)) {
+      ankleGrid.add(sagittalChain(params, 0, h, k, 0).ankle);
+    }
+  }
+
+  const toeGrid = createGrid(cellSize);
+  for (const h of sweep(hip, coarseStep)) {
+    for (const k of sweep(knee, coarseStep)) {
+      for (const a of sweep(ankle, ankleStep)) {
+        toeGrid.add(sagittalChain(params, 0, h, k, a).toe);
+      }
+    }
+  }
+
+  return { ankle: ankleGrid.region(), toe: toeGrid.region(), cellSize };
+}